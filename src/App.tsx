@@ -1,15 +1,69 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import './App.css';
 import GanttChart from './GanttChart';
 import ProjectForm from './ProjectForm';
 import PoolForm from './PoolForm';
 import BulkUpdateForm from './BulkUpdateForm';
+import UtilizationHeatmap from './UtilizationHeatmap';
 import FilterPanel from './FilterPanel';
 import ExportPanel from './ExportPanel';
 import ErrorBoundary from './ErrorBoundary';
-import type { ProjectFormData, PoolData } from './types';
+import SchedulePreview from './SchedulePreview';
+import LevelingPreview from './LevelingPreview';
+import HistoryPanel from './HistoryPanel';
+import RecoveryScreen from './RecoveryScreen';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import ScenarioBar from './ScenarioBar';
+import ScenarioCompare from './ScenarioCompare';
+import BaselineControls from './BaselineControls';
+import HolidayCalendar from './HolidayCalendar';
+import type { ProjectFormData, PoolData, ProjectFilters, TimeOff } from './types';
+import { generateId } from './ids';
+import {
+  loadAppData,
+  saveAppData,
+  listWorkspaces,
+  saveWorkspace,
+  createWorkspaceWithData,
+  deleteWorkspace,
+  getLastWorkspaceId,
+  setLastWorkspaceId,
+  StorageError,
+  getSyncedIds,
+  type AppData,
+  type SyncedIds
+} from './storage';
+import { openSyncChannel, mergeRecords, type SyncChannel, type SyncMessage } from './sync';
+import { compareScenario, type ScenarioComparison } from './scenarios';
+import { captureBaseline } from './baselines';
+import {
+  createWorkspace,
+  getUniqueWorkspaceName,
+  getScenarioParent,
+  emptyFilters,
+  DEFAULT_WORKSPACE_ID,
+  type Workspace,
+  type WorkspaceBackup,
+  type WorkspaceSettings
+} from './workspaces';
+import { removeDependenciesOn } from './dependencies';
+import { planSchedule, type SchedulePlan } from './scheduling';
+import { levelPool, type LevelingStrategy } from './leveling';
+import { getPoolHoursOn } from './calendar';
+import { toDateKey } from './workDays';
+import { isMilestone, isPhase, getPhasesByParent, rollUpPhases } from './items';
+import { createHistory, recordHistory, moveHistory, canUndo, canRedo, type HistoryState, type HistorySnapshot } from './history';
 
-type TabType = 'projects' | 'pools' | 'bulk-update' | 'export';
+type TabType = 'projects' | 'pools' | 'bulk-update' | 'calendar' | 'export';
+
+// Stands in for the holidays of a workspace that hasn't loaded yet
+const noHolidays: TimeOff[] = [];
+
+// How an item is named in the edit history
+function describeItem(item: ProjectFormData) {
+  const kind = isMilestone(item) ? 'milestone' : isPhase(item) ? 'phase' : 'project';
+  return `${kind} "${item.name || '(Untitled)'}"`;
+}
 
 // Helper functions for week calculations
 function getWeekStart(date: Date) {
@@ -58,6 +112,7 @@ function getDateRange(projects: ProjectFormData[]) {
 // Sample default data for testing
 const defaultPools: PoolData[] = [
   {
+    id: generateId(),
     name: 'Development Team',
     weeklyHours: 40,
     standardWeekHours: 40,
@@ -68,6 +123,7 @@ const defaultPools: PoolData[] = [
     lastModified: new Date().toISOString()
   },
   {
+    id: generateId(),
     name: 'QA Team',
     weeklyHours: 40,
     standardWeekHours: 40,
@@ -78,6 +134,7 @@ const defaultPools: PoolData[] = [
     lastModified: new Date().toISOString()
   },
   {
+    id: generateId(),
     name: 'DevOps Team',
     weeklyHours: 40,
     standardWeekHours: 40,
@@ -98,13 +155,13 @@ const addDays = (date: Date, days: number) => {
 
 const defaultProjects: ProjectFormData[] = Array.from({ length: 15 }, (_, i) => {
   const poolIdx = i % 3; 
-  const poolName = `Pool ${poolIdx + 1}`;
   const startOffset = i * 7; // 1 week apart
   const duration = 14 + (i % 4) * 7; // 2-5 weeks
   return {
+    id: generateId(),
     name: `Project ${i + 1}`,
     sponsor: `Sponsor ${String.fromCharCode(65 + (i % 5))}`,
-    pool: poolName,
+    poolId: defaultPools[poolIdx].id,
     startDate: addDays(today, startOffset),
     targetDate: addDays(today, startOffset + duration),
     estimatedHours: 40 + (i % 5) * 10,
@@ -119,170 +176,539 @@ const defaultProjects: ProjectFormData[] = Array.from({ length: 15 }, (_, i) =>
 function App() {
   const [projects, setProjects] = useState<ProjectFormData[]>([]);
   const [pools, setPools] = useState<PoolData[]>([]);
-  const [selectedProjectIndex, setSelectedProjectIndex] = useState<number | null>(null);
-  const [selectedPoolIndex, setSelectedPoolIndex] = useState<number | null>(null);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+  const [selectedPoolId, setSelectedPoolId] = useState<string | null>(null);
   const [selectedWeekIndex, setSelectedWeekIndex] = useState<number | null>(null);
   const [selectedWeekStart, setSelectedWeekStart] = useState<Date | null>(null);
+  const [bulkUpdatePoolId, setBulkUpdatePoolId] = useState<string>(''); // Pool to open Bulk Update on
   const [activeTab, setActiveTab] = useState<TabType>('projects');
   const [showGantt, setShowGantt] = useState(true);
-  const [projectVisibility, setProjectVisibility] = useState<{ [name: string]: boolean }>({});
+  const [projectVisibility, setProjectVisibility] = useState<{ [projectId: string]: boolean }>({});
   const [showProjectForm, setShowProjectForm] = useState(false);
-  const [filters, setFilters] = useState<{
-    status?: string[];
-    pool?: string[];
-    dateRange?: {
-      start?: string;
-      end?: string;
-    };
-    progress?: {
-      min?: number;
-      max?: number;
-    };
-    search?: string;
-  }>({
-    status: [],
-    pool: [],
-    dateRange: {
-      start: '',
-      end: ''
-    },
-    progress: {
-      min: undefined,
-      max: undefined
-    },
-    search: ''
-  });
+  // Save waiting on confirmation because it would move dependent projects
+  const [pendingSchedule, setPendingSchedule] = useState<{ saved: ProjectFormData; plan: SchedulePlan } | null>(null);
+  // Pool being leveled from the over-allocation warnings, with the weeks it's over in
+  const [leveling, setLeveling] = useState<{ poolId: string; weekStarts: Date[]; strategy: LevelingStrategy } | null>(null);
+  const [history, setHistory] = useState<HistoryState | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false); // Nothing is saved until the saved data has been read
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [loadError, setLoadError] = useState<StorageError | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null); // Workspace projects and pools belong to
+  const [workspaceToOpen, setWorkspaceToOpen] = useState<string | null>(getLastWorkspaceId);
+  const [filters, setFilters] = useState<ProjectFilters>(emptyFilters);
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+  const holidays = activeWorkspace?.holidays ?? noHolidays;
+  // Set while the open workspace is a scenario: the workspace whose live plan it was forked from
+  const scenarioParent = activeWorkspace ? getScenarioParent(activeWorkspace, workspaces) : undefined;
+  // Scenario vs. live plan, shown while open; `result` is null while the live plan loads
+  const [scenarioComparison, setScenarioComparison] = useState<{ result: ScenarioComparison | null; error?: string } | null>(null);
+  // The project open in the form was changed in another tab: `local` is what the form opened
+  // with, `theirs` the other tab's version (undefined when it was deleted there)
+  const [remoteEdit, setRemoteEdit] = useState<{ projectId: string; local: ProjectFormData; theirs?: ProjectFormData } | null>(null);
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+  // Data read back from another tab's save, which doesn't need saving again
+  const remoteDataRef = useRef<AppData | null>(null);
+  // Ids of the records last read from or written to storage, for merging (see mergeRecords)
+  const syncedIdsRef = useRef<SyncedIds>(getSyncedIds({ projects: [], pools: [] }));
+  const syncHandlersRef = useRef<{ handleMessage: (message: SyncMessage) => void; applyRemoteData: (data: AppData) => void } | null>(null);
 
   // Calculate weekStarts for the Gantt chart
   const dateRange = getDateRange(projects);
   const weekStarts = getAllWeekStarts(dateRange.min, dateRange.max);
 
-  // Load data from localStorage on component mount
+  // Sidebar order: by name, with each project's phases listed beneath it
+  const byName = (a: ProjectFormData, b: ProjectFormData) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+  const phasesByParent = getPhasesByParent(projects);
+  const nestedPhaseIds = new Set(Array.from(phasesByParent.values()).flat().map(p => p.id));
+  const sidebarProjects = projects
+    .filter(p => !nestedPhaseIds.has(p.id))
+    .sort(byName)
+    .flatMap(p => [p, ...(phasesByParent.get(p.id) || [])]);
+
+  const reportSaveError = (error: unknown) => setSaveError(error instanceof Error ? error.message : String(error));
+
+  // Load the workspace being opened: on mount, when switching, and when retrying from the recovery screen
   useEffect(() => {
-    const savedPools = localStorage.getItem('gantt-pools');
-    const savedProjects = localStorage.getItem('gantt-projects');
-
-    if (savedPools) {
-      const parsedPools = JSON.parse(savedPools);
-      if (Array.isArray(parsedPools) && parsedPools.length > 0) {
-        setPools(parsedPools);
-      } else {
-        setPools(defaultPools);
-        localStorage.setItem('gantt-pools', JSON.stringify(defaultPools));
-      }
-    } else {
-      setPools(defaultPools);
-      localStorage.setItem('gantt-pools', JSON.stringify(defaultPools));
-    }
+    let cancelled = false;
+    const open = async () => {
+      const list = await listWorkspaces();
+      const workspace = list.find(w => w.id === workspaceToOpen) ?? list[0];
+      if (cancelled) return;
+      setWorkspaces(list);
+      setActiveWorkspaceId(workspace.id);
 
-    if (savedProjects) {
-      const parsedProjects = JSON.parse(savedProjects);
-      if (Array.isArray(parsedProjects) && parsedProjects.length > 0) {
-        setProjects(parsedProjects);
-      } else {
-        setProjects(defaultProjects);
-        localStorage.setItem('gantt-projects', JSON.stringify(defaultProjects));
-      }
-    } else {
-      setProjects(defaultProjects);
-      localStorage.setItem('gantt-projects', JSON.stringify(defaultProjects));
-    }
-  }, []);
+      const saved = await loadAppData(workspace.id);
+      if (cancelled) return;
+      // Only the original workspace starts with the sample data; new ones are saved empty
+      const data = saved ?? { projects: defaultProjects, pools: defaultPools };
+      const rolledUp = rollUpPhases(data.projects);
+      const hiddenIds = new Set(workspace.settings.hiddenProjectIds);
+      syncedIdsRef.current = getSyncedIds(saved ?? { projects: [], pools: [] });
+      setPools(data.pools);
+      setProjects(rolledUp);
+      setProjectVisibility(Object.fromEntries(rolledUp.map(p => [p.id, !hiddenIds.has(p.id)])));
+      setFilters(workspace.filters);
+      setShowGantt(workspace.settings.showGantt);
+      setHistory(createHistory(`Opened ${workspace.name}`, { projects: rolledUp, pools: data.pools }));
+      // Selections and open forms belong to the previous workspace
+      setSelectedProjectId(null);
+      setShowProjectForm(false);
+      setSelectedPoolId(null);
+      setPendingSchedule(null);
+      setSelectedWeekIndex(null);
+      setSelectedWeekStart(null);
+      setBulkUpdatePoolId('');
+      setScenarioComparison(null);
+      setLastWorkspaceId(workspace.id);
+      setLoadError(null);
+      setIsLoaded(true);
+    };
+    open().catch(error => {
+      if (!cancelled) setLoadError(error instanceof StorageError ? error : new StorageError(String(error)));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadAttempt, workspaceToOpen]);
 
-  // Save data to localStorage whenever it changes
+  // Save data whenever it changes, and tell other tabs
   useEffect(() => {
-    localStorage.setItem('gantt-pools', JSON.stringify(pools));
-  }, [pools]);
+    if (!isLoaded || !activeWorkspaceId) return;
+    if (remoteDataRef.current?.projects === projects && remoteDataRef.current?.pools === pools) return;
+    const data = { projects, pools };
+    saveAppData(activeWorkspaceId, data, syncedIdsRef.current)
+      .then(() => {
+        syncedIdsRef.current = getSyncedIds(data);
+        setSaveError(null);
+        syncChannelRef.current?.post({ type: 'DATA_SAVED', workspaceId: activeWorkspaceId });
+      })
+      .catch(reportSaveError);
+  }, [projects, pools, isLoaded, activeWorkspaceId]);
 
   useEffect(() => {
-    localStorage.setItem('gantt-projects', JSON.stringify(projects));
-  }, [projects]);
+    const channel = openSyncChannel(message => syncHandlersRef.current?.handleMessage(message));
+    syncChannelRef.current = channel;
+    return () => {
+      channel.close();
+      syncChannelRef.current = null;
+    };
+  }, []);
+
+  // Forget a conflict once the form it was shown in closes or moves to another project
+  useEffect(() => {
+    setRemoteEdit(null);
+  }, [selectedProjectId, showProjectForm]);
+
+  // Recovery screen: replace unreadable saved data with the sample data
+  const handleStartFresh = () => {
+    saveAppData(activeWorkspaceId ?? DEFAULT_WORKSPACE_ID, { projects: defaultProjects, pools: defaultPools })
+      .then(() => setLoadAttempt(attempt => attempt + 1))
+      .catch(error => setLoadError(error instanceof StorageError ? error : new StorageError(String(error))));
+  };
+
+  // Save the open workspace's name, filters, baselines or view settings
+  const updateActiveWorkspace = (changes: Partial<Pick<Workspace, 'name' | 'filters' | 'baselines' | 'holidays'>> & { settings?: Partial<WorkspaceSettings> }) => {
+    if (!activeWorkspace) return;
+    const updated = { ...activeWorkspace, ...changes, settings: { ...activeWorkspace.settings, ...changes.settings } };
+    setWorkspaces(list => list.map(w => (w.id === updated.id ? updated : w)));
+    saveWorkspace(updated)
+      .then(() => syncChannelRef.current?.post({ type: 'WORKSPACES_CHANGED' }))
+      .catch(reportSaveError);
+  };
+
+  const switchWorkspace = (workspaceId: string) => {
+    if (workspaceId === activeWorkspaceId) return;
+    setIsLoaded(false); // Nothing is saved until the other workspace has loaded
+    setWorkspaceToOpen(workspaceId);
+  };
+
+  const addWorkspace = (workspace: Workspace, data: { projects: ProjectFormData[]; pools: PoolData[] }) =>
+    createWorkspaceWithData(workspace, data).then(() => {
+      setWorkspaces(list => [...list, workspace]);
+      syncChannelRef.current?.post({ type: 'WORKSPACES_CHANGED' });
+    });
+
+  const handleCreateWorkspace = (name: string) => {
+    const workspace = createWorkspace(getUniqueWorkspaceName(name, workspaces));
+    addWorkspace(workspace, { projects: [], pools: [] })
+      .then(() => switchWorkspace(workspace.id))
+      .catch(reportSaveError);
+  };
+
+  const handleRenameWorkspace = (workspaceId: string, name: string) => {
+    if (workspaceId !== activeWorkspaceId) return;
+    updateActiveWorkspace({ name: getUniqueWorkspaceName(name, workspaces, workspaceId) });
+  };
+
+  // Copies what's on screen, which is the same as what's saved
+  const handleDuplicateWorkspace = (workspaceId: string) => {
+    if (!activeWorkspace || workspaceId !== activeWorkspaceId) return;
+    const workspace = {
+      ...createWorkspace(getUniqueWorkspaceName(`${activeWorkspace.name} (copy)`, workspaces)),
+      scenarioOf: scenarioParent?.id, // A copy of a scenario is another scenario of the same plan
+      filters: activeWorkspace.filters,
+      settings: activeWorkspace.settings,
+      baselines: activeWorkspace.baselines,
+      holidays: activeWorkspace.holidays
+    };
+    addWorkspace(workspace, { projects, pools })
+      .then(() => switchWorkspace(workspace.id))
+      .catch(reportSaveError);
+  };
+
+  // Scenarios are deleted with their workspace
+  const handleDeleteWorkspace = (workspaceId: string) => {
+    const deletedIds = [workspaceId, ...workspaces.filter(w => w.scenarioOf === workspaceId).map(w => w.id)];
+    const remaining = workspaces.filter(w => !deletedIds.includes(w.id));
+    if (!remaining.some(w => !getScenarioParent(w, remaining))) return; // There is always a live workspace to show
+    const deleted = workspaces.find(w => w.id === workspaceId);
+    Promise.all(deletedIds.map(id => deleteWorkspace(id)))
+      .then(() => {
+        setWorkspaces(remaining);
+        syncChannelRef.current?.post({ type: 'WORKSPACES_CHANGED' });
+        if (activeWorkspaceId && deletedIds.includes(activeWorkspaceId)) {
+          // A deleted scenario goes back to its live plan
+          const parent = deleted && getScenarioParent(deleted, remaining);
+          switchWorkspace(parent ? parent.id : remaining[0].id);
+        }
+      })
+      .catch(reportSaveError);
+  };
+
+  // Fork the open workspace's live plan into a scenario and open it
+  const handleForkScenario = (name: string) => {
+    if (!activeWorkspace || scenarioParent) return;
+    const workspace = {
+      ...createWorkspace(getUniqueWorkspaceName(name, workspaces)),
+      scenarioOf: activeWorkspace.id,
+      filters: activeWorkspace.filters,
+      settings: activeWorkspace.settings,
+      baselines: activeWorkspace.baselines,
+      holidays: activeWorkspace.holidays
+    };
+    addWorkspace(workspace, { projects, pools })
+      .then(() => switchWorkspace(workspace.id))
+      .catch(reportSaveError);
+  };
+
+  const handleCompareScenario = () => {
+    if (!scenarioParent) return;
+    const scenario = { projects, pools };
+    setScenarioComparison({ result: null });
+    loadAppData(scenarioParent.id)
+      .then(live => setScenarioComparison({ result: compareScenario(live ?? { projects: [], pools: [] }, scenario, holidays) }))
+      .catch(error => setScenarioComparison({ result: null, error: `Couldn't load the live plan: ${error instanceof Error ? error.message : String(error)}` }));
+  };
+
+  // Make the open scenario the live plan. The plan it replaces is kept as a scenario first,
+  // so promoting can be reversed by promoting that one back.
+  const handlePromoteScenario = () => {
+    if (!activeWorkspace || !scenarioParent) return;
+    const parent = scenarioParent;
+    const now = new Date().toISOString();
+    // Newer timestamps, so tabs showing the live plan take the promoted records when they merge
+    const promoted = {
+      projects: projects.map(p => ({ ...p, lastModified: now })),
+      pools: pools.map(p => ({ ...p, lastModified: now }))
+    };
+    const previous = {
+      ...createWorkspace(getUniqueWorkspaceName(`${parent.name} before "${activeWorkspace.name}"`, workspaces)),
+      scenarioOf: parent.id,
+      filters: parent.filters,
+      settings: parent.settings,
+      baselines: parent.baselines,
+      holidays: parent.holidays
+    };
+    loadAppData(parent.id)
+      .then(live => addWorkspace(previous, live ?? { projects: [], pools: [] }))
+      .then(() => saveAppData(parent.id, promoted))
+      .then(() => {
+        syncChannelRef.current?.post({ type: 'DATA_SAVED', workspaceId: parent.id });
+        switchWorkspace(parent.id);
+      })
+      .catch(reportSaveError);
+  };
+
+  // Add each workspace from an all-workspaces backup alongside the existing ones
+  const handleRestoreWorkspaces = (backups: WorkspaceBackup[]) => {
+    const restored: Workspace[] = [];
+    backups.forEach(backup => {
+      const workspace = createWorkspace(getUniqueWorkspaceName(backup.name, [...workspaces, ...restored]));
+      restored.push({
+        ...workspace,
+        filters: { ...workspace.filters, ...backup.filters },
+        settings: { ...workspace.settings, ...backup.settings },
+        baselines: backup.baselines ?? [],
+        holidays: backup.holidays ?? []
+      });
+    });
+    // Link restored scenarios to their restored workspaces
+    backups.forEach((backup, i) => {
+      const parentIndex = backup.scenarioOf ? backups.findIndex(b => b.id === backup.scenarioOf) : -1;
+      if (parentIndex !== -1) restored[i].scenarioOf = restored[parentIndex].id;
+    });
+    Promise.all(restored.map((workspace, i) => addWorkspace(workspace, { projects: backups[i].projects, pools: backups[i].pools })))
+      .catch(reportSaveError);
+  };
+
+  // Another tab saved this workspace: merge its data in, keeping anything added, changed or
+  // deleted here since. What's kept from this tab is saved again so the other tab gets it too.
+  const applyRemoteData = (data: AppData) => {
+    const projectMerge = mergeRecords(projects, data.projects, syncedIdsRef.current.projects);
+    const poolMerge = mergeRecords(pools, data.pools, syncedIdsRef.current.pools);
+    syncedIdsRef.current = getSyncedIds(data);
+    const next = { projects: rollUpPhases(projectMerge.merged), pools: poolMerge.merged };
+    if (JSON.stringify(next) === JSON.stringify({ projects, pools })) return;
+
+    if (showProjectForm && selectedProjectId) {
+      const local = remoteEdit?.local ?? projects.find(p => p.id === selectedProjectId);
+      const theirs = next.projects.find(p => p.id === selectedProjectId);
+      if (local && JSON.stringify(local) !== JSON.stringify(theirs)) {
+        setRemoteEdit({ projectId: selectedProjectId, local, theirs });
+      }
+    }
+
+    remoteDataRef.current = projectMerge.keptLocal.length === 0 && poolMerge.keptLocal.length === 0 ? next : null;
+    recordChange('Changes from another tab', next);
+  };
+
+  syncHandlersRef.current = {
+    applyRemoteData,
+    handleMessage: message => {
+      if (message.type === 'DATA_SAVED') {
+        if (!isLoaded || message.workspaceId !== activeWorkspaceId) return;
+        loadAppData(message.workspaceId)
+          .then(data => data && syncHandlersRef.current?.applyRemoteData(data))
+          .catch(reportSaveError);
+      } else if (message.type === 'WORKSPACES_CHANGED') {
+        listWorkspaces()
+          .then(list => {
+            if (!list.some(w => w.id === activeWorkspaceId)) {
+              // Deleted in the other tab; a deleted scenario goes back to its live plan
+              const parent = activeWorkspace && getScenarioParent(activeWorkspace, list);
+              setWorkspaces(list);
+              if (isLoaded) switchWorkspace(parent ? parent.id : list[0].id);
+              return;
+            }
+            // This tab's filters and settings for its own workspace stay as they are
+            setWorkspaces(list.map(w => (w.id === activeWorkspaceId && activeWorkspace ? { ...activeWorkspace, name: w.name, baselines: w.baselines, holidays: w.holidays } : w)));
+          })
+          .catch(reportSaveError);
+      }
+    }
+  };
 
   // Update visibility state when projects change
   useEffect(() => {
     setProjectVisibility((prev) => {
-      const newVis: { [name: string]: boolean } = { ...prev };
+      const newVis: { [projectId: string]: boolean } = { ...prev };
       projects.forEach((p) => {
-        if (!(p.name in newVis)) newVis[p.name] = true;
+        if (!(p.id in newVis)) newVis[p.id] = true;
       });
       // Remove deleted projects
-      Object.keys(newVis).forEach((name) => {
-        if (!projects.find((p) => p.name === name)) delete newVis[name];
+      Object.keys(newVis).forEach((id) => {
+        if (!projects.find((p) => p.id === id)) delete newVis[id];
       });
       return newVis;
     });
   }, [projects]);
 
+  // Apply an edit and record it in the history so it can be undone
+  const recordChange = (label: string, next: Partial<HistorySnapshot>) => {
+    const snapshot = { projects: next.projects ?? projects, pools: next.pools ?? pools };
+    if (next.projects) setProjects(next.projects);
+    if (next.pools) setPools(next.pools);
+    setHistory(prev => (prev ? recordHistory(prev, label, snapshot) : createHistory(label, snapshot)));
+  };
+
+  // Go back (or forward) to the data as it was right after a history entry
+  const restoreHistory = (index: number) => {
+    if (!history) return;
+    const next = moveHistory(history, index);
+    const { snapshot } = next.entries[next.index];
+    setProjects(snapshot.projects);
+    setPools(snapshot.pools);
+    setHistory(next);
+    // Open forms may be editing items that don't exist at that point
+    setPendingSchedule(null);
+    setSelectedProjectId(null);
+    setShowProjectForm(false);
+    setSelectedPoolId(null);
+  };
+
+  const handleUndo = () => {
+    if (history && canUndo(history)) restoreHistory(history.index - 1);
+  };
+
+  const handleRedo = () => {
+    if (history && canRedo(history)) restoreHistory(history.index + 1);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on Mac). Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const upsertProject = (list: ProjectFormData[], project: ProjectFormData) =>
+    list.some(p => p.id === project.id)
+      ? list.map(p => (p.id === project.id ? project : p))
+      : [...list, project];
+
+  const commitProjects = (nextProjects: ProjectFormData[], label: string) => {
+    recordChange(label, { projects: rollUpPhases(nextProjects) });
+    setPendingSchedule(null);
+    setSelectedProjectId(null);
+    setShowProjectForm(false);
+  };
+
+  const getSaveLabel = (saved: ProjectFormData) =>
+    `${projects.some(p => p.id === saved.id) ? 'Edited' : 'Created'} ${describeItem(saved)}`;
+
   const handleSaveProject = (data: ProjectFormData) => {
     const projectWithTimestamp = {
       ...data,
+      id: data.id || generateId(),
       lastModified: new Date().toISOString()
     };
-    
-    if (selectedProjectIndex !== null) {
-      setProjects((prev) => prev.map((p, i) => (i === selectedProjectIndex ? projectWithTimestamp : p)));
-    } else {
-      setProjects((prev) => [...prev, projectWithTimestamp]);
+    const nextProjects = rollUpPhases(upsertProject(projects, projectWithTimestamp));
+
+    // Cascade the new dates through dependent projects, but only after the user has seen what moves.
+    // A phase can move its parent's rolled-up dates too, so the parent's dependents are re-planned as well.
+    const changedIds = [projectWithTimestamp.id];
+    if (isPhase(projectWithTimestamp) && projectWithTimestamp.parentId) changedIds.push(projectWithTimestamp.parentId);
+    const plan = planSchedule(nextProjects, pools, changedIds, holidays);
+    if (plan.changes.length > 0) {
+      setPendingSchedule({ saved: projectWithTimestamp, plan });
+      return;
     }
-    setSelectedProjectIndex(null);
-    setShowProjectForm(false);
+    commitProjects(nextProjects, getSaveLabel(projectWithTimestamp));
+  };
+
+  const handleApplySchedule = () => {
+    if (!pendingSchedule) return;
+    const now = new Date().toISOString();
+    const movedIds = new Set(pendingSchedule.plan.changes.map(c => c.projectId));
+    const moved = pendingSchedule.plan.changes.length;
+    commitProjects(
+      pendingSchedule.plan.projects.map(p => (movedIds.has(p.id) ? { ...p, lastModified: now } : p)),
+      `${getSaveLabel(pendingSchedule.saved)} and moved ${moved} dependent project${moved === 1 ? '' : 's'}`
+    );
+  };
+
+  const handleSaveWithoutCascade = () => {
+    if (!pendingSchedule) return;
+    commitProjects(upsertProject(projects, pendingSchedule.saved), getSaveLabel(pendingSchedule.saved));
   };
 
   const handleCancelProject = () => {
-    setSelectedProjectIndex(null);
+    setSelectedProjectId(null);
     setShowProjectForm(false);
   };
 
   const handleSavePool = (data: PoolData) => {
     const poolWithTimestamp = {
       ...data,
+      id: data.id || generateId(),
       lastModified: new Date().toISOString()
     };
     
-    if (selectedPoolIndex !== null) {
-      setPools((prev) => prev.map((p, i) => (i === selectedPoolIndex ? poolWithTimestamp : p)));
-    } else {
-      setPools((prev) => [...prev, poolWithTimestamp]);
-    }
-    setSelectedPoolIndex(null);
+    const exists = pools.some(p => p.id === poolWithTimestamp.id);
+    recordChange(`${exists ? 'Edited' : 'Created'} pool "${poolWithTimestamp.name}"`, {
+      pools: exists
+        ? pools.map(p => (p.id === poolWithTimestamp.id ? poolWithTimestamp : p))
+        : [...pools, poolWithTimestamp]
+    });
+    setSelectedPoolId(null);
+  };
+
+  const handleDeleteProject = (project: ProjectFormData) => {
+    // Phases go with their project
+    const deletedIds = [project.id, ...(getPhasesByParent(projects).get(project.id) || []).map(p => p.id)];
+    const remaining = projects.filter(p => !deletedIds.includes(p.id));
+    recordChange(`Deleted ${describeItem(project)}`, {
+      projects: rollUpPhases(deletedIds.reduce((list, id) => removeDependenciesOn(list, id), remaining))
+    });
+    setSelectedProjectId(null);
   };
 
-  const handleSelectProject = (idx: number) => {
-    setSelectedProjectIndex(idx);
+  // Only pools no project uses can be deleted, so no project is left without a pool
+  const handleDeletePool = (pool: PoolData) => {
+    recordChange(`Deleted pool "${pool.name}"`, { pools: pools.filter(p => p.id !== pool.id) });
+    if (selectedPoolId === pool.id) setSelectedPoolId(null);
+  };
+
+  const handleSelectProject = (projectId: string) => {
+    setSelectedProjectId(projectId);
     setActiveTab('projects');
     setShowProjectForm(true);
   };
 
-  const handleSelectPool = (idx: number) => {
-    setSelectedPoolIndex(idx);
+  const handleSelectPool = (poolId: string) => {
+    setSelectedPoolId(poolId);
     setActiveTab('pools');
   };
 
   const handleNewProject = () => {
-    setSelectedProjectIndex(null);
+    setSelectedProjectId(null);
     setActiveTab('projects');
     setShowProjectForm(true);
   };
 
   const handleNewPool = () => {
-    setSelectedPoolIndex(null);
+    setSelectedPoolId(null);
     setActiveTab('pools');
   };
 
+  // Show or hide projects on the chart, remembering the hidden ones with the workspace
+  const changeProjectVisibility = (visibility: { [projectId: string]: boolean }) => {
+    setProjectVisibility(visibility);
+    updateActiveWorkspace({ settings: { hiddenProjectIds: projects.filter(p => !visibility[p.id]).map(p => p.id) } });
+  };
+
   const toggleAllProjectsOff = () => {
-    setProjectVisibility({});
+    changeProjectVisibility({});
   };
 
   const toggleAllProjectsOn = () => {
-    const allVisible: { [name: string]: boolean } = {};
+    const allVisible: { [projectId: string]: boolean } = {};
     projects.forEach(project => {
-      allVisible[project.name] = true;
+      allVisible[project.id] = true;
     });
-    setProjectVisibility(allVisible);
+    changeProjectVisibility(allVisible);
   };
 
-  const handleFiltersChange = (newFilters: typeof filters) => {
+  const handleFiltersChange = (newFilters: ProjectFilters) => {
     setFilters(newFilters);
+    updateActiveWorkspace({ filters: newFilters });
+  };
+
+  const handleCaptureBaseline = (name: string) => {
+    if (!activeWorkspace) return;
+    const baseline = captureBaseline(name, projects);
+    updateActiveWorkspace({ baselines: [...activeWorkspace.baselines, baseline], settings: { baselineId: baseline.id } });
+  };
+
+  const handleDeleteBaseline = (baselineId: string) => {
+    if (!activeWorkspace) return;
+    updateActiveWorkspace({
+      baselines: activeWorkspace.baselines.filter(b => b.id !== baselineId),
+      settings: activeWorkspace.settings.baselineId === baselineId ? { baselineId: null } : {}
+    });
+  };
+
+  const toggleGantt = () => {
+    setShowGantt(!showGantt);
+    updateActiveWorkspace({ settings: { showGantt: !showGantt } });
   };
 
   const handleBulkUpdateSave = (updatedProjects: ProjectFormData[]) => {
@@ -290,32 +716,47 @@ function App() {
       ...project,
       lastModified: new Date().toISOString()
     }));
-    setProjects(projectsWithTimestamps);
+    recordChange('Bulk updated allocations', { projects: rollUpPhases(projectsWithTimestamps) });
     setActiveTab('projects');
   };
 
+  const levelingPlan = leveling ? levelPool(projects, pools, leveling.poolId, leveling.weekStarts, leveling.strategy, holidays) : null;
+
+  const handleApplyLeveling = () => {
+    if (!leveling || !levelingPlan) return;
+    const now = new Date().toISOString();
+    const changedIds = new Set(levelingPlan.changes.map(c => c.projectId));
+    const changed = levelingPlan.changes.length;
+    const poolName = pools.find(p => p.id === leveling.poolId)?.name || 'pool';
+    recordChange(`Leveled pool "${poolName}" (${changed} item${changed === 1 ? '' : 's'} changed)`, {
+      projects: rollUpPhases(levelingPlan.projects.map(p => (changedIds.has(p.id) ? { ...p, lastModified: now } : p)))
+    });
+    setLeveling(null);
+  };
+
   const handleBulkUpdateCancel = () => {
     setActiveTab('projects');
   };
 
   const handleBulkUpdateNewProject = () => {
-    setSelectedProjectIndex(null);
+    setSelectedProjectId(null);
     setActiveTab('projects');
     setShowProjectForm(true);
   };
 
   const handleBulkUpdateEditProject = (project: ProjectFormData) => {
-    const projectIndex = projects.findIndex(p => p.name === project.name);
-    if (projectIndex !== -1) {
-      setSelectedProjectIndex(projectIndex);
+    if (projects.some(p => p.id === project.id)) {
+      setSelectedProjectId(project.id);
       setActiveTab('projects');
       setShowProjectForm(true);
     }
   };
 
   const handleImport = (importedData: { projects: ProjectFormData[]; pools: PoolData[] }) => {
-    setProjects(importedData.projects);
-    setPools(importedData.pools);
+    recordChange(
+      `Imported ${importedData.projects.length} projects and ${importedData.pools.length} pools`,
+      { projects: rollUpPhases(importedData.projects), pools: importedData.pools }
+    );
   };
 
   const handleWeekSelect = (weekIndex: number | null, weekStart: Date | null) => {
@@ -323,8 +764,65 @@ function App() {
     setSelectedWeekStart(weekStart);
   };
 
+  // Heatmap cell: open Bulk Update on that pool and week
+  const handleHeatmapCellSelect = (poolId: string, weekIndex: number, weekStart: Date) => {
+    handleWeekSelect(weekIndex, weekStart);
+    setBulkUpdatePoolId(poolId);
+    setActiveTab('bulk-update');
+  };
+
+  if (loadError) {
+    return (
+      <RecoveryScreen
+        message={loadError.message}
+        rawData={loadError.rawData}
+        onRetry={() => setLoadAttempt(attempt => attempt + 1)}
+        onStartFresh={handleStartFresh}
+      />
+    );
+  }
+
+  if (!isLoaded) {
+    return <div style={{ padding: '4rem', textAlign: 'center', color: '#666' }}>Loading your projects…</div>;
+  }
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', minHeight: '100vh', maxWidth: '1200px', minWidth: '1200px', margin: '0 auto' }}>
+      {/* Save failures (e.g. storage quota) - edits stay on screen but won't survive a reload */}
+      {saveError && (
+        <div style={{
+          background: '#fef2f2',
+          border: '1px solid #fecaca',
+          borderRadius: '6px',
+          padding: '0.75rem 1rem',
+          marginTop: '1rem',
+          color: '#dc2626',
+          fontSize: '14px'
+        }}>
+          ⚠️ Your latest changes couldn't be saved: {saveError} Export a full backup from the Export tab to keep them.
+        </div>
+      )}
+      {activeWorkspaceId && (
+        <WorkspaceSwitcher
+          workspaces={workspaces}
+          activeWorkspaceId={activeWorkspaceId}
+          onSwitch={switchWorkspace}
+          onCreate={handleCreateWorkspace}
+          onRename={handleRenameWorkspace}
+          onDuplicate={handleDuplicateWorkspace}
+          onDelete={handleDeleteWorkspace}
+          onForkScenario={handleForkScenario}
+        />
+      )}
+      {activeWorkspace && scenarioParent && (
+        <ScenarioBar
+          scenarioName={activeWorkspace.name}
+          liveName={scenarioParent.name}
+          onCompare={handleCompareScenario}
+          onPromote={handlePromoteScenario}
+          onBackToLive={() => switchWorkspace(scenarioParent.id)}
+        />
+      )}
       {/* Help Link */}
       <div style={{ 
         position: 'fixed', 
@@ -353,7 +851,7 @@ function App() {
         </a>
       </div>
       <button
-        onClick={() => setShowGantt((prev) => !prev)}
+        onClick={toggleGantt}
         style={{
           margin: '2rem auto 0',
           padding: '0.75rem 1.5rem',
@@ -368,22 +866,55 @@ function App() {
       >
         {showGantt ? 'Hide Gantt Chart' : 'Show Gantt Chart'}
       </button>
+      {history && (
+        <HistoryPanel
+          history={history}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onJump={restoreHistory}
+        />
+      )}
       {showGantt && (
         <div style={{ textAlign: 'center' }}>
           <FilterPanel 
             projects={projects} 
             pools={pools} 
+            initialFilters={filters}
             onFiltersChange={handleFiltersChange} 
           />
+          {activeWorkspace && (
+            <BaselineControls
+              baselines={activeWorkspace.baselines}
+              selectedBaselineId={activeWorkspace.settings.baselineId}
+              onSelect={baselineId => updateActiveWorkspace({ settings: { baselineId } })}
+              onCapture={handleCaptureBaseline}
+              onDelete={handleDeleteBaseline}
+            />
+          )}
           <ErrorBoundary>
             <GanttChart 
-              projects={projects.filter(p => projectVisibility[p.name])} 
+              projects={projects.filter(p => projectVisibility[p.id])} 
               pools={pools} 
               filters={filters}
               selectedWeekIndex={selectedWeekIndex}
               onWeekSelect={handleWeekSelect}
+              onProjectChange={handleSaveProject}
+              initialScale={activeWorkspace?.settings.ganttScale}
+              initialGrouping={activeWorkspace?.settings.ganttGrouping}
+              onViewChange={view => updateActiveWorkspace({ settings: { ganttScale: view.scale, ganttGrouping: view.grouping } })}
+              baseline={activeWorkspace?.baselines.find(b => b.id === activeWorkspace.settings.baselineId)}
+              holidays={holidays}
+              onLevelPool={(poolId, weekStarts) => setLeveling({ poolId, weekStarts, strategy: 'both' })}
             />
           </ErrorBoundary>
+          <UtilizationHeatmap
+            projects={projects.filter(p => projectVisibility[p.id])}
+            pools={pools}
+            weekStarts={weekStarts}
+            selectedWeekIndex={selectedWeekIndex}
+            holidays={holidays}
+            onCellSelect={handleHeatmapCellSelect}
+          />
         </div>
       )}
       <div style={{ display: 'flex', alignItems: 'flex-start', flex: 1 }}>
@@ -437,6 +968,22 @@ function App() {
             >
               Bulk Update
             </button>
+            <button 
+              onClick={() => setActiveTab('calendar')} 
+              style={{ 
+                padding: '0.75rem 1.5rem',
+                fontSize: 16,
+                borderRadius: 6,
+                border: '1px solid #4F8EF7',
+                background: activeTab === 'calendar' ? '#4F8EF7' : 'white',
+                color: activeTab === 'calendar' ? 'white' : '#4F8EF7',
+                cursor: 'pointer',
+                boxShadow: '0 1px 4px #0001',
+                marginRight: '8px'
+              }}
+            >
+              Calendar
+            </button>
             <button 
               onClick={() => setActiveTab('export')} 
               style={{ 
@@ -490,32 +1037,31 @@ function App() {
                 </button>
               </div>
               <ul style={{ listStyle: 'none', padding: 0 }}>
-                {projects
-                  .slice()
-                  .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }))
+                {sidebarProjects
                   .map((proj) => {
-                    const originalIdx = projects.findIndex(p => p.name === proj.name);
-                    const isVisible = !!projectVisibility[proj.name];
+                    const isSelected = proj.id === selectedProjectId;
+                    const isNestedPhase = nestedPhaseIds.has(proj.id);
+                    const isVisible = !!projectVisibility[proj.id];
                     return (
-                      <li key={proj.name} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+                      <li key={proj.id} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
                         <button
                           style={{
-                            background: originalIdx === selectedProjectIndex ? '#e0e7ff' : 'transparent',
+                            background: isSelected ? '#e0e7ff' : 'transparent',
                             border: 'none',
                             textAlign: 'left',
                             flex: 1,
-                            padding: '6px 8px',
+                            padding: isNestedPhase ? '6px 8px 6px 20px' : '6px 8px',
                             cursor: 'pointer',
                             borderRadius: 4,
-                            fontWeight: originalIdx === selectedProjectIndex ? 'bold' : 'normal',
-                            color: originalIdx === selectedProjectIndex ? 'black' : 'inherit',
+                            fontWeight: isSelected ? 'bold' : 'normal',
+                            color: isSelected ? 'black' : 'inherit',
                           }}
-                          onClick={() => handleSelectProject(originalIdx)}
+                          onClick={() => handleSelectProject(proj.id)}
                         >
-                          {proj.name || '(Untitled)'}
+                          {isNestedPhase && '↳ '}{isMilestone(proj) && '◆ '}{proj.name || '(Untitled)'}
                         </button>
                         <button
-                          onClick={() => setProjectVisibility((vis) => ({ ...vis, [proj.name]: !vis[proj.name] }))}
+                          onClick={() => changeProjectVisibility({ ...projectVisibility, [proj.id]: !isVisible })}
                           style={{ 
                             padding: '4px 8px',
                             fontSize: 12,
@@ -532,10 +1078,7 @@ function App() {
                           {isVisible ? 'ON' : 'OFF'}
                         </button>
                         <button
-                          onClick={() => {
-                            setProjects((prev) => prev.filter((_, i) => i !== originalIdx));
-                            setSelectedProjectIndex(null);
-                          }}
+                          onClick={() => handleDeleteProject(proj)}
                           style={{ color: '#b91c1c', background: 'none', border: 'none', cursor: 'pointer', fontSize: 16 }}
                           title="Delete project"
                         >
@@ -553,26 +1096,37 @@ function App() {
               <h3>Pools</h3>
               <button onClick={handleNewPool} style={{ marginBottom: 12 }}>+ New Pool</button>
               <ul style={{ listStyle: 'none', padding: 0 }}>
-                {pools.map((pool, idx) => (
-                  <li key={idx}>
-                    <button
-                      style={{
-                        background: idx === selectedPoolIndex ? '#e0e7ff' : 'transparent',
-                        border: 'none',
-                        textAlign: 'left',
-                        width: '100%',
-                        padding: '6px 8px',
-                        cursor: 'pointer',
-                        borderRadius: 4,
-                        fontWeight: idx === selectedPoolIndex ? 'bold' : 'normal',
-                        color: idx === selectedPoolIndex ? 'black' : 'inherit',
-                      }}
-                      onClick={() => handleSelectPool(idx)}
-                    >
-                      {pool.name} ({pool.weeklyHours}h)
-                    </button>
-                  </li>
-                ))}
+                {pools.map((pool) => {
+                  const inUse = projects.some(p => p.poolId === pool.id);
+                  return (
+                    <li key={pool.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                      <button
+                        style={{
+                          background: pool.id === selectedPoolId ? '#e0e7ff' : 'transparent',
+                          border: 'none',
+                          textAlign: 'left',
+                          flex: 1,
+                          padding: '6px 8px',
+                          cursor: 'pointer',
+                          borderRadius: 4,
+                          fontWeight: pool.id === selectedPoolId ? 'bold' : 'normal',
+                          color: pool.id === selectedPoolId ? 'black' : 'inherit',
+                        }}
+                        onClick={() => handleSelectPool(pool.id)}
+                      >
+                        {pool.name} ({getPoolHoursOn(pool, toDateKey(new Date())).weeklyHours}h)
+                      </button>
+                      <button
+                        onClick={() => handleDeletePool(pool)}
+                        disabled={inUse}
+                        style={{ color: inUse ? '#d1d5db' : '#b91c1c', background: 'none', border: 'none', cursor: inUse ? 'not-allowed' : 'pointer', fontSize: 16 }}
+                        title={inUse ? 'Move or delete the projects in this pool before deleting it' : 'Delete pool'}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  );
+                })}
               </ul>
             </>
           )}
@@ -590,12 +1144,16 @@ function App() {
             {activeTab === 'projects' && (
               showProjectForm ? (
                 <ProjectForm
-                  key={selectedProjectIndex ?? 'new'}
-                  initialData={selectedProjectIndex !== null ? projects[selectedProjectIndex] : undefined}
+                  key={selectedProjectId ?? 'new'}
+                  // While another tab's change is on notice, the form keeps what it opened with
+                  initialData={remoteEdit ? remoteEdit.local : selectedProjectId !== null ? projects.find(p => p.id === selectedProjectId) : undefined}
+                  remoteVersion={remoteEdit ? remoteEdit.theirs ?? null : undefined}
+                  onLoadRemoteVersion={() => setRemoteEdit(null)}
                   onSave={handleSaveProject}
                   onCancel={handleCancelProject}
                   pools={pools}
                   projects={projects}
+                  holidays={holidays}
                 />
               ) : (
                 <div style={{ textAlign: 'center' }}>
@@ -623,8 +1181,8 @@ function App() {
             )}
             {activeTab === 'pools' && (
               <PoolForm
-                key={selectedPoolIndex ?? 'new'}
-                initialData={selectedPoolIndex !== null ? pools[selectedPoolIndex] : undefined}
+                key={selectedPoolId ?? 'new'}
+                initialData={selectedPoolId !== null ? pools.find(p => p.id === selectedPoolId) : undefined}
                 onSave={handleSavePool}
               />
             )}
@@ -635,6 +1193,8 @@ function App() {
                 selectedWeekIndex={selectedWeekIndex}
                 selectedWeekStart={selectedWeekStart}
                 weekStarts={weekStarts}
+                initialPoolId={bulkUpdatePoolId}
+                holidays={holidays}
                 onSave={handleBulkUpdateSave}
                 onCancel={handleBulkUpdateCancel}
                 onNewProject={handleBulkUpdateNewProject}
@@ -642,17 +1202,60 @@ function App() {
                 onWeekSelect={handleWeekSelect}
               />
             )}
-            {activeTab === 'export' && (
+            {activeTab === 'calendar' && (
+              <HolidayCalendar
+                holidays={holidays}
+                pools={pools}
+                onChange={next => updateActiveWorkspace({ holidays: next })}
+              />
+            )}
+            {activeTab === 'export' && activeWorkspace && (
               <ExportPanel
                 projects={projects}
                 pools={pools}
                 filters={filters}
+                workspace={activeWorkspace}
+                workspaces={workspaces}
+                holidays={holidays}
                 onImport={handleImport}
+                onRestoreWorkspaces={handleRestoreWorkspaces}
               />
             )}
           </div>
         </div>
       </div>
+
+      {scenarioComparison && activeWorkspace && scenarioParent && (
+        <ScenarioCompare
+          scenarioName={activeWorkspace.name}
+          liveName={scenarioParent.name}
+          comparison={scenarioComparison.result}
+          error={scenarioComparison.error}
+          onClose={() => setScenarioComparison(null)}
+        />
+      )}
+
+      {leveling && levelingPlan && (
+        <LevelingPreview
+          poolName={pools.find(p => p.id === leveling.poolId)?.name || ''}
+          weekCount={leveling.weekStarts.length}
+          strategy={leveling.strategy}
+          plan={levelingPlan}
+          onStrategyChange={strategy => setLeveling({ ...leveling, strategy })}
+          onApply={handleApplyLeveling}
+          onCancel={() => setLeveling(null)}
+        />
+      )}
+
+      {pendingSchedule && (
+        <SchedulePreview
+          savedProjectName={pendingSchedule.saved.name}
+          changes={pendingSchedule.plan.changes}
+          onApply={handleApplySchedule}
+          onSaveOnly={handleSaveWithoutCascade}
+          onCancel={() => setPendingSchedule(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import type { Baseline } from './baselines';
+
+interface BaselineControlsProps {
+  baselines: Baseline[];
+  selectedBaselineId: string | null;
+  onSelect: (baselineId: string | null) => void;
+  onCapture: (name: string) => void; // Snapshot the current plan as a new baseline
+  onDelete: (baselineId: string) => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  fontSize: '13px',
+  borderRadius: '4px',
+  border: '1px solid #6b7280',
+  background: 'white',
+  color: '#374151',
+  cursor: 'pointer',
+};
+
+const BaselineControls: React.FC<BaselineControlsProps> = ({ baselines, selectedBaselineId, onSelect, onCapture, onDelete }) => {
+  const [captureName, setCaptureName] = useState<string | null>(null); // Name being typed for a new baseline
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const selected = baselines.find(b => b.id === selectedBaselineId);
+
+  const handleCapture = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!captureName?.trim()) return;
+    onCapture(captureName.trim());
+    setCaptureName(null);
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexWrap: 'wrap',
+      gap: '0.5rem',
+      marginBottom: '1rem',
+      fontSize: '14px',
+      color: '#000'
+    }}>
+      <label htmlFor="baseline-select" style={{ fontWeight: 'bold' }}>Compare with baseline:</label>
+      <select
+        id="baseline-select"
+        value={selectedBaselineId ?? ''}
+        onChange={e => {
+          setConfirmingDelete(false);
+          onSelect(e.target.value || null);
+        }}
+        style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px', minWidth: '180px' }}
+      >
+        <option value="">None</option>
+        {baselines.map(b => (
+          <option key={b.id} value={b.id}>
+            {b.name} ({new Date(b.capturedAt).toLocaleDateString()})
+          </option>
+        ))}
+      </select>
+
+      {captureName === null ? (
+        <button
+          onClick={() => setCaptureName(`Baseline ${new Date().toLocaleDateString()}`)}
+          style={buttonStyle}
+          title="Save the current dates, hours and allocations of every item to compare against later"
+        >
+          📌 Capture Baseline
+        </button>
+      ) : (
+        <form onSubmit={handleCapture} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <input
+            autoFocus
+            value={captureName}
+            onChange={e => setCaptureName(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setCaptureName(null)}
+            placeholder="e.g. Q3 committed plan"
+            style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px' }}
+          />
+          <button type="submit" disabled={!captureName.trim()} style={{ ...buttonStyle, background: '#374151', color: 'white' }}>
+            Capture
+          </button>
+          <button type="button" onClick={() => setCaptureName(null)} style={buttonStyle}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {selected && (
+        !confirmingDelete ? (
+          <button onClick={() => setConfirmingDelete(true)} style={{ ...buttonStyle, borderColor: '#dc2626', color: '#dc2626' }}>
+            Delete Baseline
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={() => {
+                setConfirmingDelete(false);
+                onDelete(selected.id);
+              }}
+              style={{ ...buttonStyle, borderColor: '#dc2626', background: '#dc2626', color: 'white' }}
+            >
+              Delete "{selected.name}"
+            </button>
+            <button onClick={() => setConfirmingDelete(false)} style={buttonStyle}>
+              Keep
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default BaselineControls;
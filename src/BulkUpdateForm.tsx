@@ -1,5 +1,8 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { ProjectFormData, PoolData } from './types';
+import type { ProjectFormData, PoolData, TimeOff } from './types';
+import { preprocessProjects, getActiveProjectsInWeek, getWeeklyAllocation, getAllocatedHours, summarizePoolUtilization } from './utilization';
+import { getRemainingHours } from './actuals';
+import { getPoolWeekCapacity } from './calendar';
 
 // Cache for pool utilization calculations
 class PoolUtilizationCache {
@@ -103,17 +106,27 @@ const formStyles = {
   }
 };
 
+// Sunday of the current week, the week shown when none is selected
+function getCurrentWeekStart() {
+  const weekStart = new Date();
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  weekStart.setHours(0, 0, 0, 0);
+  return weekStart;
+}
+
 interface BulkUpdateFormProps {
   projects: ProjectFormData[];
   pools: PoolData[];
   selectedWeekIndex?: number | null;
   selectedWeekStart?: Date | null;
   weekStarts?: Date[]; // Available weeks for selection
+  initialPoolId?: string; // Pool to start on, e.g. when opened from the utilization heatmap
   onSave: (updatedProjects: ProjectFormData[]) => void;
   onCancel: () => void;
   onNewProject: () => void;
   onEditProject: (project: ProjectFormData) => void;
   onWeekSelect?: (weekIndex: number, weekStart: Date) => void; // Callback to sync with Gantt
+  holidays?: TimeOff[]; // Company holidays, which shrink the pool's hours in the week
 }
 
 interface ConcurrentProject {
@@ -130,39 +143,28 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
   selectedWeekIndex,
   selectedWeekStart, 
   weekStarts = [],
+  initialPoolId = '',
   onSave, 
   onCancel, 
   onNewProject, 
   onEditProject,
-  onWeekSelect
+  onWeekSelect,
+  holidays
 }) => {
-  const [selectedPool, setSelectedPool] = useState<string>('');
-  const [concurrentProjects, setConcurrentProjects] = useState<ConcurrentProject[]>([]);
+  const [selectedPoolId, setSelectedPoolId] = useState<string>(initialPoolId);
 
-  // Helper function to get the correct allocation for a specific week
-  const getWeeklyAllocation = (project: ProjectFormData, weekStart: Date): number => {
-    const weekKey = weekStart.toISOString().split('T')[0];
-    if (project.weeklyAllocations && project.weeklyAllocations[weekKey] !== undefined) {
-      return project.weeklyAllocations[weekKey];
-    }
-    return project.weeklyAllocation || 0;
-  };
+  // Follow the pool picked elsewhere (the heatmap) while the form is already open
+  useEffect(() => {
+    if (initialPoolId) setSelectedPoolId(initialPoolId);
+  }, [initialPoolId]);
+  const [concurrentProjects, setConcurrentProjects] = useState<ConcurrentProject[]>([]);
 
   // Pre-process projects for better performance
-  const processedProjects = useMemo(() => {
-    return projects.map(project => ({
-      pool: project.pool,
-      startDate: new Date(project.startDate),
-      endDate: new Date(project.targetDate),
-      isActive: !project.status?.toLowerCase().includes('complete'),
-      weeklyAllocation: project.weeklyAllocation || 0,
-      name: project.name
-    }));
-  }, [projects]);
+  const processedProjects = useMemo(() => preprocessProjects(projects), [projects]);
 
   // Initialize concurrent projects when pool changes
   useEffect(() => {
-    if (selectedPool) {
+    if (selectedPoolId) {
       // Define getCurrentWeekDates inside useEffect to avoid dependency issues
       const getCurrentWeekDates = () => {
         // If a week is selected from the Gantt chart, use that week
@@ -189,18 +191,13 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
       const { startOfWeek, endOfWeek } = getCurrentWeekDates();
       
       // Use pre-processed projects for better performance
-      const activeProjects = processedProjects.filter(project => {
-        const isInPool = project.pool === selectedPool;
-        const isActive = project.startDate <= endOfWeek && 
-                        project.endDate >= startOfWeek &&
-                        project.isActive;
-        return isInPool && isActive;
-      });
+      const activeProjects = getActiveProjectsInWeek(processedProjects, startOfWeek, endOfWeek)
+        .filter(project => project.poolId === selectedPoolId);
       
-      const pool = pools.find(p => p.name === selectedPool);
+      const pool = pools.find(p => p.id === selectedPoolId);
       
       const concurrent: ConcurrentProject[] = activeProjects.map(project => {
-        const fullProject = projects.find(p => p.name === project.name)!;
+        const fullProject = projects.find(p => p.id === project.id)!;
         const currentWeekAllocation = getWeeklyAllocation(fullProject, startOfWeek);
         return {
           project: fullProject,
@@ -215,27 +212,27 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
     } else {
       setConcurrentProjects([]);
     }
-  }, [selectedPool, processedProjects, pools, selectedWeekStart, projects]);
+  }, [selectedPoolId, processedProjects, pools, selectedWeekStart, projects]);
 
-  // Clear cache when concurrent projects change
+  // Clear cache when concurrent projects or holidays change
   useEffect(() => {
     poolUtilizationCache.clear();
-  }, [concurrentProjects]);
+  }, [concurrentProjects, holidays]);
 
-  const handleAllocationChange = (projectName: string, newAllocation: number) => {
+  const handleAllocationChange = (projectId: string, newAllocation: number) => {
     setConcurrentProjects(prev => 
       prev.map(cp => 
-        cp.project.name === projectName 
+        cp.project.id === projectId 
           ? { ...cp, newAllocation }
           : cp
       )
     );
   };
 
-  const handleToggleActive = (projectName: string) => {
+  const handleToggleActive = (projectId: string) => {
     setConcurrentProjects(prev => 
       prev.map(cp => 
-        cp.project.name === projectName 
+        cp.project.id === projectId 
           ? { ...cp, isActive: !cp.isActive, newAllocation: cp.isActive ? 0 : cp.currentAllocation }
           : cp
       )
@@ -249,10 +246,10 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
   };
 
   const getPoolUtilization = () => {
-    if (!selectedPool) return { totalAllocated: 0, poolHours: 0, utilization: 0 };
+    if (!selectedPoolId) return { totalAllocated: 0, poolHours: 0, utilization: 0 };
     
     // Create cache key for this calculation
-    const cacheKey = `${selectedPool}-${concurrentProjects.map(cp => `${cp.project.name}:${cp.newAllocation}`).join(',')}`;
+    const cacheKey = `${selectedPoolId}-${concurrentProjects.map(cp => `${cp.project.id}:${cp.newAllocation}`).join(',')}`;
     
     // Check cache first
     const cached = poolUtilizationCache.get(cacheKey);
@@ -260,26 +257,13 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
       return cached;
     }
     
-    const pool = pools.find(p => p.name === selectedPool);
+    const pool = pools.find(p => p.id === selectedPoolId);
     if (!pool) return { totalAllocated: 0, poolHours: 0, utilization: 0 };
     
-    const totalAllocated = calculateTotalAllocation();
-    // Use pool's standard week hours instead of hardcoded 40
-    const standardWeekHours = pool.standardWeekHours || 40;
-    const utilization = (totalAllocated / 100) * standardWeekHours;
-    
-    // Account for reserved hours (support and meetings)
-    const reservedHours = (pool.supportHours || 0) + (pool.meetingHours || 0);
-    const availableHours = pool.weeklyHours - reservedHours;
-    const utilizationPercent = (utilization / availableHours) * 100;
-    
-    const result = {
-      totalAllocated: Math.round(utilization * 10) / 10,
-      poolHours: pool.weeklyHours,
-      availableHours: Math.round(availableHours * 10) / 10,
-      reservedHours: Math.round(reservedHours * 10) / 10,
-      utilization: Math.round(utilizationPercent * 10) / 10
-    };
+    // Same calculation as everywhere else, with the allocations being edited
+    const weekStart = selectedWeekStart || getCurrentWeekStart();
+    const capacity = getPoolWeekCapacity(pool, weekStart, holidays || []);
+    const result = summarizePoolUtilization(pool, getAllocatedHours(calculateTotalAllocation(), pool), capacity);
     
     // Cache the result
     poolUtilizationCache.set(cacheKey, result);
@@ -289,7 +273,7 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
 
   const handleSave = () => {
     const updatedProjects = projects.map(project => {
-      const concurrent = concurrentProjects.find(cp => cp.project.name === project.name);
+      const concurrent = concurrentProjects.find(cp => cp.project.id === project.id);
       if (concurrent) {
         // Get the current week start date
         const getCurrentWeekStart = () => {
@@ -352,6 +336,7 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
 
   const { totalAllocated, poolHours, availableHours, reservedHours, utilization } = getPoolUtilization();
   const isOverAllocated = totalAllocated > (availableHours || 0);
+  const selectedPool = pools.find(p => p.id === selectedPoolId);
 
   return (
     <div style={{ 
@@ -438,8 +423,8 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
           Select Pool
         </label>
         <select 
-          value={selectedPool} 
-          onChange={(e) => setSelectedPool(e.target.value)}
+          value={selectedPoolId} 
+          onChange={(e) => setSelectedPoolId(e.target.value)}
           style={{
             ...formStyles.select,
             minWidth: '200px'
@@ -447,14 +432,14 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
         >
           <option value="">Select a pool...</option>
           {pools.map(pool => (
-            <option key={pool.name} value={pool.name}>
+            <option key={pool.id} value={pool.id}>
               {pool.name} ({pool.weeklyHours} hrs/week)
             </option>
           ))}
         </select>
       </div>
 
-      {selectedPool && concurrentProjects.length > 0 && (
+      {selectedPoolId && concurrentProjects.length > 0 && (
         <>
           {/* Pool Utilization Summary */}
           <div style={{ 
@@ -466,10 +451,10 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
           }}>
             <h3 style={{ margin: '0 0 0.5rem 0', color: '#000' }}>Pool Utilization</h3>
             <div style={{ fontSize: '14px', color: '#000' }}>
-              <strong>{selectedPool}</strong>: {totalAllocated}h allocated of {availableHours || 0}h available ({utilization}% utilization)
+              <strong>{selectedPool?.name}</strong>: {totalAllocated}h allocated of {availableHours || 0}h available ({utilization}% utilization)
               {(reservedHours || 0) > 0 && (
                 <div style={{ fontSize: '12px', color: '#666', marginTop: '0.25rem' }}>
-                  {poolHours}h total - {reservedHours || 0}h reserved (Support: {pools.find(p => p.name === selectedPool)?.supportHours || 0}h, Meetings: {pools.find(p => p.name === selectedPool)?.meetingHours || 0}h)
+                  {poolHours}h total - {reservedHours || 0}h reserved (Support: {selectedPool?.supportHours || 0}h, Meetings: {selectedPool?.meetingHours || 0}h)
                 </div>
               )}
               {isOverAllocated && (
@@ -519,15 +504,15 @@ const BulkUpdateForm: React.FC<BulkUpdateFormProps> = ({
               <tbody>
                 {concurrentProjects.map((cp) => {
                   // Calculate tooltip information similar to Gantt chart
-                  const pool = pools.find(p => p.name === cp.project.pool);
+                  const pool = pools.find(p => p.id === cp.project.poolId);
                   const poolWeeklyHours = pool?.weeklyHours || 40;
                   const allocationPercent = cp.project.status?.toLowerCase() === 'complete' ? 0 : (cp.project.weeklyAllocation || 0);
                   const allocationHours = Math.round((allocationPercent / 100) * 40 * 10) / 10;
-                  const estHoursLeft = Math.round((cp.project.estimatedHours * (1 - (cp.project.progress || 0) / 100)) * 10) / 10;
+                  const estHoursLeft = getRemainingHours(cp.project);
                   
                   return (
                     <tr 
-                      key={cp.project.name} 
+                      key={cp.project.id} 
                       style={{ 
                         borderBottom: '1px solid #f3f4f6',
                         transition: 'background-color 0.2s'
@@ -543,7 +528,7 @@ ${cp.project.status ? `Status: ${cp.project.status}` : ''}
 ${cp.project.notes ? `${cp.project.notes}` : ''}
 Weekly Allocation: ${allocationPercent}% (${allocationHours}h)
 Estimated Hours: ${estHoursLeft} of ${cp.project.estimatedHours}h
-Pool: ${cp.project.pool} (${poolWeeklyHours}h/week)`}
+Pool: ${pool?.name || ''} (${poolWeeklyHours}h/week)`}
                     >
                       <td style={{ padding: '0.5rem', color: '#000' }}>
                         <div 
@@ -580,7 +565,7 @@ Pool: ${cp.project.pool} (${poolWeeklyHours}h/week)`}
                           checked={cp.isActive}
                           onChange={(e) => {
                             e.stopPropagation();
-                            handleToggleActive(cp.project.name);
+                            handleToggleActive(cp.project.id);
                           }}
                         />
                       </td>
@@ -595,7 +580,7 @@ Pool: ${cp.project.pool} (${poolWeeklyHours}h/week)`}
                           value={cp.newAllocation}
                           onChange={(e) => {
                             e.stopPropagation();
-                            handleAllocationChange(cp.project.name, Number(e.target.value));
+                            handleAllocationChange(cp.project.id, Number(e.target.value));
                           }}
                           disabled={!cp.isActive}
                           style={{
@@ -653,7 +638,7 @@ Pool: ${cp.project.pool} (${poolWeeklyHours}h/week)`}
         </>
       )}
 
-      {selectedPool && concurrentProjects.length === 0 && (
+      {selectedPoolId && concurrentProjects.length === 0 && (
         <div style={{ 
           padding: '2rem', 
           textAlign: 'center', 
@@ -661,7 +646,7 @@ Pool: ${cp.project.pool} (${poolWeeklyHours}h/week)`}
           background: '#f9fafb',
           borderRadius: '6px'
         }}>
-          No active projects found for {selectedPool} in the current week.
+          No active projects found for {selectedPool?.name} in the current week.
         </div>
       )}
     </div>
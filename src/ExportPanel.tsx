@@ -1,23 +1,26 @@
 import React, { useState } from 'react';
-import type { ProjectFormData, PoolData } from './types';
+import type { ProjectFormData, PoolData, ProjectFilters, TimeOff } from './types';
+import { migrateToIds } from './ids';
+import { loadAppData } from './storage';
+import { getProgress, formatActuals } from './actuals';
+import { isMilestone, isPhase } from './items';
+import { calculateAllWeekUtilizations, getWeekKey } from './utilization';
+import { getPoolWeekCapacity } from './calendar';
+import { addDays, parseDateKey, toDateKey } from './workDays';
+import { toProjectsCsv, parseProjectsCsv, formatWeeklyAllocations, formatAssignments, formatDependencies } from './csv';
+import { toMspdiXml, parseMspdiXml } from './mspdi';
+import { toXlsx, getColumnName, type XlsxSheet } from './xlsx';
+import type { Workspace, WorkspaceBackup } from './workspaces';
 
 interface ExportPanelProps {
   projects: ProjectFormData[];
   pools: PoolData[];
-  filters?: {
-    status?: string[];
-    pool?: string[];
-    dateRange?: {
-      start?: string;
-      end?: string;
-    };
-    progress?: {
-      min?: number;
-      max?: number;
-    };
-    search?: string;
-  };
+  filters?: ProjectFilters;
+  workspace: Workspace; // The open workspace, which projects and pools belong to
+  workspaces: Workspace[];
+  holidays?: TimeOff[]; // Company holidays, for the utilization sheet
   onImport: (data: { projects: ProjectFormData[]; pools: PoolData[] }) => void;
+  onRestoreWorkspaces: (backups: WorkspaceBackup[]) => void; // Add the workspaces from an all-workspaces backup
 }
 
 interface ConflictResult {
@@ -29,17 +32,185 @@ interface ConflictResult {
   reason?: string;
 }
 
-// Add a helper to parse simple CSV
-function parseSimpleCSV(csv: string) {
-  const lines = csv.trim().split(/\r?\n/);
-  const headers = lines[0].split(',').map(h => h.replace(/^"|"$/g, '').trim());
-  const rows = lines.slice(1).map(line => {
-    const values = line.split(',').map(v => v.replace(/^"|"$/g, '').trim());
-    const row: Record<string, string> = {};
-    headers.forEach((h, i) => { row[h] = values[i] || ''; });
-    return row;
+// Throw a descriptive error unless `data` has projects and pools with their required fields.
+// `context` names the workspace in an all-workspaces backup.
+function validateImportData(data: { projects?: unknown; pools?: unknown }, context = '') {
+  if (!Array.isArray(data.projects) || !Array.isArray(data.pools)) {
+    throw new Error(`${context}Invalid data format. Expected projects and pools arrays.`);
+  }
+
+  const requiredProjectFields = ['name', 'sponsor', 'startDate', 'targetDate', 'estimatedHours'];
+  const requiredPoolFields = ['name', 'weeklyHours'];
+
+  data.projects.forEach((proj: Record<string, unknown>, index: number) => {
+    requiredProjectFields.forEach(field => {
+      if (!(field in proj)) {
+        throw new Error(`${context}Project ${index + 1} missing required field: ${field}`);
+      }
+    });
+    // Older exports reference pools by name instead of id
+    if (!('poolId' in proj) && !('pool' in proj)) {
+      throw new Error(`${context}Project ${index + 1} missing required field: poolId`);
+    }
+  });
+
+  data.pools.forEach((pool: Record<string, unknown>, index: number) => {
+    requiredPoolFields.forEach(field => {
+      if (!(field in pool)) {
+        throw new Error(`${context}Pool ${index + 1} missing required field: ${field}`);
+      }
+    });
   });
-  return { headers, rows };
+}
+
+function downloadJSON(data: unknown, filename: string) {
+  downloadText(JSON.stringify(data, null, 2), 'application/json', filename);
+}
+
+function downloadText(text: string, type: string, filename: string) {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// File-name-safe version of a workspace name
+function toFileSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workspace';
+}
+
+// Sundays of the weeks from the earliest start to the latest target date
+function getWeekStarts(projects: ProjectFormData[]) {
+  const dates = projects.flatMap(p => [p.startDate, p.targetDate]).filter(Boolean).sort();
+  if (dates.length === 0) return [];
+  const weekStarts: Date[] = [];
+  const end = parseDateKey(dates[dates.length - 1]);
+  for (let current = getWeekStart(parseDateKey(dates[0])); current <= end; current = addDays(current, 7)) weekStarts.push(current);
+  return weekStarts;
+}
+
+// Local midnight on the Sunday the date's week starts, like the Gantt chart's week starts
+function getWeekStart(date: Date) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return addDays(day, -day.getDay());
+}
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+// Projects (the exported set), pools, and each pool's allocated and available hours in the
+// weeks the exported items span, counting every item in the pool
+function getWorkbookSheets(exported: ProjectFormData[], projects: ProjectFormData[], pools: PoolData[], holidays: TimeOff[]): XlsxSheet[] {
+  const poolName = (poolId: string) => pools.find(p => p.id === poolId)?.name || '';
+  const weekStarts = getWeekStarts(exported);
+  const weekUtilizations = calculateAllWeekUtilizations(projects, pools, weekStarts, holidays);
+  const lastRow = weekStarts.length + 1;
+  const currentWeekStart = getWeekStart(new Date());
+
+  return [
+    {
+      name: 'Projects',
+      frozenColumns: 1,
+      columns: [
+        { header: 'Name', width: 32 },
+        { header: 'Type' },
+        { header: 'Parent', width: 24 },
+        { header: 'Sponsor', width: 18 },
+        { header: 'Pool', width: 18 },
+        { header: 'Status', width: 14 },
+        { header: 'Start Date', format: 'date' },
+        { header: 'Target Date', format: 'date' },
+        { header: 'Estimated Hours' },
+        { header: 'Progress (%)' },
+        { header: 'Weekly Allocation (%)' },
+        { header: 'Priority' },
+        { header: 'Notes', width: 40 },
+        { header: 'Last Modified', width: 18, format: 'datetime' }
+      ],
+      rows: exported.map(p => [
+        p.name,
+        isMilestone(p) ? 'Milestone' : isPhase(p) ? 'Phase' : 'Project',
+        p.parentId ? projects.find(parent => parent.id === p.parentId)?.name : undefined,
+        p.sponsor,
+        poolName(p.poolId),
+        p.status,
+        p.startDate,
+        p.targetDate,
+        isMilestone(p) ? undefined : p.estimatedHours,
+        isMilestone(p) ? undefined : getProgress(p),
+        isMilestone(p) ? undefined : p.weeklyAllocation || 0,
+        p.priority,
+        p.notes,
+        p.lastModified
+      ])
+    },
+    {
+      name: 'Pools',
+      frozenColumns: 1,
+      columns: [
+        { header: 'Name', width: 24 },
+        // The hours set on the pool (its members' totals, for pools with members)
+        { header: 'Base Weekly Hours' },
+        { header: 'Base Support Hours' },
+        { header: 'Base Meeting Hours' },
+        // After holidays, time off, capacity changes and members joining or leaving
+        { header: 'Hours This Week' },
+        { header: 'Available This Week' },
+        { header: 'Standard Week Hours' },
+        { header: 'Members', width: 32 },
+        { header: 'Description', width: 40 }
+      ],
+      rows: pools.map(pool => {
+        const capacity = getPoolWeekCapacity(pool, currentWeekStart, holidays);
+        return [
+          pool.name,
+          pool.weeklyHours,
+          pool.supportHours || 0,
+          pool.meetingHours || 0,
+          roundHours(capacity.weeklyHours),
+          roundHours(capacity.weeklyHours - capacity.reservedHours),
+          pool.standardWeekHours || 40,
+          (pool.members || []).map(m => m.name).join(', '),
+          pool.description
+        ];
+      })
+    },
+    {
+      name: 'Utilization',
+      frozenColumns: 1,
+      columns: [
+        { header: 'Week', format: 'date' },
+        ...pools.flatMap(pool => [
+          { header: `${pool.name} Allocated (h)`, width: Math.max(14, pool.name.length + 16) },
+          { header: `${pool.name} Available (h)`, width: Math.max(14, pool.name.length + 16) }
+        ])
+      ],
+      rows: weekStarts.map(weekStart => {
+        const utilizations = weekUtilizations.get(getWeekKey(weekStart));
+        return [
+          toDateKey(weekStart),
+          ...pools.flatMap(pool => {
+            const utilization = utilizations?.get(pool.id);
+            return [utilization?.totalAllocated ?? 0, utilization?.availableHours ?? 0];
+          })
+        ];
+      }),
+      // Allocated hours over the hours available that week
+      conditionalFills: weekStarts.length === 0 ? [] : pools.map((_, i) => {
+        const allocated = getColumnName(1 + i * 2);
+        const available = getColumnName(2 + i * 2);
+        return { range: `${allocated}2:${allocated}${lastRow}`, formula: `${allocated}2>${available}2` };
+      })
+    }
+  ];
 }
 
 // Add a helper to analyze project conflicts (for both JSON and CSV imports)
@@ -51,17 +222,25 @@ function analyzeProjectConflicts(
   const mergedProjects = [...existingProjects];
 
   importedProjects.forEach((importedProject) => {
-    const existingIndex = mergedProjects.findIndex((p) => p.name === importedProject.name);
+    const existingIndex = mergedProjects.findIndex((p) => p.id === importedProject.id);
     if (existingIndex !== -1) {
       // Compare all fields except lastModified
       const existing = mergedProjects[existingIndex];
       const fieldsToCompare = [
-        'name', 'sponsor', 'pool', 'startDate', 'targetDate',
-        'estimatedHours', 'progress', 'status', 'weeklyAllocation', 'notes'
+        'name', 'sponsor', 'poolId', 'startDate', 'targetDate',
+        'estimatedHours', 'status', 'weeklyAllocation', 'notes',
+        'itemType', 'parentId'
       ];
       const isIdentical = fieldsToCompare.every(
         (field) => (existing as unknown as Record<string, unknown>)[field] === (importedProject as unknown as Record<string, unknown>)[field]
-      );
+      ) && getProgress(existing) === getProgress(importedProject)
+        && !!existing.progressOverride === !!importedProject.progressOverride
+        && formatActuals(existing.actuals) === formatActuals(importedProject.actuals)
+        && formatWeeklyAllocations(existing.weeklyAllocations) === formatWeeklyAllocations(importedProject.weeklyAllocations)
+        && formatAssignments(existing.assignments) === formatAssignments(importedProject.assignments)
+        && formatDependencies(existing.dependencies) === formatDependencies(importedProject.dependencies)
+        && existing.priority === importedProject.priority
+        && !!existing.lockedDates === !!importedProject.lockedDates;
       if (isIdentical) {
         results.push({
           type: 'project',
@@ -93,7 +272,7 @@ function analyzeProjectConflicts(
   });
 
   existingProjects.forEach((existingProject) => {
-    const existsInImport = importedProjects.some((p) => p.name === existingProject.name);
+    const existsInImport = importedProjects.some((p) => p.id === existingProject.id);
     if (!existsInImport) {
       results.push({
         type: 'project',
@@ -108,7 +287,7 @@ function analyzeProjectConflicts(
   return results;
 }
 
-const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onImport }) => {
+const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, workspace, workspaces, holidays = [], onImport, onRestoreWorkspaces }) => {
   const [importData, setImportData] = useState('');
   const [importError, setImportError] = useState('');
   const [showConflictSummary, setShowConflictSummary] = useState(false);
@@ -117,6 +296,10 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
   const [importApplied, setImportApplied] = useState(false);
   const [pendingImport, setPendingImport] = useState<{ projects: ProjectFormData[]; pools: PoolData[] } | null>(null);
   const [csvImportError, setCsvImportError] = useState('');
+  const [mspdiImportError, setMspdiImportError] = useState('');
+  const [backupScope, setBackupScope] = useState<'workspace' | 'all'>('workspace');
+  const [backupError, setBackupError] = useState('');
+  const [restoreMessage, setRestoreMessage] = useState('');
 
   // Apply filters to projects (same logic as GanttChart)
   const getFilteredProjects = () => {
@@ -130,7 +313,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
 
       // Pool filter
       if (filters?.pool && filters.pool.length > 0) {
-        if (!proj.pool || !filters.pool.includes(proj.pool)) {
+        if (!proj.poolId || !filters.pool.includes(proj.poolId)) {
           return false;
         }
       }
@@ -149,7 +332,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
       // Progress filter
       if (filters?.progress) {
         const { min, max } = filters.progress;
-        const progress = proj.progress || 0;
+        const progress = getProgress(proj);
         if (min !== undefined && progress < min) {
           return false;
         }
@@ -174,7 +357,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
   const exportFilteredData = () => {
     const filteredProjects = getFilteredProjects();
     const filteredPools = pools.filter(pool => 
-      filteredProjects.some(proj => proj.pool === pool.name)
+      filteredProjects.some(proj => proj.poolId === pool.id)
     );
 
     const exportData = {
@@ -185,70 +368,55 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
       exportType: 'filtered'
     };
 
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `gantt-filtered-export-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadJSON(exportData, `gantt-filtered-export-${new Date().toISOString().split('T')[0]}.json`);
   };
 
+  const withTimestamps = <T extends { lastModified?: string }>(records: T[]) =>
+    records.map(r => ({ ...r, lastModified: r.lastModified || new Date().toISOString() }));
+
   const exportFullBackup = () => {
     const backupData = {
-      projects: projects.map(p => ({ ...p, lastModified: p.lastModified || new Date().toISOString() })),
-      pools: pools.map(p => ({ ...p, lastModified: p.lastModified || new Date().toISOString() })),
+      workspaceName: workspace.name,
+      projects: withTimestamps(projects),
+      pools: withTimestamps(pools),
       exportDate: new Date().toISOString(),
       exportType: 'full-backup'
     };
+    downloadJSON(backupData, `gantt-full-backup-${toFileSlug(workspace.name)}-${new Date().toISOString().split('T')[0]}.json`);
+  };
 
-    const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `gantt-full-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // Every workspace, read from storage except the open one, whose latest edits may still be saving
+  const exportAllWorkspacesBackup = async () => {
+    setBackupError('');
+    try {
+      const backups: WorkspaceBackup[] = await Promise.all(workspaces.map(async w => {
+        const data = w.id === workspace.id ? { projects, pools } : await loadAppData(w.id);
+        return {
+          id: w.id,
+          scenarioOf: w.scenarioOf,
+          name: w.name,
+          filters: w.filters,
+          settings: w.settings,
+          baselines: w.baselines,
+          holidays: w.holidays,
+          projects: withTimestamps(data?.projects ?? []),
+          pools: withTimestamps(data?.pools ?? [])
+        };
+      }));
+      downloadJSON(
+        { workspaces: backups, exportDate: new Date().toISOString(), exportType: 'all-workspaces-backup' },
+        `gantt-all-workspaces-backup-${new Date().toISOString().split('T')[0]}.json`
+      );
+    } catch (error) {
+      setBackupError(`Couldn't read every workspace: ${error instanceof Error ? error.message : String(error)}`);
+    }
   };
 
   const exportFilteredTable = () => {
     const filteredProjects = getFilteredProjects();
     
-    // Create CSV content
-    const headers = [
-      'Project Name',
-      'Sponsor',
-      'Pool',
-      'Start Date',
-      'Target Date',
-      'Estimated Hours',
-      'Progress (%)',
-      'Status',
-      'Weekly Allocation (%)',
-      'Notes',
-      'Last Modified'
-    ];
-
-    const csvContent = [
-      headers.join(','),
-      ...filteredProjects.map(proj => [
-        `"${proj.name}"`,
-        `"${proj.sponsor}"`,
-        `"${proj.pool}"`,
-        proj.startDate,
-        proj.targetDate,
-        proj.estimatedHours,
-        proj.progress || 0,
-        `"${proj.status || ''}"`,
-        proj.weeklyAllocation || 0,
-        `"${(proj.notes || '').replace(/"/g, '""')}"`,
-        proj.lastModified || ''
-      ].join(','))
-    ].join('\n');
+    // The byte order mark makes Excel read the file as UTF-8
+    const csvContent = '\uFEFF' + toProjectsCsv(filteredProjects, pools);
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -261,34 +429,43 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
     URL.revokeObjectURL(url);
   };
 
+  const exportWorkbook = () => {
+    const workbook = toXlsx(getWorkbookSheets(getFilteredProjects(), projects, pools, holidays));
+    downloadBlob(
+      new Blob([workbook], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      `gantt-${toFileSlug(workspace.name)}-${new Date().toISOString().split('T')[0]}.xlsx`
+    );
+  };
+
+  // The whole workspace, so summary tasks and dependencies stay complete
+  const exportMspdi = () => {
+    downloadText(
+      toMspdiXml(projects, pools, workspace.name),
+      'application/xml',
+      `gantt-${toFileSlug(workspace.name)}-${new Date().toISOString().split('T')[0]}.xml`
+    );
+  };
+
   const handleImport = () => {
     try {
       setImportError('');
+      setRestoreMessage('');
       const parsedData = JSON.parse(importData);
-      
-      if (!parsedData.projects || !parsedData.pools) {
-        throw new Error('Invalid data format. Expected projects and pools arrays.');
-      }
 
-      // Validate data structure
-      const requiredProjectFields = ['name', 'sponsor', 'pool', 'startDate', 'targetDate', 'estimatedHours'];
-      const requiredPoolFields = ['name', 'weeklyHours'];
-
-      parsedData.projects.forEach((proj: Record<string, unknown>, index: number) => {
-        requiredProjectFields.forEach(field => {
-          if (!(field in proj)) {
-            throw new Error(`Project ${index + 1} missing required field: ${field}`);
-          }
-        });
-      });
+      // An all-workspaces backup is restored as new workspaces rather than merged into this one
+      if (Array.isArray(parsedData.workspaces)) {
+        const backups = parsedData.workspaces as WorkspaceBackup[];
+        backups.forEach((backup, index) => validateImportData(backup, `Workspace "${backup.name || index + 1}": `));
+        onRestoreWorkspaces(backups.map(backup => ({
+          ...backup,
+          ...migrateToIds({ projects: backup.projects, pools: backup.pools })
+        })));
+        setRestoreMessage(`Restored ${backups.length} workspace${backups.length === 1 ? '' : 's'}. Pick them from the workspace switcher at the top.`);
+        setImportData('');
+        return;
+      }
 
-      parsedData.pools.forEach((pool: Record<string, unknown>, index: number) => {
-        requiredPoolFields.forEach(field => {
-          if (!(field in pool)) {
-            throw new Error(`Pool ${index + 1} missing required field: ${field}`);
-          }
-        });
-      });
+      validateImportData(parsedData);
 
       // Create backup before import
       const backup = {
@@ -297,13 +474,14 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
       };
       setBackupData(backup);
 
-      // Add timestamps if missing
+      // Match records without ids (older exports) to existing ones by name, then add timestamps if missing
+      const migratedData = migrateToIds({ projects: parsedData.projects, pools: parsedData.pools }, { projects, pools });
       const timestampedData = {
-        projects: parsedData.projects.map((p: ProjectFormData) => ({
+        projects: migratedData.projects.map((p: ProjectFormData) => ({
           ...p,
           lastModified: p.lastModified || new Date().toISOString()
         })),
-        pools: parsedData.pools.map((p: PoolData) => ({
+        pools: migratedData.pools.map((p: PoolData) => ({
           ...p,
           lastModified: p.lastModified || new Date().toISOString()
         }))
@@ -320,7 +498,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
       
       // Actually merge the imported projects
       timestampedData.projects.forEach((importedProject: ProjectFormData) => {
-        const existingIndex = mergedProjects.findIndex((p) => p.name === importedProject.name);
+        const existingIndex = mergedProjects.findIndex((p) => p.id === importedProject.id);
         if (existingIndex !== -1) {
           // Update existing project
           mergedProjects[existingIndex] = importedProject;
@@ -331,16 +509,16 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
       });
       
       // Remove projects that don't exist in import (deletions)
-      const importedProjectNames = timestampedData.projects.map((p: ProjectFormData) => p.name);
+      const importedProjectIds = timestampedData.projects.map((p: ProjectFormData) => p.id);
       for (let i = mergedProjects.length - 1; i >= 0; i--) {
-        if (!importedProjectNames.includes(mergedProjects[i].name)) {
+        if (!importedProjectIds.includes(mergedProjects[i].id)) {
           mergedProjects.splice(i, 1);
         }
       }
 
       // Handle pool conflicts
       timestampedData.pools.forEach((importedPool: PoolData) => {
-        const existingIndex = mergedPools.findIndex((p: PoolData) => p.name === importedPool.name);
+        const existingIndex = mergedPools.findIndex((p: PoolData) => p.id === importedPool.id);
         
         if (existingIndex !== -1) {
           // Conflict detected - compare timestamps
@@ -383,27 +561,9 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
         }
       });
 
-      // Handle deletions (items that exist locally but not in import)
-      projects.forEach((existingProject: ProjectFormData) => {
-        const existsInImport = timestampedData.projects.some((p: ProjectFormData) => p.name === existingProject.name);
-        if (!existsInImport) {
-          results.push({
-            type: 'project',
-            name: existingProject.name,
-            action: 'deleted',
-            existingData: existingProject,
-            reason: 'Project not found in import data (deleted)'
-          });
-          // Remove from merged projects
-          const index = mergedProjects.findIndex((p: ProjectFormData) => p.name === existingProject.name);
-          if (index !== -1) {
-            mergedProjects.splice(index, 1);
-          }
-        }
-      });
-
+      // Handle pool deletions (project deletions are already reported by analyzeProjectConflicts)
       pools.forEach((existingPool: PoolData) => {
-        const existsInImport = timestampedData.pools.some((p: PoolData) => p.name === existingPool.name);
+        const existsInImport = timestampedData.pools.some((p: PoolData) => p.id === existingPool.id);
         if (!existsInImport) {
           results.push({
             type: 'pool',
@@ -413,7 +573,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
             reason: 'Pool not found in import data (deleted)'
           });
           // Remove from merged pools
-          const index = mergedPools.findIndex((p: PoolData) => p.name === existingPool.name);
+          const index = mergedPools.findIndex((p: PoolData) => p.id === existingPool.id);
           if (index !== -1) {
             mergedPools.splice(index, 1);
           }
@@ -459,33 +619,15 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
     reader.onload = (event) => {
       const text = event.target?.result as string;
       try {
-        const { headers, rows } = parseSimpleCSV(text);
-        // Validate required columns
-        const required = [
-          'Project Name', 'Sponsor', 'Pool', 'Start Date', 'Target Date',
-          'Estimated Hours', 'Progress (%)', 'Status', 'Weekly Allocation (%)', 'Notes', 'Last Modified'
-        ];
-        for (const col of required) {
-          if (!headers.includes(col)) throw new Error(`Missing column: ${col}`);
-        }
-        // Convert rows to ProjectFormData
-        const projects = rows.map(row => ({
-          name: row['Project Name'],
-          sponsor: row['Sponsor'],
-          pool: row['Pool'],
-          startDate: row['Start Date'],
-          targetDate: row['Target Date'],
-          estimatedHours: Number(row['Estimated Hours']) || 0,
-          progress: Number(row['Progress (%)']) || 0,
-          status: row['Status'],
-          weeklyAllocation: Number(row['Weekly Allocation (%)']) || 0,
-          notes: row['Notes'],
-          lastModified: row['Last Modified'] || new Date().toISOString(),
-        }));
-        // Use pools from current state (or optionally parse from CSV if included)
-        setPendingImport({ projects, pools });
+        // A Pool ID from another workspace points nowhere here: match the Pool name instead,
+        // which adds the pool when no pool has that name either
+        const poolIds = new Set(pools.map(p => p.id));
+        const csvProjects = parseProjectsCsv(text).map(p => (p.poolId && !poolIds.has(p.poolId) ? { ...p, poolId: undefined } : p));
+        const migrated = migrateToIds({ projects: csvProjects, pools: [] }, { projects, pools });
+        // Use pools from current state, plus any pool the CSV names that doesn't exist yet
+        setPendingImport({ projects: migrated.projects, pools: [...pools, ...migrated.pools] });
         // Analyze conflicts for summary
-        setConflictResults(analyzeProjectConflicts(projects, projects));
+        setConflictResults(analyzeProjectConflicts(migrated.projects, projects));
         setShowConflictSummary(true);
         setImportApplied(false);
       } catch (err: unknown) {
@@ -496,6 +638,38 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
     reader.readAsText(file);
   };
 
+  const handleMspdiImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setMspdiImportError('');
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const { projects: importedProjects, newPools } = parseMspdiXml(event.target?.result as string, { projects, pools });
+        setBackupData({ projects: [...projects], pools: [...pools] });
+        // Like a CSV import, the file's tasks replace the current items; resources only add pools
+        setPendingImport({ projects: importedProjects, pools: [...pools, ...newPools] });
+        setConflictResults([
+          ...analyzeProjectConflicts(importedProjects, projects),
+          ...newPools.map(pool => ({
+            type: 'pool' as const,
+            name: pool.name,
+            action: 'added' as const,
+            importedData: pool,
+            reason: 'New resource'
+          }))
+        ]);
+        setShowConflictSummary(true);
+        setImportApplied(false);
+      } catch (err: unknown) {
+        setMspdiImportError(err instanceof Error ? err.message : 'Invalid Microsoft Project XML');
+      }
+      // Let the same file be picked again after fixing it
+      e.target.value = '';
+    };
+    reader.readAsText(file);
+  };
+
   const getActionColor = (action: string) => {
     switch (action) {
       case 'updated': return '#f59e0b';
@@ -683,6 +857,21 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
             >
               Export CSV
             </button>
+            <button
+              onClick={exportWorkbook}
+              disabled={filteredProjects.length === 0}
+              style={{
+                padding: '0.5rem 1rem',
+                fontSize: '14px',
+                borderRadius: '4px',
+                border: '1px solid #217346',
+                background: filteredProjects.length > 0 ? '#217346' : '#9ca3af',
+                color: 'white',
+                cursor: filteredProjects.length > 0 ? 'pointer' : 'not-allowed'
+              }}
+            >
+              Export Excel
+            </button>
           </div>
         </div>
 
@@ -690,10 +879,25 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
         <div>
           <h4 style={{ margin: '0 0 0.5rem 0', color: '#000' }}>Full Backup</h4>
           <p style={{ fontSize: '14px', color: '#666', marginBottom: '1rem' }}>
-            Export all data for backup/restore ({projects.length} projects, {pools.length} pools)
+            {backupScope === 'workspace'
+              ? `Export all data in "${workspace.name}" for backup/restore (${projects.length} projects, ${pools.length} pools)`
+              : `Export every workspace for backup/restore (${workspaces.length} workspaces). Importing it adds them as new workspaces.`}
           </p>
+          <select
+            value={backupScope}
+            onChange={e => setBackupScope(e.target.value as 'workspace' | 'all')}
+            style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px', marginBottom: '0.5rem', display: 'block' }}
+          >
+            <option value="workspace">This workspace</option>
+            <option value="all">All workspaces ({workspaces.length})</option>
+          </select>
+          {backupError && (
+            <div style={{ color: '#dc2626', fontSize: '12px', marginBottom: '0.5rem' }}>
+              {backupError}
+            </div>
+          )}
           <button
-            onClick={exportFullBackup}
+            onClick={backupScope === 'workspace' ? exportFullBackup : exportAllWorkspacesBackup}
             style={{
               padding: '0.5rem 1rem',
               fontSize: '14px',
@@ -708,6 +912,38 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
           </button>
         </div>
 
+        {/* Microsoft Project Section */}
+        <div>
+          <h4 style={{ margin: '0 0 0.5rem 0', color: '#000' }}>Microsoft Project</h4>
+          <p style={{ fontSize: '14px', color: '#666', marginBottom: '1rem' }}>
+            Exchange projects, phases, milestones, dependencies and pools with MS Project as XML (MSPDI).
+            Importing replaces the current items with the file's tasks; you'll see what changes first.
+          </p>
+          <button
+            onClick={exportMspdi}
+            disabled={projects.length === 0}
+            style={{
+              padding: '0.5rem 1rem',
+              fontSize: '14px',
+              borderRadius: '4px',
+              border: '1px solid #31752f',
+              background: projects.length > 0 ? '#31752f' : '#9ca3af',
+              color: 'white',
+              cursor: projects.length > 0 ? 'pointer' : 'not-allowed',
+              marginBottom: '0.5rem',
+              display: 'block'
+            }}
+          >
+            Export MS Project XML
+          </button>
+          <input type="file" accept=".xml" onChange={handleMspdiImport} style={{ marginBottom: '0.5rem' }} />
+          {mspdiImportError && (
+            <div style={{ color: '#dc2626', fontSize: '12px', marginBottom: '0.5rem' }}>
+              {mspdiImportError}
+            </div>
+          )}
+        </div>
+
         {/* Import Section */}
         <div>
           <h4 style={{ margin: '0 0 0.5rem 0', color: '#000' }}>Import Data</h4>
@@ -723,7 +959,7 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
             fontSize: '14px',
             color: '#000'
           }}>
-            ⚠️ <strong>Warning:</strong> For CSV import, only use file templates exported from this tool.
+            ⚠️ <strong>Warning:</strong> For CSV import, start from a CSV exported from this tool and keep its header row. Editing it in Excel or Sheets is fine.
           </div>
           <input type="file" accept=".csv" onChange={handleCSVImport} style={{ marginBottom: '0.5rem' }} />
           {csvImportError && (
@@ -759,6 +995,11 @@ const ExportPanel: React.FC<ExportPanelProps> = ({ projects, pools, filters, onI
               {importError}
             </div>
           )}
+          {restoreMessage && (
+            <div style={{ color: '#059669', fontSize: '12px', marginBottom: '0.5rem' }}>
+              {restoreMessage}
+            </div>
+          )}
           <button
             onClick={handleImport}
             disabled={!importData.trim()}
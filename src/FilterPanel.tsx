@@ -1,54 +1,20 @@
 import React, { useState } from 'react';
-import type { ProjectFormData, PoolData } from './types';
+import type { ProjectFormData, PoolData, ProjectFilters } from './types';
+import { emptyFilters } from './workspaces';
 
 interface FilterPanelProps {
   projects: ProjectFormData[];
   pools: PoolData[];
-  onFiltersChange: (filters: {
-    status?: string[];
-    pool?: string[];
-    dateRange?: {
-      start?: string;
-      end?: string;
-    };
-    progress?: {
-      min?: number;
-      max?: number;
-    };
-    search?: string;
-  }) => void;
+  initialFilters?: ProjectFilters; // The workspace's saved filters
+  onFiltersChange: (filters: ProjectFilters) => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ projects, onFiltersChange }) => {
-  const [filters, setFilters] = useState<{
-    status?: string[];
-    pool?: string[];
-    dateRange?: {
-      start?: string;
-      end?: string;
-    };
-    progress?: {
-      min?: number;
-      max?: number;
-    };
-    search?: string;
-  }>({
-    status: [],
-    pool: [],
-    dateRange: {
-      start: '',
-      end: ''
-    },
-    progress: {
-      min: undefined,
-      max: undefined
-    },
-    search: ''
-  });
+const FilterPanel: React.FC<FilterPanelProps> = ({ projects, pools, initialFilters, onFiltersChange }) => {
+  const [filters, setFilters] = useState<ProjectFilters>(initialFilters ?? emptyFilters);
 
   // Get unique statuses and pools from projects
   const uniqueStatuses = Array.from(new Set(projects.map(p => p.status).filter(Boolean)));
-  const uniquePools = Array.from(new Set(projects.map(p => p.pool).filter(Boolean)));
+  const uniquePools = Array.from(new Set(projects.map(p => p.poolId).filter(Boolean)));
 
   const updateFilters = (newFilters: typeof filters) => {
     setFilters(newFilters);
@@ -67,11 +33,11 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ projects, onFiltersChange })
     });
   };
 
-  const handlePoolChange = (pool: string, checked: boolean) => {
+  const handlePoolChange = (poolId: string, checked: boolean) => {
     const currentPool = filters.pool || [];
     const newPoolFilters = checked 
-      ? [...currentPool, pool]
-      : currentPool.filter(p => p !== pool);
+      ? [...currentPool, poolId]
+      : currentPool.filter(p => p !== poolId);
     
     updateFilters({
       ...filters,
@@ -108,15 +74,8 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ projects, onFiltersChange })
   };
 
   const clearAllFilters = () => {
-    const clearedFilters = {
-      status: [],
-      pool: [],
-      dateRange: { start: '', end: '' },
-      progress: { min: undefined, max: undefined },
-      search: ''
-    };
-    setFilters(clearedFilters);
-    onFiltersChange(clearedFilters);
+    setFilters(emptyFilters);
+    onFiltersChange(emptyFilters);
   };
 
   const hasActiveFilters = (filters.status && filters.status.length > 0) || 
@@ -202,15 +161,15 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ projects, onFiltersChange })
             Pool
           </label>
           <div style={{ maxHeight: '120px', overflowY: 'auto' }}>
-            {uniquePools.map(pool => (
-              <label key={pool} style={{ display: 'flex', alignItems: 'center', marginBottom: '0.25rem' }}>
+            {uniquePools.map(poolId => (
+              <label key={poolId} style={{ display: 'flex', alignItems: 'center', marginBottom: '0.25rem' }}>
                 <input
                   type="checkbox"
-                  checked={(filters.pool || []).includes(pool)}
-                  onChange={(e) => handlePoolChange(pool, e.target.checked)}
+                  checked={(filters.pool || []).includes(poolId)}
+                  onChange={(e) => handlePoolChange(poolId, e.target.checked)}
                   style={{ marginRight: '0.5rem' }}
                 />
-                <span style={{ fontSize: '14px', color: '#000' }}>{pool}</span>
+                <span style={{ fontSize: '14px', color: '#000' }}>{pools.find(p => p.id === poolId)?.name || poolId}</span>
               </label>
             ))}
           </div>
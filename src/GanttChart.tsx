@@ -1,22 +1,26 @@
 import React, { useRef, useState, useEffect, useMemo } from 'react';
-import type { ProjectFormData, PoolData } from './types';
-
-// Pre-processed project interface for better performance
-interface ProcessedProject {
-  pool: string;
-  startDate: Date;
-  endDate: Date;
-  isActive: boolean;
-  weeklyAllocation: number;
-  weeklyAllocations?: { [weekStart: string]: number };
-  estimatedHours: number;
-  status?: string;
-  name: string;
-  sponsor: string;
-  progress: number;
-  notes?: string;
-  lastModified?: string;
-}
+import type { ProjectFormData, PoolData, TimeOff } from './types';
+import { getDependencyViolations, checkDependency, dependencyTypeLabels } from './dependencies';
+import { analyzeCriticalPath } from './criticalPath';
+import { isMilestone, isPhase, getPhasesByParent } from './items';
+import { countWorkDays, addDays, parseDateKey, toDateKey } from './workDays';
+import { timeScales, timeScaleLabels, getMinDayWidth, getSnapDays, getTimelineColumns, formatColumnLabel, DAY_MS, type TimeScale } from './timescale';
+import {
+  preprocessProjects,
+  getActiveProjectsInWeek,
+  getWeeklyAllocation,
+  calculatePoolUtilization,
+  getPeakPoolUtilization,
+  getFutureOverAllocationWarnings,
+  getOverAllocatedMembers,
+  formatOverAllocatedMembers,
+  type OverAllocationWarning,
+  type PoolUtilization,
+  type UtilizationWorkerResponse
+} from './utilization';
+import { swimlaneGroupings, swimlaneGroupingLabels, groupIntoSwimlanes, type Swimlane, type SwimlaneGrouping } from './swimlanes';
+import { getBaselineVariance, formatVariance, type Baseline } from './baselines';
+import { getActualHours, getProgress, getRemainingHours, isProgressFromActuals } from './actuals';
 
 // Cache for utilization calculations
 class UtilizationCache {
@@ -41,49 +45,7 @@ class UtilizationCache {
 }
 
 const utilizationCache = new UtilizationCache();
-
-// Pre-process projects for better performance
-function preprocessProjects(projects: ProjectFormData[]): ProcessedProject[] {
-  return projects.map(p => ({
-    pool: p.pool,
-    startDate: new Date(p.startDate),
-    endDate: new Date(p.targetDate),
-    isActive: !p.status?.toLowerCase().includes('complete'),
-    weeklyAllocation: p.weeklyAllocation || 0,
-    weeklyAllocations: p.weeklyAllocations,
-    estimatedHours: p.estimatedHours,
-    status: p.status,
-    name: p.name,
-    sponsor: p.sponsor,
-    progress: p.progress,
-    notes: p.notes,
-    lastModified: p.lastModified
-  }));
-}
-
-// Get active projects for a specific week (optimized)
-function getActiveProjectsInWeek(processedProjects: ProcessedProject[], weekStart: Date, weekEnd: Date): ProcessedProject[] {
-  return processedProjects.filter(p => 
-    p.isActive && 
-    p.startDate <= weekEnd && 
-    p.endDate >= weekStart
-  );
-}
-
-// Get projects by pool for a specific week
-function getProjectsByPoolInWeek(processedProjects: ProcessedProject[], weekStart: Date, weekEnd: Date): Map<string, ProcessedProject[]> {
-  const activeProjects = getActiveProjectsInWeek(processedProjects, weekStart, weekEnd);
-  const poolProjects = new Map<string, ProcessedProject[]>();
-  
-  activeProjects.forEach(project => {
-    if (!poolProjects.has(project.pool)) {
-      poolProjects.set(project.pool, []);
-    }
-    poolProjects.get(project.pool)!.push(project);
-  });
-  
-  return poolProjects;
-}
+const noHolidays: TimeOff[] = [];
 
 interface GanttChartProps {
   projects: ProjectFormData[];
@@ -103,8 +65,31 @@ interface GanttChartProps {
   };
   selectedWeekIndex?: number | null;
   onWeekSelect?: (weekIndex: number | null, weekStart: Date | null) => void;
+  onProjectChange?: (project: ProjectFormData) => void; // Dates changed by dragging a bar
+  initialScale?: TimeScale; // The workspace's saved zoom level and grouping
+  initialGrouping?: SwimlaneGrouping;
+  onViewChange?: (view: { scale: TimeScale; grouping: SwimlaneGrouping }) => void;
+  baseline?: Baseline; // Drawn as ghost bars under the current ones, with variance in tooltips
+  holidays?: TimeOff[]; // Company holidays, shaded on the chart and taken out of pool capacity
+  onLevelPool?: (poolId: string, weekStarts: Date[]) => void; // Resolve a pool's over-allocated weeks
+}
+
+// A bar being moved (both dates) or resized from one edge, with the dates it would get on drop
+interface DragState {
+  projectId: string;
+  mode: 'move' | 'start' | 'end';
+  originClientX: number;
+  originStartDate: string;
+  originTargetDate: string;
+  startDate: string;
+  targetDate: string;
+  clientX: number;
+  clientY: number;
 }
 
+// A row of the chart: a swimlane header when rows are grouped, or a project, phase or milestone
+type GanttRow = { kind: 'lane'; lane: Swimlane } | { kind: 'item'; item: ProjectFormData };
+
 // Simple color palette for pools
 const poolColors = [
   '#4F8EF7', // blue
@@ -129,13 +114,17 @@ const statusColors: { [key: string]: string } = {
   'Complete': '#10b981',       // Green
 };
 
-function getPoolColor(poolName: string, pools: PoolData[]) {
-  const pool = pools.find(p => p.name === poolName);
+function getPoolColor(poolId: string, pools: PoolData[]) {
+  const pool = pools.find(p => p.id === poolId);
   if (pool && pool.color) return pool.color;
-  const idx = pools.findIndex(p => p.name === poolName);
+  const idx = pools.findIndex(p => p.id === poolId);
   return poolColors[idx % poolColors.length] || '#888';
 }
 
+function getPoolName(poolId: string, pools: PoolData[]) {
+  return pools.find(p => p.id === poolId)?.name || poolId;
+}
+
 function getProjectColor(project: ProjectFormData) {
   // Always use status color for main bars, fallback to gray if no status
   if (project.status && statusColors[project.status]) {
@@ -144,19 +133,6 @@ function getProjectColor(project: ProjectFormData) {
   return '#9ca3af'; // Default gray for projects without status
 }
 
-// Helper function to get allocation for a specific week
-function getWeeklyAllocation(project: ProcessedProject | ProjectFormData, weekStart: Date): number {
-  const weekKey = weekStart.toISOString().split('T')[0];
-  
-  // If project has specific weekly allocations, use that for this week
-  if (project.weeklyAllocations && project.weeklyAllocations[weekKey] !== undefined) {
-    return project.weeklyAllocations[weekKey];
-  }
-  
-  // Otherwise, use the default weekly allocation
-  return project.weeklyAllocation || 0;
-}
-
 function getDateRange(projects: ProjectFormData[]) {
   if (projects.length === 0) {
     const today = new Date();
@@ -200,9 +176,14 @@ const CHART_TOP_PAD = 100;
 const CHART_RIGHT_PAD = 20;
 const CHART_HEIGHT_PAD = 120;
 const PROJECT_NAME_MAX = 20;
+const MILESTONE_SIZE = 8; // Half the diagonal of a milestone diamond
+const BASELINE_BAR_HEIGHT = 4; // Baseline ghost bars sit in the gap below each bar
+const PHASE_INDENT = 12; // Phase names are indented beneath their project
+const DRAG_HANDLE_WIDTH = 6; // Grab area at each end of a bar for resizing
+const NARROW_COLUMN_WIDTH = 60; // Columns narrower than this get compact, rotated labels
 
-function truncateName(name: string) {
-  return name.length > PROJECT_NAME_MAX ? name.slice(0, PROJECT_NAME_MAX - 1) + '…' : name;
+function truncateName(name: string, max: number = PROJECT_NAME_MAX) {
+  return name.length > max ? name.slice(0, max - 1) + '…' : name;
 }
 
 function getWeekStart(date: Date) {
@@ -224,20 +205,23 @@ function getAllWeekStarts(min: Date, max: Date) {
   return weeks;
 }
 
-function getCurrentWeekConcurrentProjects(projects: ProjectFormData[], poolName: string, weekStart: Date, weekEnd: Date) {
+function getCurrentWeekConcurrentProjects(projects: ProjectFormData[], poolId: string, weekStart: Date, weekEnd: Date) {
   // Use pre-processed projects for better performance
   const processedProjects = preprocessProjects(projects);
   return processedProjects.filter(p =>
-    p.pool === poolName &&
+    p.poolId === poolId &&
     p.isActive &&
+    !p.isMilestone &&
+    !p.isSummary &&
     p.startDate <= weekEnd &&
     p.endDate >= weekStart
   );
 }
 
-function calculatePoolUtilization(projects: ProjectFormData[], pools: PoolData[], poolName: string, weekStart: Date, weekEnd: Date) {
+// Pool utilization for the chart, cached per pool and week until the projects or pools change
+function getCachedPoolUtilization(projects: ProjectFormData[], pools: PoolData[], poolId: string, weekStart: Date, weekEnd: Date, holidays: TimeOff[]): PoolUtilization {
   // Create cache key for this calculation
-  const cacheKey = `${poolName}-${weekStart.toISOString().split('T')[0]}-${weekEnd.toISOString().split('T')[0]}`;
+  const cacheKey = `${poolId}-${weekStart.toISOString().split('T')[0]}-${weekEnd.toISOString().split('T')[0]}`;
   
   // Check cache first
   const cached = utilizationCache.get(cacheKey);
@@ -245,32 +229,7 @@ function calculatePoolUtilization(projects: ProjectFormData[], pools: PoolData[]
     return cached;
   }
   
-  const pool = pools.find(p => p.name === poolName);
-  if (!pool) return { totalAllocated: 0, poolHours: 0, utilization: 0, isOverAllocated: false };
-  
-  const concurrentProjects = getCurrentWeekConcurrentProjects(projects, poolName, weekStart, weekEnd);
-  const totalAllocated = concurrentProjects.reduce((sum, proj) => {
-    const allocationPercent = proj.status?.toLowerCase() === 'complete' ? 0 : getWeeklyAllocation(proj, weekStart);
-    // Use pool's standard week hours instead of hardcoded 40
-    const standardWeekHours = pool.standardWeekHours || 40;
-    return sum + (allocationPercent / 100) * standardWeekHours;
-  }, 0);
-  
-  // Account for reserved hours (support and meetings)
-  const reservedHours = (pool.supportHours || 0) + (pool.meetingHours || 0);
-  const availableHours = pool.weeklyHours - reservedHours;
-  
-  const utilization = (totalAllocated / availableHours) * 100;
-  const isOverAllocated = totalAllocated > availableHours;
-  
-  const result = {
-    totalAllocated: Math.round(totalAllocated * 10) / 10,
-    poolHours: pool.weeklyHours,
-    availableHours: Math.round(availableHours * 10) / 10,
-    reservedHours: Math.round(reservedHours * 10) / 10,
-    utilization: Math.round(utilization * 10) / 10,
-    isOverAllocated
-  };
+  const result = calculatePoolUtilization(projects, pools, poolId, weekStart, weekEnd, holidays);
   
   // Cache the result
   utilizationCache.set(cacheKey, result);
@@ -278,74 +237,22 @@ function calculatePoolUtilization(projects: ProjectFormData[], pools: PoolData[]
   return result;
 }
 
-function calculatePoolUtilizationFromProjects(projects: ProcessedProject[], pool: PoolData, weekStart: Date) {
-  const totalAllocated = projects.reduce((sum, proj) => {
-    const allocationPercent = proj.status?.toLowerCase() === 'complete' ? 0 : getWeeklyAllocation(proj, weekStart);
-    // Use pool's standard week hours instead of hardcoded 40
-    const standardWeekHours = pool.standardWeekHours || 40;
-    return sum + (allocationPercent / 100) * standardWeekHours;
-  }, 0);
-  
-  // Account for reserved hours (support and meetings)
-  const reservedHours = (pool.supportHours || 0) + (pool.meetingHours || 0);
-  const availableHours = pool.weeklyHours - reservedHours;
-  
-  const utilization = (totalAllocated / availableHours) * 100;
-  const isOverAllocated = totalAllocated > availableHours;
-  
-  return {
-    totalAllocated: Math.round(totalAllocated * 10) / 10,
-    poolHours: pool.weeklyHours,
-    availableHours: Math.round(availableHours * 10) / 10,
-    reservedHours: Math.round(reservedHours * 10) / 10,
-    utilization: Math.round(utilization * 10) / 10,
-    isOverAllocated
-  };
+// Shift a YYYY-MM-DD date by whole calendar days
+function shiftDate(date: string, days: number) {
+  return toDateKey(addDays(parseDateKey(date), days));
 }
 
-function getFutureOverAllocationWarnings(projects: ProjectFormData[], pools: PoolData[], weekStarts: Date[], currentWeekIdx: number) {
-  const warnings: Array<{poolName: string, weekStart: Date, utilization: ReturnType<typeof calculatePoolUtilization>}> = [];
-  
-  // Pre-process all projects once
-  const processedProjects = preprocessProjects(projects);
-  
-  // Check next 4 weeks for over-allocation
-  const futureWeeks = Math.min(4, weekStarts.length - currentWeekIdx - 1);
-  if (futureWeeks <= 0) return warnings;
-  
-  // Pre-allocate array with estimated size for better performance
-  const estimatedWarnings = futureWeeks * pools.length;
-  warnings.length = estimatedWarnings;
-  let warningIndex = 0;
-  
-  for (let i = currentWeekIdx + 1; i < Math.min(currentWeekIdx + 5, weekStarts.length); i++) {
-    const weekStart = weekStarts[i];
-    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
-    
-    // Get all active projects for this week once
-    const weekProjects = getProjectsByPoolInWeek(processedProjects, weekStart, weekEnd);
-    
-    // Calculate utilization for all pools in this week
-    pools.forEach(pool => {
-      const poolProjects = weekProjects.get(pool.name) || [];
-      const utilization = calculatePoolUtilizationFromProjects(poolProjects, pool, weekStart);
-      
-      if (utilization.isOverAllocated) {
-        warnings[warningIndex++] = { 
-          poolName: pool.name, 
-          weekStart, 
-          utilization 
-        };
-      }
-    });
-  }
-  
-  // Trim array to actual size
-  warnings.length = warningIndex;
-  return warnings;
-}
+const zoomButtonStyle: React.CSSProperties = {
+  padding: '0.25rem 0.6rem',
+  fontSize: '13px',
+  borderRadius: 4,
+  border: '1px solid #4F8EF7',
+  background: 'white',
+  color: '#4F8EF7',
+  cursor: 'pointer',
+};
 
-function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolData[], weekStarts: Date[], weekWidth: number, chartTopPad: number) {
+function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolData[], weekStarts: Date[], weekToX: (weekStart: Date) => number, weekWidth: number, chartTopPad: number) {
   const meetingIndicators: React.ReactElement[] = [];
   
   // Pre-process projects once for better performance
@@ -359,15 +266,15 @@ function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolDa
     const weekProjects = getActiveProjectsInWeek(processedProjects, weekStart, weekEnd);
     
     weekProjects.forEach(project => {
-      if (project.pool) {
-        activePoolsInWeek.add(project.pool);
+      if (project.poolId) {
+        activePoolsInWeek.add(project.poolId);
       }
     });
     
     // Calculate total meeting hours for pools with active projects this week
     let totalMeetingHours = 0;
-    activePoolsInWeek.forEach(poolName => {
-      const pool = pools.find(p => p.name === poolName);
+    activePoolsInWeek.forEach(poolId => {
+      const pool = pools.find(p => p.id === poolId);
       if (pool && pool.meetingHours) {
         totalMeetingHours += pool.meetingHours;
       }
@@ -375,7 +282,7 @@ function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolDa
     
     // Only show indicator if there are meeting hours
     if (totalMeetingHours > 0) {
-      const x = CHART_LEFT_PAD + weekIndex * weekWidth;
+      const x = weekToX(weekStart);
       const y = chartTopPad + 10; // Position below the horizontal timeline line
       
       meetingIndicators.push(
@@ -389,16 +296,18 @@ function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolDa
             opacity={0.7}
             rx={2}
           />
-          <text
-            x={x + weekWidth / 2}
-            y={y + 6}
-            fontSize={8}
-            fill="#fff"
-            textAnchor="middle"
-            fontWeight="bold"
-          >
-            {totalMeetingHours}h
-          </text>
+          {weekWidth >= 20 && (
+            <text
+              x={x + weekWidth / 2}
+              y={y + 6}
+              fontSize={8}
+              fill="#fff"
+              textAnchor="middle"
+              fontWeight="bold"
+            >
+              {totalMeetingHours}h
+            </text>
+          )}
         </g>
       );
     }
@@ -407,10 +316,19 @@ function renderMeetingHoursIndicators(projects: ProjectFormData[], pools: PoolDa
   return meetingIndicators;
 }
 
-const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selectedWeekIndex: externalSelectedWeekIndex, onWeekSelect }) => {
+const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selectedWeekIndex: externalSelectedWeekIndex, onWeekSelect, onProjectChange, initialScale = 'week', initialGrouping = 'none', onViewChange, baseline, holidays = noHolidays, onLevelPool }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
   const [containerWidth, setContainerWidth] = useState(1200);
   const [selectedWeekIndex, setSelectedWeekIndex] = useState<number | null>(null);
+  const [showCriticalPath, setShowCriticalPath] = useState(false);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set()); // Summary rows with their phases hidden
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [scale, setScale] = useState<TimeScale>(initialScale);
+  const [grouping, setGrouping] = useState<SwimlaneGrouping>(initialGrouping);
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set()); // Swimlane keys with their rows hidden
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const zoomAnchorRef = useRef<Date | null>(null); // Date to keep centred across a scale change
   
   // Sync internal state with external prop
   useEffect(() => {
@@ -429,28 +347,28 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
   const [worker, setWorker] = useState<Worker | null>(null);
   const [workerReady, setWorkerReady] = useState(false);
   const [isCalculating, setIsCalculating] = useState(false);
-  const [cachedFutureWarnings, setCachedFutureWarnings] = useState<any[]>([]);
+  const [cachedFutureWarnings, setCachedFutureWarnings] = useState<OverAllocationWarning[]>([]);
 
   // Initialize Web Worker
   useEffect(() => {
     if (typeof window !== 'undefined' && 'Worker' in window) {
-      const newWorker = new Worker('/my-gantt/utilization-worker.js');
+      const newWorker = new Worker(new URL('./utilization.worker.ts', import.meta.url), { type: 'module' });
       
-      newWorker.onmessage = (e) => {
-        const { type, data } = e.data;
+      newWorker.onmessage = (e: MessageEvent<UtilizationWorkerResponse>) => {
+        const message = e.data;
         
-        switch (type) {
+        switch (message.type) {
           case 'WORKER_READY':
             setWorkerReady(true);
             break;
             
           case 'FUTURE_WARNINGS_RESULT':
-            setCachedFutureWarnings(data);
+            setCachedFutureWarnings(message.data);
             setIsCalculating(false);
             break;
             
           case 'ERROR':
-            console.error('Worker error:', data.error);
+            console.error('Worker error:', message.error);
             setIsCalculating(false);
             break;
         }
@@ -464,11 +382,11 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
     }
   }, []);
 
-  // Clear cache when projects or pools change
+  // Clear cache when projects, pools or holidays change
   useEffect(() => {
     utilizationCache.clear();
     setCachedFutureWarnings([]);
-  }, [projects, pools]);
+  }, [projects, pools, holidays]);
 
   useEffect(() => {
     function updateWidth() {
@@ -492,7 +410,7 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
 
     // Pool filter
     if (filters?.pool && filters.pool.length > 0) {
-      if (!proj.pool || !filters.pool.includes(proj.pool)) {
+      if (!proj.poolId || !filters.pool.includes(proj.poolId)) {
         return false;
       }
     }
@@ -511,7 +429,7 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
     // Progress filter
     if (filters?.progress) {
       const { min, max } = filters.progress;
-      const progress = proj.progress || 0;
+      const progress = getProgress(proj);
       if (min !== undefined && progress < min) {
         return false;
       }
@@ -538,6 +456,34 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
 
   // Sort projects by start date
   const sorted = useMemo(() => [...validProjects].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()), [validProjects]);
+
+  // Phases are listed beneath their project (unless it's collapsed), and milestones attached
+  // to a visible project are drawn on that project's row instead of their own. When grouped,
+  // each swimlane gets a header row followed by its projects (unless the lane is collapsed).
+  const { rows, milestonesByParent, phasesByParent } = useMemo(() => {
+    const visibleIds = new Set(sorted.map(p => p.id));
+    const phases = getPhasesByParent(sorted);
+    const nestedPhaseIds = new Set(Array.from(phases.values()).flat().map(p => p.id));
+    const attached = new Map<string, ProjectFormData[]>();
+    const blocks: ProjectFormData[][] = []; // A project and the phases shown beneath it
+    sorted.forEach(p => {
+      if (isMilestone(p) && p.parentId && p.parentId !== p.id && visibleIds.has(p.parentId)) {
+        if (!attached.has(p.parentId)) attached.set(p.parentId, []);
+        attached.get(p.parentId)!.push(p);
+      } else if (!nestedPhaseIds.has(p.id)) {
+        blocks.push([p, ...(collapsedIds.has(p.id) ? [] : phases.get(p.id) || [])]);
+      }
+    });
+
+    const toRows = (laneBlocks: ProjectFormData[][]): GanttRow[] => laneBlocks.flat().map(item => ({ kind: 'item', item }));
+    const ganttRows = grouping === 'none'
+      ? toRows(blocks)
+      : groupIntoSwimlanes(blocks, grouping, pools).flatMap(({ lane, blocks: laneBlocks }): GanttRow[] => [
+        { kind: 'lane', lane },
+        ...(collapsedLanes.has(lane.key) ? [] : toRows(laneBlocks))
+      ]);
+    return { rows: ganttRows, milestonesByParent: attached, phasesByParent: phases };
+  }, [sorted, collapsedIds, grouping, collapsedLanes, pools]);
   
   // Get date range - memoized to prevent infinite loops
   const dateRange = useMemo(() => getDateRange([
@@ -547,53 +493,72 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
   
   const { min, max } = dateRange;
   
-  // Calculate chart dimensions with better handling for short date ranges
+  // Weeks (utilization, week selection and meeting indicators are always weekly)
+  const weekStarts = useMemo(() => getAllWeekStarts(min, max), [min, max]);
+
+  // Timeline columns at the selected scale, covering the same range as the weeks
+  const columns = useMemo(() => getTimelineColumns(scale, weekStarts[0], max), [scale, weekStarts, max]);
+  const timelineStart = columns[0].start;
+  const timelineDays = Math.round((columns[columns.length - 1].end.getTime() - timelineStart.getTime()) / DAY_MS);
+
+  // Days stretch to fill the container for short timelines and scroll horizontally for long ones
   const minChartWidth = 600;
-  const chartWidth = Math.max(minChartWidth, containerWidth);
-  const chartHeight = sorted.length * (BAR_HEIGHT + BAR_GAP) + CHART_HEIGHT_PAD;
+  const availableWidth = Math.max(minChartWidth, containerWidth) - CHART_LEFT_PAD - CHART_RIGHT_PAD;
+  const dayWidth = Math.max(getMinDayWidth(scale), availableWidth / timelineDays);
+  const chartWidth = CHART_LEFT_PAD + timelineDays * dayWidth + CHART_RIGHT_PAD;
+  const chartHeight = rows.length * (BAR_HEIGHT + BAR_GAP) + CHART_HEIGHT_PAD;
+  const weekWidth = dayWidth * 7;
 
-  // Weeks
-  const weekStarts = useMemo(() => getAllWeekStarts(min, max), [min, max]);
-  const weekCount = weekStarts.length;
-  const availableWidth = chartWidth - CHART_LEFT_PAD - CHART_RIGHT_PAD;
-  const weekWidth = Math.max(40, availableWidth / weekCount);
-  // Ensure the total width of all columns doesn't exceed available width
-  const totalColumnsWidth = weekCount * weekWidth;
-  const adjustedWeekWidth = totalColumnsWidth > availableWidth ? availableWidth / weekCount : weekWidth;
-
-  // Helper to map a date to an x position, snapped to week
-  const dateToX = useMemo(() => (date: string) => {
-    const d = new Date(date);
+  // Helper to map a date to an x position
+  const dateToX = useMemo(() => (date: string | Date) => {
+    const d = typeof date === 'string' ? parseDateKey(date) : new Date(date);
     d.setHours(0, 0, 0, 0);
-    
-    // Find which week this date falls into
-    const weekIdx = weekStarts.findIndex(w => {
-      const weekEnd = new Date(w.getTime() + 7 * 24 * 60 * 60 * 1000);
-      return d >= w && d < weekEnd;
-    });
-    
-    if (weekIdx >= 0) {
-      // Date falls within a week, position it proportionally within that week
-      const weekStart = weekStarts[weekIdx];
-      const daysIntoWeek = (d.getTime() - weekStart.getTime()) / (24 * 60 * 60 * 1000);
-      const weekProgress = Math.max(0, Math.min(1, daysIntoWeek / 7));
-      
-      return CHART_LEFT_PAD + weekIdx * adjustedWeekWidth + (weekProgress * adjustedWeekWidth);
-    } else if (d < weekStarts[0]) {
-      // Date is before the first week
-      return CHART_LEFT_PAD;
-    } else {
-      // Date is after the last week
-      return CHART_LEFT_PAD + (weekCount - 1) * adjustedWeekWidth;
-    }
-  }, [weekStarts, adjustedWeekWidth]);
+    const days = Math.round((d.getTime() - timelineStart.getTime()) / DAY_MS);
+    return CHART_LEFT_PAD + Math.max(0, Math.min(timelineDays, days)) * dayWidth;
+  }, [timelineStart, timelineDays, dayWidth]);
 
   // Helper to get the width of a project bar based on start and end dates
   const getProjectWidth = useMemo(() => (startDate: string, endDate: string) => {
     const startX = dateToX(startDate);
     const endX = dateToX(endDate);
-    return Math.max(adjustedWeekWidth * 0.5, endX - startX); // Minimum width of half a week
-  }, [dateToX, adjustedWeekWidth]);
+    return Math.max(dayWidth, 4, endX - startX); // At least a day wide so short items stay visible
+  }, [dateToX, dayWidth]);
+
+  // Switch scale, keeping the date in the middle of the view where it is
+  const changeScale = (next: TimeScale) => {
+    if (next === scale) return;
+    const el = scrollRef.current;
+    if (el) {
+      const centreDays = (el.scrollLeft + el.clientWidth / 2 - CHART_LEFT_PAD) / dayWidth;
+      zoomAnchorRef.current = new Date(timelineStart.getTime() + centreDays * DAY_MS);
+    }
+    setScale(next);
+    onViewChange?.({ scale: next, grouping });
+  };
+
+  const zoomIn = () => changeScale(timeScales[Math.max(0, timeScales.indexOf(scale) - 1)]);
+  const zoomOut = () => changeScale(timeScales[Math.min(timeScales.length - 1, timeScales.indexOf(scale) + 1)]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !zoomAnchorRef.current) return;
+    el.scrollLeft = dateToX(zoomAnchorRef.current) - el.clientWidth / 2;
+    zoomAnchorRef.current = null;
+  }, [scale, dateToX]);
+
+  // Ctrl+wheel zooms. React's wheel listener is passive, so attach one that can stop the page zooming.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      if (e.deltaY < 0) zoomIn();
+      else if (e.deltaY > 0) zoomOut();
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  });
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -604,29 +569,42 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
   const uniqueStatuses = useMemo(() => Array.from(new Set(validProjects.map(p => p.status).filter(Boolean))), [validProjects]);
   
   // Get unique pools from projects
-  const uniquePools = useMemo(() => Array.from(new Set(validProjects.map(p => p.pool).filter(Boolean))), [validProjects]);
+  const uniquePools = useMemo(() => Array.from(new Set(validProjects.map(p => p.poolId).filter(Boolean))), [validProjects]);
 
   // Calculate current week over-allocation warnings
   const currentWeekStart = weekStarts[currentWeekIdx >= 0 ? currentWeekIdx : 0];
   const currentWeekEnd = new Date(currentWeekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
-  const overAllocatedPools = useMemo(() => uniquePools.filter(poolName => {
-    const utilization = calculatePoolUtilization(projects, pools, poolName, currentWeekStart, currentWeekEnd);
+  const overAllocatedPools = useMemo(() => uniquePools.filter(poolId => {
+    const utilization = getCachedPoolUtilization(projects, pools, poolId, currentWeekStart, currentWeekEnd, holidays);
     return utilization.isOverAllocated;
-  }), [uniquePools, projects, pools, currentWeekStart, currentWeekEnd]);
+  }), [uniquePools, projects, pools, currentWeekStart, currentWeekEnd, holidays]);
 
   // Calculate future over-allocation warnings
   const futureOverAllocationWarnings = useMemo(() => {
-    // Use cached results from worker if available
+    // Use cached results from worker if available (dates survive the structured clone)
     if (cachedFutureWarnings.length > 0) {
-      return cachedFutureWarnings.map(warning => ({
-        ...warning,
-        weekStart: new Date(warning.weekStart)
-      }));
+      return cachedFutureWarnings;
     }
     
     // Fallback to main thread calculation
-    return getFutureOverAllocationWarnings(projects, pools, weekStarts, currentWeekIdx);
-  }, [cachedFutureWarnings, projects, pools, weekStarts, currentWeekIdx]);
+    return getFutureOverAllocationWarnings(projects, pools, weekStarts, currentWeekIdx, holidays);
+  }, [cachedFutureWarnings, projects, pools, weekStarts, currentWeekIdx, holidays]);
+
+  // Weeks a pool as a whole is over its hours, this week and the next 4, for leveling
+  const getOverAllocatedWeeks = (poolId: string) => [
+    ...(overAllocatedPools.includes(poolId) ? [currentWeekStart] : []),
+    ...futureOverAllocationWarnings.filter(w => w.poolId === poolId && w.utilization.isOverAllocated).map(w => w.weekStart)
+  ];
+
+  const renderLevelButton = (poolId: string) => onLevelPool && (
+    <button
+      onClick={() => onLevelPool(poolId, getOverAllocatedWeeks(poolId))}
+      title="Suggest date shifts and allocation changes that bring this pool within its hours"
+      style={{ marginLeft: '0.5rem', padding: '0.1rem 0.5rem', fontSize: '12px', borderRadius: '4px', border: '1px solid currentColor', background: 'white', color: 'inherit', cursor: 'pointer' }}
+    >
+      ⚖️ Level this pool
+    </button>
+  );
 
   // Trigger worker calculation when data changes
   useEffect(() => {
@@ -639,22 +617,134 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
           projects,
           pools,
           weekStarts: weekStarts.map(d => d.toISOString()),
-          currentWeekIdx
+          currentWeekIdx,
+          holidays
         },
         requestId: Date.now()
       });
     }
-  }, [worker, workerReady, projects, pools, weekStarts, currentWeekIdx]);
+  }, [worker, workerReady, projects, pools, weekStarts, currentWeekIdx, holidays]);
+
+  // Dependencies the current dates violate
+  const dependencyViolations = useMemo(() => getDependencyViolations(projects), [projects]);
+
+  // Float per project over the whole project set (filters don't change what drives the end date)
+  const criticalPath = useMemo(() => analyzeCriticalPath(projects), [projects]);
+
+  // Row index of each rendered project (attached milestones share their parent's row),
+  // used to route dependency arrows between bars. Projects in collapsed swimlanes have none.
+  const rowIndexById = useMemo(() => {
+    const index = new Map<string, number>();
+    rows.forEach((row, i) => {
+      if (row.kind === 'item') index.set(row.item.id, i);
+    });
+    // Phases of a collapsed project are reached through its summary row
+    phasesByParent.forEach((phases, parentId) => {
+      phases.forEach(phase => {
+        if (!index.has(phase.id) && index.has(parentId)) index.set(phase.id, index.get(parentId)!);
+      });
+    });
+    milestonesByParent.forEach((milestones, parentId) => {
+      milestones.forEach(m => {
+        if (index.has(parentId)) index.set(m.id, index.get(parentId)!);
+      });
+    });
+    return index;
+  }, [rows, milestonesByParent, phasesByParent]);
+  const sortedById = useMemo(() => new Map(sorted.map(p => [p.id, p])), [sorted]);
+
+  // Dragging snaps to days on the fine scales and to weeks on the coarse ones
+  const snapDays = getSnapDays(scale);
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      // The SVG is stretched to the container, so convert screen pixels to chart units
+      const rect = svgRef.current?.getBoundingClientRect();
+      const scale = rect && rect.width > 0 ? chartWidth / rect.width : 1;
+      const deltaDays = Math.round(((e.clientX - drag.originClientX) * scale / dayWidth) / snapDays) * snapDays;
+
+      let startDate = drag.originStartDate;
+      let targetDate = drag.originTargetDate;
+      if (drag.mode === 'move') {
+        startDate = shiftDate(drag.originStartDate, deltaDays);
+        targetDate = shiftDate(drag.originTargetDate, deltaDays);
+      } else if (drag.mode === 'start') {
+        startDate = shiftDate(drag.originStartDate, deltaDays);
+        if (startDate > targetDate) startDate = targetDate;
+      } else {
+        targetDate = shiftDate(drag.originTargetDate, deltaDays);
+        if (targetDate < startDate) targetDate = startDate;
+      }
+      setDrag({ ...drag, startDate, targetDate, clientX: e.clientX, clientY: e.clientY });
+    };
+
+    const handleMouseUp = () => {
+      const original = projects.find(p => p.id === drag.projectId);
+      const moved = drag.startDate !== drag.originStartDate || drag.targetDate !== drag.originTargetDate;
+      setDrag(null);
+      if (original && moved && onProjectChange) {
+        onProjectChange({ ...original, startDate: drag.startDate, targetDate: drag.targetDate, autoRecalculated: false });
+      }
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, chartWidth, dayWidth, snapDays, projects, onProjectChange]);
+
+  // Pool utilization before and after the drag, across both the old and new dates
+  const dragImpact = useMemo(() => {
+    if (!drag) return null;
+    const original = projects.find(p => p.id === drag.projectId);
+    const pool = original && pools.find(p => p.id === original.poolId);
+    if (!original || !pool || isMilestone(original)) return null;
+
+    const rangeStart = drag.startDate < drag.originStartDate ? drag.startDate : drag.originStartDate;
+    const rangeEnd = drag.targetDate > drag.originTargetDate ? drag.targetDate : drag.originTargetDate;
+    const draggedProjects = projects.map(p => (p.id === drag.projectId ? { ...p, startDate: drag.startDate, targetDate: drag.targetDate } : p));
+    return {
+      poolName: pool.name,
+      before: getPeakPoolUtilization(projects, pool, rangeStart, rangeEnd, holidays),
+      after: getPeakPoolUtilization(draggedProjects, pool, rangeStart, rangeEnd, holidays)
+    };
+  }, [drag, projects, pools, holidays]);
+
+  // The dates to draw an item with: its dragged dates while it's being dragged
+  const withDrag = (p: ProjectFormData): ProjectFormData => (
+    drag && drag.projectId === p.id ? { ...p, startDate: drag.startDate, targetDate: drag.targetDate } : p
+  );
+
+  const startDrag = (e: React.MouseEvent, project: ProjectFormData, mode: DragState['mode']) => {
+    if (!onProjectChange || e.button !== 0) return;
+    e.preventDefault(); // Don't start a text selection
+    e.stopPropagation();
+    setDrag({
+      projectId: project.id,
+      mode,
+      originClientX: e.clientX,
+      originStartDate: project.startDate,
+      originTargetDate: project.targetDate,
+      startDate: project.startDate,
+      targetDate: project.targetDate,
+      clientX: e.clientX,
+      clientY: e.clientY
+    });
+  };
 
   // Calculate visible range based on scroll position
   useEffect(() => {
     const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - BUFFER_SIZE);
     const end = Math.min(
-      sorted.length,
+      rows.length,
       Math.ceil((scrollTop + chartHeight) / ROW_HEIGHT) + BUFFER_SIZE
     );
     setVisibleRange({ start, end });
-  }, [scrollTop, chartHeight, sorted.length]);
+  }, [scrollTop, chartHeight, rows.length]);
 
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     setScrollTop(e.currentTarget.scrollTop);
@@ -670,6 +760,164 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
     }
   };
 
+  // Tooltip lines comparing an item with the selected baseline
+  const getBaselineTooltip = (item: ProjectFormData) => {
+    if (!baseline) return '';
+    const variance = getBaselineVariance(item, baseline);
+    if (!variance) return `\nNot in baseline "${baseline.name}"`;
+    const planned = isMilestone(item)
+      ? variance.baseline.targetDate
+      : `${variance.baseline.startDate} → ${variance.baseline.targetDate}, ${variance.baseline.estimatedHours}h`;
+    return `\nBaseline "${baseline.name}": ${planned}`
+      + (isMilestone(item)
+        ? `\nSchedule variance: ${formatVariance(variance.finishVarianceDays, 'days')}`
+        : `\nSchedule variance: start ${formatVariance(variance.startVarianceDays, 'days')}, finish ${formatVariance(variance.finishVarianceDays, 'days')}`
+          + `\nHours variance: ${formatVariance(variance.hoursVariance, 'hours')}`);
+  };
+
+  // Thin ghost of the item as the baseline planned it, just below its current bar
+  const renderBaselineGhost = (item: ProjectFormData, rowY: number) => {
+    const planned = baseline?.items[item.id];
+    if (!planned || !planned.startDate || !planned.targetDate) return null;
+    if (isMilestone(item)) {
+      const cx = dateToX(planned.targetDate);
+      const cy = rowY + 20 + BAR_HEIGHT / 2;
+      const size = MILESTONE_SIZE - 2;
+      return (
+        <path
+          d={`M ${cx} ${cy - size} L ${cx + size} ${cy} L ${cx} ${cy + size} L ${cx - size} ${cy} Z`}
+          fill="none"
+          stroke="#6b7280"
+          strokeDasharray="2 2"
+          style={{ pointerEvents: 'none' }}
+        />
+      );
+    }
+    return (
+      <rect
+        x={dateToX(planned.startDate)}
+        y={rowY + 20 + BAR_HEIGHT + 1}
+        width={getProjectWidth(planned.startDate, planned.targetDate)}
+        height={BASELINE_BAR_HEIGHT}
+        fill="#9ca3af"
+        opacity={0.8}
+        rx={2}
+        style={{ pointerEvents: 'none' }}
+      />
+    );
+  };
+
+  // Diamond centred on a milestone's date, with its own tooltip
+  const renderMilestone = (item: ProjectFormData, rowY: number) => {
+    const milestone = withDrag(item);
+    const cx = dateToX(milestone.startDate);
+    const cy = rowY + 20 + BAR_HEIGHT / 2;
+    const float = showCriticalPath ? criticalPath.floats[milestone.id] : undefined;
+    return (
+      <g key={`milestone-${milestone.id}`}>
+        <title>
+          {`◆ ${milestone.name}`}
+          {`\nMilestone: ${milestone.startDate}`}
+          {milestone.status ? `\nStatus: ${milestone.status}` : ''}
+          {milestone.notes ? `\n${milestone.notes}` : ''}
+          {float ? `\n${float.isCritical ? '🔺 Critical path' : 'Not critical'}: ${float.totalFloat} work days total float, ${float.freeFloat} free float` : ''}
+          {getBaselineTooltip(milestone)}
+        </title>
+        {renderBaselineGhost(milestone, rowY)}
+        <path
+          d={`M ${cx} ${cy - MILESTONE_SIZE} L ${cx + MILESTONE_SIZE} ${cy} L ${cx} ${cy + MILESTONE_SIZE} L ${cx - MILESTONE_SIZE} ${cy} Z`}
+          fill={getProjectColor(milestone)}
+          stroke={float?.isCritical ? '#111827' : '#fff'}
+          strokeWidth={float?.isCritical ? 2 : 1}
+          style={{ cursor: onProjectChange ? (drag ? 'grabbing' : 'grab') : undefined }}
+          onMouseDown={e => startDrag(e, item, 'move')}
+        />
+      </g>
+    );
+  };
+
+  const toggleCollapsed = (projectId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(projectId)) next.delete(projectId);
+      else next.add(projectId);
+      return next;
+    });
+  };
+
+  const toggleLane = (key: string) => {
+    setCollapsedLanes(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const changeGrouping = (next: SwimlaneGrouping) => {
+    setGrouping(next);
+    setCollapsedLanes(new Set()); // Lane keys mean something different under each grouping
+    onViewChange?.({ scale, grouping: next });
+  };
+
+  // Swimlane header: the lane's name, a bar spanning its dates, its total hours and, for pools,
+  // the pool's utilization in the selected week (or the current week when none is selected)
+  const renderSwimlaneHeader = (lane: Swimlane, rowY: number) => {
+    const isCollapsed = collapsedLanes.has(lane.key);
+    const laneWeekIdx = selectedWeekIndex !== null && weekStarts[selectedWeekIndex] ? selectedWeekIndex : Math.max(0, currentWeekIdx);
+    const laneWeekStart = weekStarts[laneWeekIdx];
+    const laneWeekEnd = new Date(laneWeekStart.getTime() + 6 * DAY_MS);
+    const utilization = grouping === 'pool' && lane.key
+      ? getCachedPoolUtilization(projects, pools, lane.key, laneWeekStart, laneWeekEnd, holidays)
+      : null;
+    const x1 = dateToX(lane.startDate);
+    const spanWidth = getProjectWidth(lane.startDate, lane.targetDate);
+    const weekLabel = laneWeekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+    return (
+      <g key={`lane-${lane.key}`}>
+        <title>
+          {`${lane.label}: ${lane.itemCount} item${lane.itemCount === 1 ? '' : 's'}`}
+          {`\n${lane.startDate} → ${lane.targetDate}`}
+          {`\nEstimated Hours: ${lane.estimatedHours}h`}
+          {utilization ? `\nWeek of ${weekLabel}: ${utilization.totalAllocated}h allocated of ${utilization.availableHours}h available (${utilization.utilization}%)` : ''}
+          {`\nClick to ${isCollapsed ? 'show' : 'hide'} this lane`}
+        </title>
+        <rect
+          x={0}
+          y={rowY + 16}
+          width={chartWidth}
+          height={BAR_HEIGHT + BAR_GAP - 2}
+          fill="#eef2ff"
+          style={{ cursor: 'pointer' }}
+          onClick={() => toggleLane(lane.key)}
+        />
+        {grouping === 'pool' && (
+          <rect x={8} y={rowY + 23} width={12} height={12} fill={getPoolColor(lane.key, pools)} rx={2} stroke="#ccc" strokeWidth={0.5} />
+        )}
+        <text
+          x={grouping === 'pool' ? 24 : 8}
+          y={rowY + BAR_HEIGHT / 2 + 25}
+          fontSize={12}
+          fontWeight="bold"
+          fill="#1e3a8a"
+          style={{ pointerEvents: 'none' }}
+        >
+          {isCollapsed ? '▸ ' : '▾ '}{truncateName(`${lane.label} (${lane.itemCount})`, PROJECT_NAME_MAX - 2)}
+        </text>
+        <rect x={x1} y={rowY + 27} width={spanWidth} height={4} rx={2} fill="#6366f1" opacity={0.6} style={{ pointerEvents: 'none' }} />
+        <text x={x1 + spanWidth + 6} y={rowY + BAR_HEIGHT / 2 + 24} fontSize={10} fill="#1e3a8a" style={{ pointerEvents: 'none' }}>
+          {`${lane.startDate} → ${lane.targetDate} · ${lane.estimatedHours}h`}
+          {utilization && (
+            <tspan fill={utilization.isOverAllocated ? '#dc2626' : '#1e3a8a'} fontWeight={utilization.isOverAllocated ? 'bold' : 'normal'}>
+              {` · ${utilization.utilization}% week of ${weekLabel}${utilization.isOverAllocated ? ' ⚠️' : ''}`}
+            </tspan>
+          )}
+        </text>
+      </g>
+    );
+  };
+
   // Early return check - but hooks must be called before this
   if (!validProjects.length) {
     return <div style={{ padding: 24 }}>No projects match the current filters.</div>;
@@ -690,17 +938,18 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
           <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>
             ⚠️ Current Week Over-allocation Warnings
           </div>
-          {overAllocatedPools.map(poolName => {
-            const utilization = calculatePoolUtilization(projects, pools, poolName, currentWeekStart, currentWeekEnd);
+          {overAllocatedPools.map(poolId => {
+            const utilization = getCachedPoolUtilization(projects, pools, poolId, currentWeekStart, currentWeekEnd, holidays);
             return (
-              <div key={poolName} style={{ fontSize: '14px', marginBottom: '0.25rem' }}>
-                <strong>{poolName}</strong>: {utilization.totalAllocated}h allocated of {utilization.availableHours}h available 
+              <div key={poolId} style={{ fontSize: '14px', marginBottom: '0.25rem' }}>
+                <strong>{getPoolName(poolId, pools)}</strong>: {utilization.totalAllocated}h allocated of {utilization.availableHours}h available 
                 ({utilization.utilization}% utilization)
                 {utilization.reservedHours && utilization.reservedHours > 0 && (
                   <span style={{ color: '#666', fontSize: '12px' }}>
                     {' '}({utilization.poolHours}h total - {utilization.reservedHours}h reserved)
                   </span>
                 )}
+                {renderLevelButton(poolId)}
               </div>
             );
           })}
@@ -732,7 +981,7 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
               year: 'numeric'
             });
             return (
-              <div key={`${warning.poolName}-${index}`} style={{ fontSize: '14px', marginBottom: '0.25rem' }}>
+              <div key={`${warning.poolId}-${index}`} style={{ fontSize: '14px', marginBottom: '0.25rem' }}>
                 <strong>{warning.poolName}</strong> (Week of {weekLabel}): {warning.utilization.totalAllocated}h allocated of {warning.utilization.availableHours}h available 
                 ({warning.utilization.utilization}% utilization)
                 {warning.utilization.reservedHours && warning.utilization.reservedHours > 0 && (
@@ -740,12 +989,43 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                     {' '}({warning.utilization.poolHours}h total - {warning.utilization.reservedHours}h reserved)
                   </span>
                 )}
+                {/* Once per pool: leveling covers all of its flagged weeks */}
+                {warning.utilization.isOverAllocated &&
+                  !overAllocatedPools.includes(warning.poolId) &&
+                  futureOverAllocationWarnings.find(w => w.poolId === warning.poolId && w.utilization.isOverAllocated) === warning &&
+                  renderLevelButton(warning.poolId)}
+                {warning.overAllocatedMembers.length > 0 && (
+                  <div style={{ marginLeft: '1rem', fontSize: '13px' }}>
+                    Over their hours: {formatOverAllocatedMembers(warning.overAllocatedMembers)}
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
       )}
 
+      {/* Dependency Violations */}
+      {dependencyViolations.length > 0 && (
+        <div style={{ 
+          background: '#fef2f2', 
+          border: '1px solid #fecaca', 
+          borderRadius: '6px', 
+          padding: '1rem', 
+          marginBottom: '1rem',
+          color: '#dc2626'
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>
+            ⛓️ Dependency Conflicts
+          </div>
+          {dependencyViolations.map(violation => (
+            <div key={`${violation.predecessorId}-${violation.successorId}`} style={{ fontSize: '14px', marginBottom: '0.25rem' }}>
+              {violation.message}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Status and Pool Legends */}
       {(uniqueStatuses.length > 0 || uniquePools.length > 0) && (
         <div style={{ 
@@ -778,24 +1058,29 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
           {uniquePools.length > 0 && (
             <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
               <span style={{ fontSize: '12px', color: '#666', fontWeight: 'bold' }}>Pools:</span>
-              {uniquePools.map(poolName => {
-                const utilization = calculatePoolUtilization(projects, pools, poolName, currentWeekStart, currentWeekEnd);
+              {uniquePools.map(poolId => {
+                const utilization = getCachedPoolUtilization(projects, pools, poolId, currentWeekStart, currentWeekEnd, holidays);
                 // Check if this pool has any projects with work in current week
                 const hasActiveProjects = projects.some(proj => 
-                  proj.pool === poolName && 
+                  proj.poolId === poolId && 
                   (proj.weeklyAllocation || 0) > 0 &&
                   new Date(proj.startDate) <= currentWeekEnd && 
                   new Date(proj.targetDate) >= currentWeekStart &&
                   !proj.status?.toLowerCase().includes('complete')
                 );
-                const showOverAllocationWarning = utilization.isOverAllocated && hasActiveProjects;
+                const overAllocatedMembers = getOverAllocatedMembers(utilization);
+                const showOverAllocationWarning = (utilization.isOverAllocated || overAllocatedMembers.length > 0) && hasActiveProjects;
                 
                 return (
-                  <div key={poolName} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <div
+                    key={poolId}
+                    title={showOverAllocationWarning && overAllocatedMembers.length > 0 ? `Over their hours this week: ${formatOverAllocatedMembers(overAllocatedMembers)}` : undefined}
+                    style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}
+                  >
                     <div style={{
                       width: '8px',
                       height: '8px',
-                      backgroundColor: getPoolColor(poolName, pools),
+                      backgroundColor: getPoolColor(poolId, pools),
                       borderRadius: '2px',
                       border: showOverAllocationWarning ? '1px solid #dc2626' : '0.5px solid #ccc'
                     }} />
@@ -804,26 +1089,90 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                       color: showOverAllocationWarning ? '#dc2626' : '#666',
                       fontWeight: showOverAllocationWarning ? 'bold' : 'normal'
                     }}>
-                      {poolName} {showOverAllocationWarning && '⚠️'}
+                      {getPoolName(poolId, pools)} {showOverAllocationWarning && '⚠️'}
                     </span>
                   </div>
                 );
               })}
             </div>
           )}
+
+          {/* Company holidays */}
+          {holidays.length > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <div style={{ width: '12px', height: '12px', backgroundColor: '#fee2e2', borderRadius: '2px' }} />
+              <span style={{ fontSize: '12px', color: '#666' }}>Holiday</span>
+            </div>
+          )}
+
+          {/* Baseline ghost bar */}
+          {baseline && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <div style={{ width: '24px', height: `${BASELINE_BAR_HEIGHT}px`, backgroundColor: '#9ca3af', borderRadius: '2px' }} />
+              <span style={{ fontSize: '12px', color: '#666' }}>Baseline: {baseline.name}</span>
+            </div>
+          )}
         </div>
       )}
       
+      {/* Timescale, swimlane and critical path controls */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem', fontSize: '14px', color: '#000', flexWrap: 'wrap' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }} title="Ctrl + mouse wheel over the chart also zooms">
+          <button onClick={zoomIn} disabled={scale === timeScales[0]} style={zoomButtonStyle} title="Zoom in">＋</button>
+          {timeScales.map(option => (
+            <button
+              key={option}
+              onClick={() => changeScale(option)}
+              style={{
+                ...zoomButtonStyle,
+                background: option === scale ? '#4F8EF7' : 'white',
+                color: option === scale ? 'white' : '#4F8EF7',
+              }}
+            >
+              {timeScaleLabels[option]}
+            </button>
+          ))}
+          <button onClick={zoomOut} disabled={scale === timeScales[timeScales.length - 1]} style={zoomButtonStyle} title="Zoom out">－</button>
+        </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          Group rows by
+          <select
+            value={grouping}
+            onChange={e => changeGrouping(e.target.value as SwimlaneGrouping)}
+            style={{ padding: '0.25rem', fontSize: '13px' }}
+          >
+            {swimlaneGroupings.map(option => (
+              <option key={option} value={option}>{swimlaneGroupingLabels[option]}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={showCriticalPath}
+            onChange={e => setShowCriticalPath(e.target.checked)}
+          />
+          Show critical path
+        </label>
+        {showCriticalPath && criticalPath.endDate && (
+          <span style={{ color: '#666', fontSize: '12px' }}>
+            {criticalPath.criticalIds.length} critical project{criticalPath.criticalIds.length === 1 ? '' : 's'} driving the portfolio end date of {criticalPath.endDate}
+          </span>
+        )}
+      </div>
+
       <div 
         style={{ 
           height: chartHeight, 
           overflowY: 'auto', 
-          overflowX: 'hidden',
+          overflowX: 'auto',
           position: 'relative'
         }}
         onScroll={handleScroll}
+        ref={scrollRef}
       >
         <svg 
+          ref={svgRef}
           width={chartWidth} 
           height={chartHeight} 
           style={{ 
@@ -831,22 +1180,65 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
             borderRadius: 8, 
             boxShadow: '0 2px 8px #0001', 
             margin: '2rem auto', 
-            width: '100%', 
-            maxWidth: '100%',
+            width: chartWidth, 
             display: 'block',
             position: 'absolute',
             top: 0,
             left: 0
           }}
         >
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 10 10" refX={9} refY={5} markerWidth={6} markerHeight={6} orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+            </marker>
+            <marker id="dependency-arrow-violated" viewBox="0 0 10 10" refX={9} refY={5} markerWidth={6} markerHeight={6} orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+            </marker>
+          </defs>
           <text x={CHART_LEFT_PAD} y={36} fontSize={18} fontWeight="bold">Project Timeline</text>
           
+          {/* Column shading: weekends on the day scale, alternate columns otherwise */}
+          {columns.map((column, i) => {
+            const isWeekend = column.start.getDay() === 0 || column.start.getDay() === 6;
+            const shaded = scale === 'day' ? isWeekend : i % 2 === 1;
+            if (!shaded) return null;
+            return (
+              <rect
+                key={`shade-${column.start.toISOString()}`}
+                x={dateToX(column.start)}
+                y={CHART_TOP_PAD - 20}
+                width={dateToX(column.end) - dateToX(column.start)}
+                height={chartHeight - CHART_TOP_PAD + 10}
+                fill={scale === 'day' ? '#f3f4f6' : '#f9fafb'}
+              />
+            );
+          })}
+
+          {/* Company holidays, one band per range; ranges outside the timeline clamp to zero width */}
+          {holidays.map(holiday => {
+            const x = dateToX(parseDateKey(holiday.startDate));
+            const width = dateToX(addDays(parseDateKey(holiday.endDate), 1)) - x;
+            if (width <= 0) return null;
+            return (
+              <rect
+                key={`holiday-${holiday.id}`}
+                x={x}
+                y={CHART_TOP_PAD - 20}
+                width={width}
+                height={chartHeight - CHART_TOP_PAD + 10}
+                fill="#fee2e2"
+              >
+                <title>{holiday.name}</title>
+              </rect>
+            );
+          })}
+
           {/* Highlight current week column */}
           {currentWeekIdx > -1 && (
             <rect
-              x={CHART_LEFT_PAD + currentWeekIdx * adjustedWeekWidth}
+              x={dateToX(weekStarts[currentWeekIdx])}
               y={0}
-              width={adjustedWeekWidth}
+              width={weekWidth}
               height={chartHeight}
               fill="#3b82f6"
               opacity={0.1}
@@ -854,46 +1246,54 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
           )}
           
           {/* Highlight selected week column */}
-          {selectedWeekIndex !== null && selectedWeekIndex !== currentWeekIdx && (
+          {selectedWeekIndex !== null && selectedWeekIndex !== currentWeekIdx && weekStarts[selectedWeekIndex] && (
             <rect
-              x={CHART_LEFT_PAD + selectedWeekIndex * adjustedWeekWidth}
+              x={dateToX(weekStarts[selectedWeekIndex])}
               y={0}
-              width={adjustedWeekWidth}
+              width={weekWidth}
               height={chartHeight}
               fill="#8b5cf6"
               opacity={0.1}
             />
           )}
 
-          {/* Week grid lines and labels */}
-          {weekStarts.map((w, i) => {
-            const isNarrowColumn = adjustedWeekWidth < 60;
-            const labelX = CHART_LEFT_PAD + i * adjustedWeekWidth + adjustedWeekWidth / 2;
+          {/* Column grid lines and labels */}
+          {columns.map(column => {
+            const columnX = dateToX(column.start);
+            const columnWidth = dateToX(column.end) - columnX;
+            const isNarrowColumn = columnWidth < NARROW_COLUMN_WIDTH;
+            const labelX = columnX + columnWidth / 2;
             const labelY = isNarrowColumn ? CHART_TOP_PAD - 5 : CHART_TOP_PAD - 10;
-            const isSelected = selectedWeekIndex === i;
-            const isCurrent = i === currentWeekIdx;
+            // Day and week headers select the week they fall in; months and quarters are labels only
+            const weekIdx = scale === 'day' || scale === 'week'
+              ? weekStarts.findIndex(w => column.start >= w && column.start.getTime() < w.getTime() + 7 * DAY_MS)
+              : -1;
+            const isSelected = weekIdx > -1 && selectedWeekIndex === weekIdx;
+            const isCurrent = weekIdx > -1 && weekIdx === currentWeekIdx;
             
             return (
-              <g key={w.toISOString()}>
+              <g key={column.start.toISOString()}>
                 <line
-                  x1={CHART_LEFT_PAD + i * adjustedWeekWidth}
+                  x1={columnX}
                   y1={CHART_TOP_PAD - 30}
-                  x2={CHART_LEFT_PAD + i * adjustedWeekWidth}
+                  x2={columnX}
                   y2={chartHeight - 10}
                   stroke="#eee"
                 />
                 {/* Clickable week header */}
-                <rect
-                  x={CHART_LEFT_PAD + i * adjustedWeekWidth}
-                  y={CHART_TOP_PAD - 40}
-                  width={adjustedWeekWidth}
-                  height={20}
-                  fill="transparent"
-                  cursor="pointer"
-                  onClick={() => handleWeekClick(i)}
-                  style={{ pointerEvents: 'all' }}
-                />
-                {/* Week labels - show all weeks with conditional rotation for narrow columns */}
+                {weekIdx > -1 && (
+                  <rect
+                    x={columnX}
+                    y={CHART_TOP_PAD - 40}
+                    width={columnWidth}
+                    height={20}
+                    fill="transparent"
+                    cursor="pointer"
+                    onClick={() => handleWeekClick(weekIdx)}
+                    style={{ pointerEvents: 'all' }}
+                  />
+                )}
+                {/* Column labels - compact and rotated for narrow columns */}
                 <text
                   x={labelX}
                   y={labelY}
@@ -905,58 +1305,141 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                   transform={isNarrowColumn ? `rotate(-45, ${labelX}, ${labelY})` : ''}
                   style={{ pointerEvents: 'none' }}
                 >
-                  {isNarrowColumn 
-                    ? w.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
-                    : w.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-                  }
+                  {formatColumnLabel(scale, column.start, isNarrowColumn)}
                 </text>
               </g>
             );
           })}
+          {/* Month names above day and week columns, so the short labels have context */}
+          {(scale === 'day' || scale === 'week') && getTimelineColumns('month', timelineStart, columns[columns.length - 1].start).map(month => (
+            <text
+              key={`month-${month.start.toISOString()}`}
+              x={Math.max(CHART_LEFT_PAD, dateToX(month.start)) + 4}
+              y={CHART_TOP_PAD - 45}
+              fontSize={11}
+              fontWeight="bold"
+              fill="#555"
+              style={{ pointerEvents: 'none' }}
+            >
+              {month.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+            </text>
+          ))}
           {/* Date axis - extend full width of chart */}
           <line 
             x1={CHART_LEFT_PAD} 
             y1={CHART_TOP_PAD + 5} 
-            x2={CHART_LEFT_PAD + weekCount * adjustedWeekWidth} 
+            x2={CHART_LEFT_PAD + timelineDays * dayWidth} 
             y2={CHART_TOP_PAD + 5} 
             stroke="#bbb" 
           />
           
           {/* Virtual scrolling: Only render visible project rows */}
-          {sorted.slice(visibleRange.start, visibleRange.end).map((proj, index) => {
+          {rows.slice(visibleRange.start, visibleRange.end).map((row, index) => {
             const actualIndex = visibleRange.start + index;
             const y = CHART_TOP_PAD + actualIndex * (BAR_HEIGHT + BAR_GAP);
+            if (row.kind === 'lane') return renderSwimlaneHeader(row.lane, y);
+
+            const item = row.item;
+            const proj = withDrag(item);
+
+            // Milestones on their own row: name, pool and a diamond with the date beside it
+            if (isMilestone(proj)) {
+              return (
+                <g key={proj.id}>
+                  <text x={24} y={y + BAR_HEIGHT / 2 + 25} fontSize={12} fontWeight="bold" fill="#222">
+                    {truncateName(proj.name)}
+                  </text>
+                  <rect x={8} y={y + 23} width={12} height={12} fill={getPoolColor(proj.poolId, pools)} rx={2} stroke="#ccc" strokeWidth={0.5} />
+                  {renderMilestone(item, y)}
+                  <text x={dateToX(proj.startDate) + MILESTONE_SIZE + 4} y={y + BAR_HEIGHT / 2 + 24} fontSize={10} fill="#222" style={{ pointerEvents: 'none' }}>
+                    {proj.startDate}
+                  </text>
+                </g>
+              );
+            }
+
             const x1 = dateToX(proj.startDate);
             const barWidth = getProjectWidth(proj.startDate, proj.targetDate);
             const color = getProjectColor(proj);
+
+            // Projects with phases: a collapsible summary bar spanning the rolled-up dates
+            const phases = phasesByParent.get(proj.id);
+            if (phases) {
+              const isCollapsed = collapsedIds.has(proj.id);
+              const summaryY = y + 22;
+              return (
+                <g key={proj.id}>
+                  <title>
+                    {proj.name}
+                    {`\nSummary of ${phases.length} phase${phases.length === 1 ? '' : 's'}: ${proj.startDate} → ${proj.targetDate}`}
+                    {proj.status ? `\nStatus: ${proj.status}` : ''}
+                    {proj.notes ? `\n${proj.notes}` : ''}
+                    {`\nEstimated Hours: ${proj.estimatedHours}h, ${getProgress(proj)}% complete`}
+                    {getBaselineTooltip(proj)}
+                    {`\nClick the name to ${isCollapsed ? 'show' : 'hide'} phases`}
+                  </title>
+                  {renderBaselineGhost(proj, y)}
+                  <text
+                    x={24}
+                    y={y + BAR_HEIGHT / 2 + 25}
+                    fontSize={12}
+                    fontWeight="bold"
+                    fill="#222"
+                    style={{ cursor: 'pointer' }}
+                    onClick={() => toggleCollapsed(proj.id)}
+                  >
+                    {isCollapsed ? '▸ ' : '▾ '}{truncateName(proj.name, PROJECT_NAME_MAX - 2)}
+                  </text>
+                  <rect x={8} y={y + 23} width={12} height={12} fill={getPoolColor(proj.poolId, pools)} rx={2} stroke="#ccc" strokeWidth={0.5} />
+                  {/* Summary bar with end brackets, progress shown as the darker portion */}
+                  <rect x={x1} y={summaryY} width={barWidth} height={7} fill="#6b7280" />
+                  <rect x={x1} y={summaryY} width={barWidth * Math.min(100, getProgress(proj)) / 100} height={7} fill="#1f2937" />
+                  <path d={`M ${x1} ${summaryY} L ${x1 + 7} ${summaryY} L ${x1 + 7} ${summaryY + 7} L ${x1} ${summaryY + 14} Z`} fill="#1f2937" />
+                  <path d={`M ${x1 + barWidth} ${summaryY} L ${x1 + barWidth - 7} ${summaryY} L ${x1 + barWidth - 7} ${summaryY + 7} L ${x1 + barWidth} ${summaryY + 14} Z`} fill="#1f2937" />
+                  <text x={x1 + barWidth + 6} y={summaryY + 8} fontSize={10} fill="#222">
+                    {getProgress(proj)}%
+                  </text>
+                  {(milestonesByParent.get(proj.id) || []).map(milestone => renderMilestone(milestone, y))}
+                </g>
+              );
+            }
+            const isNestedPhase = isPhase(proj) && !!proj.parentId && phasesByParent.has(proj.parentId);
             
             // Tooltip calculations
-            const pool = pools.find(p => p.name === proj.pool);
+            const pool = pools.find(p => p.id === proj.poolId);
             const poolWeeklyHours = pool?.weeklyHours || 40;
             
             // Find current week
             const currentWeekStart = weekStarts[currentWeekIdx >= 0 ? currentWeekIdx : 0];
             const allocationPercent = proj.status?.toLowerCase() === 'complete' ? 0 : getWeeklyAllocation(proj, currentWeekStart);
             const allocationHours = Math.round((allocationPercent / 100) * (pool?.standardWeekHours || 40) * 10) / 10;
-            const estHoursLeft = Math.round((proj.estimatedHours * (1 - (proj.progress || 0) / 100)) * 10) / 10;
+            const estHoursLeft = getRemainingHours(proj);
+            const actualHours = getActualHours(proj);
             
             const currentWeekEnd = new Date(currentWeekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
-            const concurrent = getCurrentWeekConcurrentProjects(projects, proj.pool, currentWeekStart, currentWeekEnd);
+            const concurrent = getCurrentWeekConcurrentProjects(projects, proj.poolId, currentWeekStart, currentWeekEnd);
             const concurrentCount = concurrent.length || 1;
             const allocatedThisWeek = poolWeeklyHours * (allocationPercent / 100) / concurrentCount;
             
             // Check if this project's pool is over-allocated AND this project has work in current week
             // Only apply over-allocation logic to Development or Testing status projects
-            const poolUtilization = calculatePoolUtilization(projects, pools, proj.pool, currentWeekStart, currentWeekEnd);
+            const poolUtilization = getCachedPoolUtilization(projects, pools, proj.poolId, currentWeekStart, currentWeekEnd, holidays);
             const isDevelopmentOrTesting = proj.status === 'Development' || proj.status === 'Testing';
             const hasWorkThisWeek = allocationPercent > 0 && 
               new Date(proj.startDate) <= currentWeekEnd && 
               new Date(proj.targetDate) >= currentWeekStart &&
               !proj.status?.toLowerCase().includes('complete');
             const isOverAllocated = poolUtilization.isOverAllocated && hasWorkThisWeek && isDevelopmentOrTesting;
+            // People on this project who are over their hours this week
+            const assignedMembers = (proj.assignments || [])
+              .map(assignment => ({ assignment, member: pool?.members?.find(m => m.id === assignment.memberId) }))
+              .filter(a => !!a.member);
+            const overAllocatedAssignees = getOverAllocatedMembers(poolUtilization)
+              .filter(member => hasWorkThisWeek && assignedMembers.some(a => a.member!.id === member.memberId));
+            const float = showCriticalPath ? criticalPath.floats[proj.id] : undefined;
             
             return (
-              <g key={proj.name}>
+              <g key={proj.id}>
                 {/* Tooltip for full project name, status, notes, allocation */}
                 <title>
                   {proj.name}
@@ -964,9 +1447,29 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                   {proj.notes ? `\n${proj.notes}` : ''}
                   {`\nWeekly Allocation: ${allocationPercent}% (${allocationHours}h of ${proj.estimatedHours}h total)`}
                   {`\nEstimated Hours: ${estHoursLeft} of ${proj.estimatedHours}h remaining`}
+                  {actualHours > 0 ? `\nActual Hours: ${actualHours}h logged${isProgressFromActuals(proj) ? '' : ' (progress set by hand)'}` : ''}
                   {`\nAllocated This Week: ${Math.round(allocatedThisWeek * 10) / 10}h (of ${poolWeeklyHours}h pool, ${concurrentCount} concurrent)`}
                   {isOverAllocated ? `\n⚠️ POOL OVER-ALLOCATED: ${poolUtilization.totalAllocated}h of ${poolUtilization.availableHours}h available (${poolUtilization.utilization}%)` : ''}
+                  {assignedMembers.length > 0 ? `\nAssigned: ${assignedMembers.map(a => `${a.member!.name} ${a.assignment.allocation}%`).join(', ')}` : ''}
+                  {overAllocatedAssignees.length > 0 ? `\n⚠️ Over their hours this week: ${formatOverAllocatedMembers(overAllocatedAssignees)}` : ''}
+                  {float ? `\n${float.isCritical ? '🔺 Critical path' : 'Not critical'}: ${float.totalFloat} work days total float, ${float.freeFloat} free float` : ''}
+                  {float && !float.isCritical ? `\nLatest finish without delaying the portfolio: ${float.lateFinishDate}` : ''}
+                  {getBaselineTooltip(proj)}
                 </title>
+                {renderBaselineGhost(proj, y)}
+                {/* Critical path outline, drawn around the bar so over-allocation stays visible */}
+                {float?.isCritical && (
+                  <rect
+                    x={x1 - 3}
+                    y={y + 17}
+                    width={barWidth + 6}
+                    height={BAR_HEIGHT + 6}
+                    fill="none"
+                    rx={8}
+                    stroke="#111827"
+                    strokeWidth={2}
+                  />
+                )}
                 {/* Bar */}
                 <rect 
                   x={x1} 
@@ -977,10 +1480,41 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                   rx={6}
                   stroke={isOverAllocated ? '#dc2626' : 'none'}
                   strokeWidth={isOverAllocated ? 2 : 0}
+                  style={{ cursor: onProjectChange ? (drag ? 'grabbing' : 'grab') : undefined }}
+                  onMouseDown={e => startDrag(e, item, 'move')}
                 />
-                {/* Project name */}
-                <text x={24} y={y + BAR_HEIGHT / 2 + 25} fontSize={12} fontWeight="bold" fill="#222">
-                  {truncateName(proj.name)}
+                {/* Edge handles for changing one date */}
+                {onProjectChange && (
+                  <>
+                    <rect
+                      x={x1 - DRAG_HANDLE_WIDTH / 2}
+                      y={y + 20}
+                      width={DRAG_HANDLE_WIDTH}
+                      height={BAR_HEIGHT}
+                      fill="transparent"
+                      style={{ cursor: 'ew-resize' }}
+                      onMouseDown={e => startDrag(e, item, 'start')}
+                    />
+                    <rect
+                      x={x1 + barWidth - DRAG_HANDLE_WIDTH / 2}
+                      y={y + 20}
+                      width={DRAG_HANDLE_WIDTH}
+                      height={BAR_HEIGHT}
+                      fill="transparent"
+                      style={{ cursor: 'ew-resize' }}
+                      onMouseDown={e => startDrag(e, item, 'end')}
+                    />
+                  </>
+                )}
+                {/* Project name (phases indented beneath their project) */}
+                <text
+                  x={isNestedPhase ? 24 + PHASE_INDENT : 24}
+                  y={y + BAR_HEIGHT / 2 + 25}
+                  fontSize={12}
+                  fontWeight={isNestedPhase ? 'normal' : 'bold'}
+                  fill="#222"
+                >
+                  {isNestedPhase ? truncateName(proj.name, PROJECT_NAME_MAX - 2) : truncateName(proj.name)}
                 </text>
                 {/* Pool color indicator */}
                 <rect 
@@ -988,7 +1522,7 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                   y={y + 23} 
                   width={12} 
                   height={12} 
-                  fill={getPoolColor(proj.pool, pools)} 
+                  fill={getPoolColor(proj.poolId, pools)} 
                   rx={2}
                   stroke={isOverAllocated ? '#dc2626' : '#ccc'}
                   strokeWidth={isOverAllocated ? 1.5 : 0.5}
@@ -1002,20 +1536,94 @@ const GanttChart: React.FC<GanttChartProps> = ({ projects, pools, filters, selec
                 {/* Percent complete */}
                 {typeof proj.progress === 'number' && (
                   <text x={x1 + barWidth - 80} y={y + BAR_HEIGHT / 2 + 25} fontSize={13} fill="#fff" textAnchor="end" fontWeight="bold">
-                    {proj.progress}%
+                    {getProgress(proj)}%
                   </text>
                 )}
                 {/* Target date label inside the bar, right-aligned */}
                 <text x={x1 + barWidth - 8} y={y + BAR_HEIGHT / 2 + 25} fontSize={10} fill="#fff" textAnchor="end">
                   {proj.targetDate}
                 </text>
+                {/* Milestones attached to this project */}
+                {(milestonesByParent.get(proj.id) || []).map(milestone => renderMilestone(milestone, y))}
               </g>
             );
           })}
+          {/* Dependency arrows - only between rows near the visible range */}
+          {sorted.map(withDrag).flatMap(successor => (successor.dependencies || []).map(dependency => {
+            const predecessorIdx = rowIndexById.get(dependency.predecessorId);
+            const successorIdx = rowIndexById.get(successor.id);
+            if (predecessorIdx === undefined || successorIdx === undefined) return null;
+            const outsideStart = Math.max(predecessorIdx, successorIdx) < visibleRange.start;
+            const outsideEnd = Math.min(predecessorIdx, successorIdx) >= visibleRange.end;
+            if (outsideStart || outsideEnd) return null;
+
+            const predecessor = withDrag(sortedById.get(dependency.predecessorId)!);
+            const rowMidY = (idx: number) => CHART_TOP_PAD + idx * (BAR_HEIGHT + BAR_GAP) + 20 + BAR_HEIGHT / 2;
+            // Milestones are entered and left at the edges of their diamond
+            const barStartX = (p: ProjectFormData) => dateToX(p.startDate) - (isMilestone(p) ? MILESTONE_SIZE : 0);
+            const barEndX = (p: ProjectFormData) => isMilestone(p)
+              ? dateToX(p.startDate) + MILESTONE_SIZE
+              : dateToX(p.startDate) + getProjectWidth(p.startDate, p.targetDate);
+
+            // Leave the predecessor from its start (SS) or end, arrive at the successor's start or end (FF)
+            const fromX = dependency.type === 'SS' ? barStartX(predecessor) : barEndX(predecessor);
+            const toX = dependency.type === 'FF' ? barEndX(successor) : barStartX(successor);
+            const outX = dependency.type === 'SS' ? fromX - 8 : fromX + 8;
+            const fromY = rowMidY(predecessorIdx);
+            const toY = rowMidY(successorIdx);
+            const violation = checkDependency(successor, predecessor, dependency);
+
+            return (
+              <path
+                key={`dep-${predecessor.id}-${successor.id}`}
+                d={`M ${fromX} ${fromY} H ${outX} V ${toY} H ${toX}`}
+                fill="none"
+                stroke={violation ? '#dc2626' : '#6b7280'}
+                strokeWidth={violation ? 1.5 : 1}
+                strokeDasharray={violation ? '4 2' : undefined}
+                markerEnd={`url(#${violation ? 'dependency-arrow-violated' : 'dependency-arrow'})`}
+              >
+                <title>
+                  {`${predecessor.name} → ${successor.name} (${dependencyTypeLabels[dependency.type]}${dependency.lagDays ? `, ${dependency.lagDays} day lag` : ''})`}
+                  {violation ? `\n⚠️ ${violation.message}` : ''}
+                </title>
+              </path>
+            );
+          }))}
           {/* Meeting Hours Indicators */}
-          {renderMeetingHoursIndicators(projects, pools, weekStarts, adjustedWeekWidth, CHART_TOP_PAD)}
+          {renderMeetingHoursIndicators(projects, pools, weekStarts, dateToX, weekWidth, CHART_TOP_PAD)}
         </svg>
       </div>
+
+      {/* Live drag tooltip: the dates the item would get and what it does to its pool */}
+      {drag && (
+        <div style={{
+          position: 'fixed',
+          left: drag.clientX + 14,
+          top: drag.clientY + 14,
+          background: '#111827',
+          color: '#fff',
+          borderRadius: 6,
+          padding: '0.5rem 0.75rem',
+          fontSize: 12,
+          pointerEvents: 'none',
+          zIndex: 1500,
+          boxShadow: '0 2px 8px #0003'
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: 4 }}>{sortedById.get(drag.projectId)?.name}</div>
+          <div>
+            {drag.startDate === drag.targetDate ? drag.startDate : `${drag.startDate} → ${drag.targetDate}`}
+            {' '}({countWorkDays(parseDateKey(drag.startDate), parseDateKey(drag.targetDate), holidays)} work days)
+          </div>
+          {dragImpact?.before && dragImpact.after && (
+            <div style={{ color: dragImpact.after.isOverAllocated ? '#fca5a5' : '#d1d5db', marginTop: 2 }}>
+              {dragImpact.poolName} peak utilization: {dragImpact.before.utilization}% → {dragImpact.after.utilization}%
+              {dragImpact.after.isOverAllocated && ' ⚠️ over-allocated'}
+            </div>
+          )}
+          <div style={{ color: '#9ca3af', marginTop: 2 }}>Snapping to {snapDays === 1 ? 'days' : 'weeks'}</div>
+        </div>
+      )}
     </div>
   );
 };
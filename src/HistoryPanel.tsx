@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { canUndo, canRedo, type HistoryState } from './history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void; // Restore the data as it was after that entry
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem',
+  fontSize: '14px',
+  borderRadius: '4px',
+  border: '1px solid #4F8EF7',
+  background: 'white',
+  color: '#4F8EF7',
+  cursor: 'pointer',
+};
+
+const disabledStyle: React.CSSProperties = {
+  borderColor: '#d1d5db',
+  color: '#9ca3af',
+  cursor: 'not-allowed',
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const undoable = canUndo(history);
+  const redoable = canRedo(history);
+  const current = history.entries[history.index];
+  const next = history.entries[history.index + 1];
+
+  return (
+    <div style={{ position: 'relative', display: 'flex', justifyContent: 'center', gap: '0.5rem', margin: '1rem auto 0' }}>
+      <button
+        onClick={onUndo}
+        disabled={!undoable}
+        title={undoable ? `Undo: ${current.label} (Ctrl+Z)` : 'Nothing to undo'}
+        style={{ ...buttonStyle, ...(undoable ? {} : disabledStyle) }}
+      >
+        ↶ Undo
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!redoable}
+        title={redoable ? `Redo: ${next.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        style={{ ...buttonStyle, ...(redoable ? {} : disabledStyle) }}
+      >
+        ↷ Redo
+      </button>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        style={{ ...buttonStyle, background: isOpen ? '#4F8EF7' : 'white', color: isOpen ? 'white' : '#4F8EF7' }}
+      >
+        🕘 History ({history.entries.length - 1})
+      </button>
+
+      {isOpen && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          marginTop: '0.5rem',
+          width: 'min(420px, 90vw)',
+          maxHeight: '50vh',
+          overflowY: 'auto',
+          background: '#fff',
+          border: '1px solid #e5e7eb',
+          borderRadius: '8px',
+          boxShadow: '0 4px 24px #0002',
+          zIndex: 1200,
+          textAlign: 'left',
+          color: '#000'
+        }}>
+          <div style={{ padding: '0.75rem 1rem', borderBottom: '1px solid #e5e7eb', fontSize: '12px', color: '#666' }}>
+            Click an action to go back (or forward) to just after it.
+          </div>
+          <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+            {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+              const isCurrent = index === history.index;
+              const isUndone = index > history.index;
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => onJump(index)}
+                    disabled={isCurrent}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      gap: '1rem',
+                      width: '100%',
+                      padding: '0.5rem 1rem',
+                      border: 'none',
+                      borderLeft: `3px solid ${isCurrent ? '#4F8EF7' : 'transparent'}`,
+                      background: isCurrent ? '#e0e7ff' : 'transparent',
+                      color: isUndone ? '#9ca3af' : '#000',
+                      fontStyle: isUndone ? 'italic' : 'normal',
+                      fontWeight: isCurrent ? 'bold' : 'normal',
+                      textAlign: 'left',
+                      cursor: isCurrent ? 'default' : 'pointer',
+                      fontSize: '14px'
+                    }}
+                  >
+                    <span>{entry.label}</span>
+                    <span style={{ color: '#9ca3af', fontSize: '12px', whiteSpace: 'nowrap' }}>
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import type { PoolData, TimeOff } from './types';
+import TimeOffEditor from './TimeOffEditor';
+import { parseDateKey, toDateKey } from './workDays';
+
+interface HolidayCalendarProps {
+  holidays: TimeOff[];
+  pools: PoolData[];
+  onChange: (holidays: TimeOff[]) => void;
+}
+
+function formatRange(range: TimeOff) {
+  const start = parseDateKey(range.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  if (range.endDate === range.startDate) return start;
+  return `${start} – ${parseDateKey(range.endDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+}
+
+// Company holidays for the open workspace, with the pool and personal time off set in each pool
+const HolidayCalendar: React.FC<HolidayCalendarProps> = ({ holidays, pools, onChange }) => {
+  const today = toDateKey(new Date());
+  const upcomingTimeOff = pools.flatMap(pool => [
+    ...(pool.timeOff || []).map(range => ({ who: pool.name, range })),
+    ...(pool.members || []).flatMap(member => (member.timeOff || []).map(range => ({ who: `${member.name} (${pool.name})`, range })))
+  ])
+    .filter(({ range }) => range.endDate >= today)
+    .sort((a, b) => a.range.startDate.localeCompare(b.range.startDate));
+
+  return (
+    <div style={{
+      padding: '2rem',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '1rem',
+      alignItems: 'flex-start',
+      maxWidth: 560,
+      width: '100%',
+      background: '#f8f9fa',
+      borderRadius: '8px',
+      border: '1px solid #e9ecef',
+      color: '#000'
+    }}>
+      <h2 style={{ margin: 0 }}>Company Holidays</h2>
+      <div style={{ fontSize: '13px', color: '#666' }}>
+        No pool works on these days. Pool capacity shrinks in the weeks they fall in, recalculated target dates skip them, and the Gantt chart shades them.
+      </div>
+      <TimeOffEditor ranges={holidays} onChange={onChange} namePlaceholder="e.g. New Year's Day" />
+
+      <h3 style={{ margin: '1rem 0 0 0', fontSize: '16px' }}>Upcoming Time Off</h3>
+      {upcomingTimeOff.length === 0 ? (
+        <div style={{ fontSize: '13px', color: '#666' }}>
+          No pool or personal time off coming up. Add it in a pool's form, under Pool Time Off or a member's Time off.
+        </div>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: '13px' }}>
+          {upcomingTimeOff.map(({ who, range }) => (
+            <li key={`${who}-${range.id}`} style={{ padding: '0.25rem 0' }}>
+              <strong>{who}</strong>: {range.name} <span style={{ color: '#666' }}>{formatRange(range)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HolidayCalendar;
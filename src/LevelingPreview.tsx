@@ -0,0 +1,164 @@
+import React from 'react';
+import { levelingStrategies, levelingStrategyLabels, type LevelingPlan, type LevelingStrategy } from './leveling';
+import { parseDateKey } from './workDays';
+
+interface LevelingPreviewProps {
+  poolName: string;
+  weekCount: number; // Over-allocated weeks being leveled
+  strategy: LevelingStrategy;
+  plan: LevelingPlan;
+  onStrategyChange: (strategy: LevelingStrategy) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem',
+  fontSize: '14px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+};
+
+function formatDate(date: string) {
+  return date ? parseDateKey(date).toLocaleDateString() : '—';
+}
+
+function formatWeek(weekStart: string | Date) {
+  return (typeof weekStart === 'string' ? parseDateKey(weekStart) : weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+const DateChange: React.FC<{ from: string; to: string }> = ({ from, to }) => (
+  from === to ? (
+    <span style={{ color: '#666' }}>{formatDate(from)}</span>
+  ) : (
+    <span>
+      <span style={{ color: '#666', textDecoration: 'line-through' }}>{formatDate(from)}</span>
+      {' → '}
+      <strong style={{ color: '#b45309' }}>{formatDate(to)}</strong>
+    </span>
+  )
+);
+
+const LevelingPreview: React.FC<LevelingPreviewProps> = ({ poolName, weekCount, strategy, plan, onStrategyChange, onApply, onCancel }) => {
+  const { changes, unresolvedWeeks } = plan;
+  const lockedIds = new Set(plan.projects.filter(p => p.lockedDates).map(p => p.id));
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(0, 0, 0, 0.4)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 2000
+    }}>
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '1.5rem',
+        width: 'min(820px, 92vw)',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 4px 24px #0003',
+        color: '#000'
+      }}>
+        <h3 style={{ margin: '0 0 0.5rem 0' }}>⚖️ Level {poolName}</h3>
+        <p style={{ margin: '0 0 1rem 0', fontSize: '14px', color: '#444' }}>
+          {poolName} is over-allocated in {weekCount} week{weekCount === 1 ? '' : 's'}. Higher-priority items keep their place; the changes below
+          make room for them. Items with locked dates, or that have already started, are never moved.
+        </p>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '14px', marginBottom: '1rem' }}>
+          <strong>Resolve by:</strong>
+          <select
+            value={strategy}
+            onChange={e => onStrategyChange(e.target.value as LevelingStrategy)}
+            style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px' }}
+          >
+            {levelingStrategies.map(option => (
+              <option key={option} value={option}>{levelingStrategyLabels[option]}</option>
+            ))}
+          </select>
+        </label>
+
+        {changes.length === 0 ? (
+          <div style={{ fontSize: '14px', color: '#666', padding: '1rem', border: '1px solid #e5e7eb', borderRadius: '6px' }}>
+            No changes found. Try another way to resolve it, or unlock some dates.
+          </div>
+        ) : (
+          <div style={{ overflowY: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+              <thead>
+                <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                  <th style={{ padding: '0.5rem' }}>Item</th>
+                  <th style={{ padding: '0.5rem' }}>Priority</th>
+                  <th style={{ padding: '0.5rem' }}>Start</th>
+                  <th style={{ padding: '0.5rem' }}>Target</th>
+                  <th style={{ padding: '0.5rem' }}>Allocation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={change.projectId} style={{ borderTop: '1px solid #f3f4f6', verticalAlign: 'top' }}>
+                    <td style={{ padding: '0.5rem', fontWeight: 'bold' }}>
+                      {change.projectName}
+                      {lockedIds.has(change.projectId) && <span title="Dates locked"> 🔒</span>}
+                    </td>
+                    <td style={{ padding: '0.5rem', color: '#666' }}>{change.priority ?? '—'}</td>
+                    <td style={{ padding: '0.5rem' }}><DateChange from={change.oldStartDate} to={change.newStartDate} /></td>
+                    <td style={{ padding: '0.5rem' }}><DateChange from={change.oldTargetDate} to={change.newTargetDate} /></td>
+                    <td style={{ padding: '0.5rem' }}>
+                      {change.allocationChanges.length === 0 ? (
+                        <span style={{ color: '#666' }}>Unchanged</span>
+                      ) : (
+                        <>
+                          {change.allocationChanges.map(allocation => (
+                            <div key={allocation.weekStart}>
+                              Week of {formatWeek(allocation.weekStart)}:{' '}
+                              <span style={{ color: '#666', textDecoration: 'line-through' }}>{allocation.oldAllocation}%</span>
+                              {' → '}
+                              <strong style={{ color: '#b45309' }}>{allocation.newAllocation}%</strong>
+                            </div>
+                          ))}
+                          <div style={{ fontSize: '12px', color: '#dc2626' }}>
+                            {Math.round(change.hoursRemoved * 10) / 10}h no longer scheduled
+                          </div>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {unresolvedWeeks.length > 0 && (
+          <div style={{ marginTop: '0.75rem', fontSize: '13px', color: '#dc2626' }}>
+            ⚠️ Still over-allocated in the week{unresolvedWeeks.length === 1 ? '' : 's'} of {unresolvedWeeks.map(formatWeek).join(', ')}.
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onCancel}
+            style={{ ...buttonStyle, border: '1px solid #ccc', background: 'white', color: '#000' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onApply}
+            disabled={changes.length === 0}
+            style={{ ...buttonStyle, border: '1px solid #10b981', background: '#10b981', color: 'white', opacity: changes.length === 0 ? 0.5 : 1 }}
+          >
+            Apply Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelingPreview;
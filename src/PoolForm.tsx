@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import type { PoolData } from './types';
+import type { PoolData, PoolMember, PoolCapacityPeriod } from './types';
+import { generateId } from './ids';
+import TimeOffEditor from './TimeOffEditor';
 
 interface PoolFormProps {
   initialData?: PoolData;
@@ -7,6 +9,7 @@ interface PoolFormProps {
 }
 
 const initialForm: Omit<PoolData, 'lastModified'> = {
+  id: '',
   name: '',
   weeklyHours: 40,
   standardWeekHours: 40,
@@ -76,9 +79,20 @@ const formStyles = {
   }
 };
 
+// A pool with members has their combined hours
+function getMemberTotals(members: PoolMember[]) {
+  return {
+    weeklyHours: members.reduce((sum, m) => sum + (Number(m.weeklyHours) || 0), 0),
+    supportHours: members.reduce((sum, m) => sum + (Number(m.supportHours) || 0), 0),
+    meetingHours: members.reduce((sum, m) => sum + (Number(m.meetingHours) || 0), 0)
+  };
+}
+
 const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
   const [form, setForm] = useState<PoolData>(initialForm);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [timeOffMemberId, setTimeOffMemberId] = useState<string | null>(null); // Member whose time off is open
+  const [confirmingDropPeriods, setConfirmingDropPeriods] = useState(false); // Saving would remove the capacity changes
 
   useEffect(() => {
     if (initialData) {
@@ -86,6 +100,7 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
     } else {
       setForm(initialForm);
     }
+    setConfirmingDropPeriods(false);
   }, [initialData]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -96,9 +111,74 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
     }));
   };
 
+  const members = form.members || [];
+  const hasMembers = members.length > 0;
+  const memberTotals = getMemberTotals(members);
+
+  const handleMemberChange = (memberId: string, changes: Partial<PoolMember>) => {
+    setForm(prev => ({ ...prev, members: (prev.members || []).map(m => (m.id === memberId ? { ...m, ...changes } : m)) }));
+  };
+
+  const capacityPeriods = form.capacityPeriods || [];
+  // Members' own hours and dates replace capacity changes, so saving with members drops them
+  const dropsPeriods = hasMembers && capacityPeriods.length > 0;
+
+  const handlePeriodChange = (periodId: string, changes: Partial<PoolCapacityPeriod>) => {
+    setForm(prev => ({ ...prev, capacityPeriods: (prev.capacityPeriods || []).map(p => (p.id === periodId ? { ...p, ...changes } : p)) }));
+  };
+
+  // A new period starts from the latest hours, so only what changes needs typing
+  const handleAddPeriod = () => {
+    setForm(prev => {
+      const periods = prev.capacityPeriods || [];
+      const latest = periods.length > 0 ? periods[periods.length - 1] : prev;
+      return {
+        ...prev,
+        capacityPeriods: [...periods, {
+          id: generateId(),
+          startDate: '',
+          weeklyHours: latest.weeklyHours,
+          supportHours: latest.supportHours || 0,
+          meetingHours: latest.meetingHours || 0
+        }]
+      };
+    });
+  };
+
+  const handleRemovePeriod = (periodId: string) => {
+    setForm(prev => {
+      const remaining = (prev.capacityPeriods || []).filter(p => p.id !== periodId);
+      return { ...prev, capacityPeriods: remaining.length > 0 ? remaining : undefined };
+    });
+  };
+
+  const handleAddMember = () => {
+    setForm(prev => ({
+      ...prev,
+      members: [...(prev.members || []), { id: generateId(), name: '', role: '', weeklyHours: 40, supportHours: 0, meetingHours: 0 }]
+    }));
+  };
+
+  // Assignments to a removed member are ignored from then on
+  const handleRemoveMember = (memberId: string) => {
+    setForm(prev => {
+      const remaining = (prev.members || []).filter(m => m.id !== memberId);
+      return { ...prev, members: remaining.length > 0 ? remaining : undefined };
+    });
+  };
+
   const validate = () => {
     const newErrors: { [key: string]: string } = {};
     if (!form.name) newErrors.name = 'Pool name is required';
+    if (hasMembers) {
+      members.forEach(m => {
+        if (!m.name.trim()) newErrors.members = 'Every member needs a name';
+        else if (!m.weeklyHours || m.weeklyHours <= 0) newErrors.members = `${m.name}'s weekly hours must be greater than 0`;
+        else if ((m.supportHours || 0) + (m.meetingHours || 0) > m.weeklyHours) newErrors.members = `${m.name}'s support + meeting hours cannot exceed their weekly hours`;
+        else if (m.startDate && m.endDate && m.endDate < m.startDate) newErrors.members = `${m.name} can't leave before joining`;
+      });
+      return newErrors;
+    }
     if (!form.weeklyHours || form.weeklyHours <= 0) newErrors.weeklyHours = 'Weekly hours must be greater than 0';
     
     // Validate that reserved hours don't exceed total weekly hours
@@ -107,6 +187,13 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
       newErrors.supportHours = 'Support + Meeting hours cannot exceed weekly hours';
       newErrors.meetingHours = 'Support + Meeting hours cannot exceed weekly hours';
     }
+
+    (hasMembers ? [] : capacityPeriods).forEach(period => {
+      if (!period.startDate) newErrors.capacityPeriods = 'Every capacity change needs a start date';
+      else if (capacityPeriods.some(p => p !== period && p.startDate === period.startDate)) newErrors.capacityPeriods = `Two capacity changes start on ${period.startDate}`;
+      else if (!period.weeklyHours || period.weeklyHours <= 0) newErrors.capacityPeriods = `Weekly hours from ${period.startDate} must be greater than 0`;
+      else if ((period.supportHours || 0) + (period.meetingHours || 0) > period.weeklyHours) newErrors.capacityPeriods = `Support + meeting hours from ${period.startDate} cannot exceed weekly hours`;
+    });
     
     return newErrors;
   };
@@ -116,7 +203,16 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
     const validationErrors = validate();
     setErrors(validationErrors);
     if (Object.keys(validationErrors).length === 0) {
-      if (onSave) onSave(form);
+      if (dropsPeriods && !confirmingDropPeriods) {
+        setConfirmingDropPeriods(true);
+        return;
+      }
+      setConfirmingDropPeriods(false);
+      if (onSave) {
+        onSave(hasMembers
+          ? { ...form, ...memberTotals, capacityPeriods: undefined }
+          : { ...form, capacityPeriods: form.capacityPeriods && [...form.capacityPeriods].sort((a, b) => a.startDate.localeCompare(b.startDate)) });
+      }
       setForm(initialForm);
     }
   };
@@ -146,7 +242,19 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
         <label style={formStyles.label}>
           Weekly Hours*
         </label>
-        <input type="number" name="weeklyHours" value={form.weeklyHours} onChange={handleChange} min={1} max={168} required style={formStyles.inputShort} />
+        <input
+          type="number"
+          name="weeklyHours"
+          value={hasMembers ? memberTotals.weeklyHours : form.weeklyHours}
+          onChange={handleChange}
+          min={1}
+          max={hasMembers ? undefined : 168}
+          required
+          disabled={hasMembers}
+          style={formStyles.inputShort}
+        />
+        {hasMembers && <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>Total of the members' hours</small>}
+        {!hasMembers && capacityPeriods.length > 0 && <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>Until the first capacity change below</small>}
         {errors.weeklyHours && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.weeklyHours}</span>}
       </div>
 
@@ -176,17 +284,194 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
         <label style={formStyles.label}>
           Support Hours
         </label>
-        <input type="number" name="supportHours" value={form.supportHours} onChange={handleChange} min={0} style={formStyles.inputShort} />
+        <input type="number" name="supportHours" value={hasMembers ? memberTotals.supportHours : form.supportHours} onChange={handleChange} min={0} disabled={hasMembers} style={formStyles.inputShort} />
         {errors.supportHours && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.supportHours}</span>}
       </div>
       <div>
         <label style={formStyles.label}>
           Meeting Hours (Reserved)
         </label>
-        <input type="number" name="meetingHours" value={form.meetingHours} onChange={handleChange} min={0} style={formStyles.inputShort} />
+        <input type="number" name="meetingHours" value={hasMembers ? memberTotals.meetingHours : form.meetingHours} onChange={handleChange} min={0} disabled={hasMembers} style={formStyles.inputShort} />
         <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>Hours reserved for weekly meetings</small>
         {errors.meetingHours && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.meetingHours}</span>}
       </div>
+
+      {/* Members */}
+      <div style={{ width: '100%' }}>
+        <label style={formStyles.label}>
+          Members
+        </label>
+        <small style={{ color: '#666', fontSize: '12px', marginBottom: '0.5rem', display: 'block' }}>
+          Optional. Add the people in this pool to see each person's utilization and assign them to projects. The pool's hours become the total of theirs. Leave Joins and Leaves empty for people who are staying.
+        </small>
+        {members.map(member => (
+          <div key={member.id} style={{ padding: '0.5rem', marginBottom: '0.5rem', background: 'white', border: '1px solid #e5e7eb', borderRadius: '4px' }}>
+            <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+              <input
+                aria-label="Member name"
+                placeholder="Name"
+                value={member.name}
+                onChange={e => handleMemberChange(member.id, { name: e.target.value })}
+                style={formStyles.input}
+              />
+              <input
+                aria-label="Member role"
+                placeholder="Role (optional)"
+                value={member.role || ''}
+                onChange={e => handleMemberChange(member.id, { role: e.target.value })}
+                style={formStyles.input}
+              />
+              <button
+                type="button"
+                onClick={() => handleRemoveMember(member.id)}
+                title="Remove this member"
+                style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '16px', padding: '0 0.25rem' }}
+              >
+                ×
+              </button>
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem', fontSize: '12px', color: '#374151' }}>
+              {([
+                ['weeklyHours', 'Weekly h'],
+                ['supportHours', 'Support h'],
+                ['meetingHours', 'Meeting h']
+              ] as const).map(([field, label]) => (
+                <label key={field} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={168}
+                    value={member[field]}
+                    onChange={e => handleMemberChange(member.id, { [field]: Number(e.target.value) })}
+                    style={{ ...formStyles.inputShort, width: '80px' }}
+                  />
+                </label>
+              ))}
+            </div>
+            <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem', fontSize: '12px', color: '#374151' }}>
+              {([
+                ['startDate', 'Joins'],
+                ['endDate', 'Leaves']
+              ] as const).map(([field, label]) => (
+                <label key={field} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                  {label}
+                  <input
+                    type="date"
+                    value={member[field] || ''}
+                    onChange={e => handleMemberChange(member.id, { [field]: e.target.value || undefined })}
+                    style={{ ...formStyles.inputShort, width: '140px' }}
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setTimeOffMemberId(timeOffMemberId === member.id ? null : member.id)}
+              style={{ marginTop: '0.5rem', background: 'none', border: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '12px', padding: 0 }}
+            >
+              {timeOffMemberId === member.id ? '▾' : '▸'} Time off ({member.timeOff?.length || 0})
+            </button>
+            {timeOffMemberId === member.id && (
+              <div style={{ marginTop: '0.5rem' }}>
+                <TimeOffEditor
+                  ranges={member.timeOff || []}
+                  onChange={timeOff => handleMemberChange(member.id, { timeOff: timeOff.length > 0 ? timeOff : undefined })}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+        {errors.members && <span style={{ color: 'red', fontSize: '12px', marginBottom: '0.5rem', display: 'block' }}>{errors.members}</span>}
+        <button type="button" onClick={handleAddMember}>
+          + Add Member
+        </button>
+      </div>
+
+      {/* Capacity Changes: with members, people joining and leaving do this instead */}
+      {dropsPeriods && (
+        <div style={{ width: '100%', padding: '0.5rem', background: '#fef3c7', border: '1px solid #f59e0b', borderRadius: '4px', fontSize: '13px', color: '#000' }}>
+          ⚠️ This pool has {capacityPeriods.length} capacity change{capacityPeriods.length === 1 ? '' : 's'}. Members' own hours and
+          join and leave dates replace them, so saving removes {capacityPeriods.length === 1 ? 'it' : 'them'}. Remove the members to keep them.
+        </div>
+      )}
+      {!hasMembers && (
+        <div style={{ width: '100%' }}>
+          <label style={formStyles.label}>
+            Capacity Changes
+          </label>
+          <small style={{ color: '#666', fontSize: '12px', marginBottom: '0.5rem', display: 'block' }}>
+            Optional. The pool's hours from a date on, e.g. after a hire or when a contractor leaves. Each change lasts until the next one.
+          </small>
+          {capacityPeriods.map(period => (
+            <div key={period.id} style={{ padding: '0.5rem', marginBottom: '0.5rem', background: 'white', border: '1px solid #e5e7eb', borderRadius: '4px' }}>
+              <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem', alignItems: 'center' }}>
+                <input
+                  type="date"
+                  aria-label="From"
+                  value={period.startDate}
+                  onChange={e => handlePeriodChange(period.id, { startDate: e.target.value })}
+                  style={{ ...formStyles.inputShort, width: '150px' }}
+                />
+                <input
+                  aria-label="Note"
+                  placeholder="Note, e.g. New hire"
+                  value={period.note || ''}
+                  onChange={e => handlePeriodChange(period.id, { note: e.target.value || undefined })}
+                  style={formStyles.input}
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemovePeriod(period.id)}
+                  title="Remove this capacity change"
+                  style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '16px', padding: '0 0.25rem' }}
+                >
+                  ×
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', fontSize: '12px', color: '#374151' }}>
+                {([
+                  ['weeklyHours', 'Weekly h'],
+                  ['supportHours', 'Support h'],
+                  ['meetingHours', 'Meeting h']
+                ] as const).map(([field, label]) => (
+                  <label key={field} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                    {label}
+                    <input
+                      type="number"
+                      min={0}
+                      max={168}
+                      value={period[field]}
+                      onChange={e => handlePeriodChange(period.id, { [field]: Number(e.target.value) })}
+                      style={{ ...formStyles.inputShort, width: '80px' }}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {errors.capacityPeriods && <span style={{ color: 'red', fontSize: '12px', marginBottom: '0.5rem', display: 'block' }}>{errors.capacityPeriods}</span>}
+          <button type="button" onClick={handleAddPeriod}>
+            + Add Capacity Change
+          </button>
+        </div>
+      )}
+
+      {/* Pool Time Off */}
+      <div style={{ width: '100%' }}>
+        <label style={formStyles.label}>
+          Pool Time Off
+        </label>
+        <small style={{ color: '#666', fontSize: '12px', marginBottom: '0.5rem', display: 'block' }}>
+          Days the whole pool is off, on top of company holidays. The pool's hours shrink in those weeks and its projects' recalculated dates skip them.
+        </small>
+        <TimeOffEditor
+          ranges={form.timeOff || []}
+          onChange={timeOff => setForm(prev => ({ ...prev, timeOff: timeOff.length > 0 ? timeOff : undefined }))}
+          namePlaceholder="e.g. Team offsite"
+        />
+      </div>
+
       <div>
         <label style={formStyles.label}>
           Description
@@ -199,7 +484,18 @@ const PoolForm: React.FC<PoolFormProps> = ({ initialData, onSave }) => {
         </label>
         <input type="color" name="color" value={form.color} onChange={handleChange} style={{ width: 40, height: 28, padding: 0, border: 'none', background: 'none' }} />
       </div>
-      <button type="submit">{initialData ? 'Update Pool' : 'Save Pool'}</button>
+      {dropsPeriods && confirmingDropPeriods ? (
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <button type="submit" style={{ background: '#dc2626', color: 'white', borderColor: '#dc2626' }}>
+            Remove Capacity Changes and Save
+          </button>
+          <button type="button" onClick={() => setConfirmingDropPeriods(false)}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button type="submit">{initialData ? 'Update Pool' : 'Save Pool'}</button>
+      )}
     </form>
   );
 };
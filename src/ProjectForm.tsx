@@ -1,5 +1,13 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import type { ProjectFormData, PoolData } from './types';
+import type { ProjectFormData, PoolData, DependencyType, TimeOff } from './types';
+import { countWorkDays, parseDateKey, toDateKey } from './workDays';
+import { getPoolDaysOff, getOverlappingTimeOff } from './calendar';
+import { calculateWorkDaysNeeded, calculateStartDate, calculateTargetDate } from './scheduling';
+import { dependencyTypeLabels, checkDependency, wouldCreateCycle } from './dependencies';
+import { isMilestone, isPhase, toMilestone, getPhasesByParent } from './items';
+import { preprocessProjects, getActiveProjectsInWeek, getWeeklyAllocation, getAllocatedHours, getPeakPoolUtilization, getPeakMemberUtilizations } from './utilization';
+import { getActualHours, getProgress, getRemainingHours, isProgressFromActuals } from './actuals';
+import TimesheetGrid from './TimesheetGrid';
 
 interface ProjectFormProps {
   initialData?: ProjectFormData;
@@ -7,12 +15,18 @@ interface ProjectFormProps {
   onCancel?: () => void;
   pools: PoolData[];
   projects?: ProjectFormData[]; // Add projects to calculate over-allocation
+  remoteVersion?: ProjectFormData | null; // Set when another tab changed (or, null, deleted) this project while it's open
+  onLoadRemoteVersion?: () => void; // Discard the edits here and show the other tab's version
+  holidays?: TimeOff[]; // Company holidays, skipped when recalculating dates
 }
 
+const noHolidays: TimeOff[] = [];
+
 const initialForm: ProjectFormData = {
+  id: '',
   name: '',
   sponsor: '',
-  pool: '',
+  poolId: '',
   startDate: '',
   targetDate: '',
   estimatedHours: 0,
@@ -137,71 +151,72 @@ const formStyles = {
   }
 };
 
-const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel, pools, projects }) => {
+const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel, pools, projects, remoteVersion, onLoadRemoteVersion, holidays = noHolidays }) => {
   const [form, setForm] = useState<ProjectFormData>(initialForm);
+  const [keepingOwnEdits, setKeepingOwnEdits] = useState(false); // Remote change seen, notice collapsed
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [selectedWeekForAllocation, setSelectedWeekForAllocation] = useState<string>('');
   const [weeklyAllocationInput, setWeeklyAllocationInput] = useState<string>('');
+  const [dependencyPredecessorId, setDependencyPredecessorId] = useState<string>('');
+  const [dependencyType, setDependencyType] = useState<DependencyType>('FS');
+  const [dependencyLag, setDependencyLag] = useState<string>('0');
 
-  // Helper function to get the correct allocation for a specific week
-  const getWeeklyAllocation = (project: ProjectFormData, weekStart: Date): number => {
-    const weekKey = weekStart.toISOString().split('T')[0];
-    if (project.weeklyAllocations && project.weeklyAllocations[weekKey] !== undefined) {
-      return project.weeklyAllocations[weekKey];
-    }
-    return project.weeklyAllocation || 0;
-  };
+  const selectedPool = useMemo(() => pools.find(p => p.id === form.poolId), [pools, form.poolId]);
+  const daysOff = useMemo(() => getPoolDaysOff(selectedPool, holidays), [selectedPool, holidays]);
+  const daysOffInDates = form.startDate && form.targetDate ? getOverlappingTimeOff(daysOff, form.startDate, form.targetDate) : [];
+  const milestone = isMilestone(form);
+  const phase = isPhase(form);
 
-  const selectedPool = useMemo(() => pools.find(p => p.name === form.pool), [pools, form.pool]);
+  // Projects a milestone can be drawn on (milestones can't host other milestones)
+  const parentOptions = useMemo(() => (projects || []).filter(p => p.id !== form.id && !isMilestone(p)), [projects, form.id]);
+  // Projects a phase can belong to: only top-level projects, so phases don't nest
+  const phaseParentOptions = useMemo(() => (projects || []).filter(p => p.id !== form.id && !isMilestone(p) && !isPhase(p)), [projects, form.id]);
+  const phasesByParent = useMemo(() => getPhasesByParent(projects || []), [projects]);
+  // Phases of this project; its dates, hours and progress roll up from them
+  const ownPhases = phasesByParent.get(form.id) || [];
 
   // Calculate over-allocation warnings
   const getOverAllocationWarning = () => {
-    if (!form.pool || !form.weeklyAllocation || form.weeklyAllocation <= 0) return null;
+    if (!form.poolId || !form.weeklyAllocation || form.weeklyAllocation <= 0) return null;
     
     if (!selectedPool) return null;
 
     // Only apply over-allocation logic to Development or Testing status projects
     if (form.status !== 'Development' && form.status !== 'Testing') return null;
 
-    // Calculate what the project would contribute to pool utilization
-    const projectHoursPerWeek = (form.weeklyAllocation / 100) * (selectedPool.standardWeekHours || 40);
-    
-    // Calculate current pool utilization from other projects (excluding this project if editing)
-    const otherProjectsInPool = (projects || []).filter((p: ProjectFormData) => 
-      p.pool === form.pool && 
-      p.name !== form.name && // Exclude current project if editing
-      p.status !== 'Complete' && // Exclude completed projects
-      (p.weeklyAllocation || 0) > 0
-    );
-    
-    const otherProjectsHours = otherProjectsInPool.reduce((total: number, p: ProjectFormData) => {
-      return total + (((p.weeklyAllocation || 0) / 100) * (selectedPool.standardWeekHours || 40));
-    }, 0);
-    
-    // Calculate total allocation if this project is added/updated
-    const totalAllocation = otherProjectsHours + projectHoursPerWeek;
-    
-    // Calculate available hours in the pool
-    const reservedHours = (selectedPool.supportHours || 0) + (selectedPool.meetingHours || 0);
-    const availableHours = selectedPool.weeklyHours - reservedHours;
+    // Pool utilization with this project as entered, in its busiest week (the current week
+    // while it has no dates yet)
+    const today = toDateKey(new Date());
+    const startDate = form.startDate || today;
+    const targetDate = form.targetDate || startDate;
+    const draftProjects = [...(projects || []).filter(p => p.id !== form.id), form];
+    const peak = getPeakPoolUtilization(draftProjects, selectedPool, startDate, targetDate, holidays);
+    if (!peak) return null;
+
+    const peakWeekEnd = new Date(peak.weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const otherProjectsInPool = getActiveProjectsInWeek(preprocessProjects(draftProjects), peak.weekStart, peakWeekEnd)
+      .filter(p => p.poolId === form.poolId && p.id !== form.id);
+    const projectHoursPerWeek = getAllocatedHours(getWeeklyAllocation(form, peak.weekStart), selectedPool);
+    const totalAllocation = peak.totalAllocated;
+    const availableHours = peak.availableHours;
+    const weekLabel = peak.weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
     
     // Check if this project would cause over-allocation
-    if (totalAllocation > availableHours) {
+    if (peak.isOverAllocated) {
       return {
         severity: 'high',
         message: `⚠️ This project would cause OVER-ALLOCATION in the pool!`,
-        details: `Total allocation: ${totalAllocation.toFixed(1)}h/week, Available: ${availableHours.toFixed(1)}h/week. This project adds ${projectHoursPerWeek.toFixed(1)}h/week.`,
+        details: `Week of ${weekLabel}: total allocation ${totalAllocation.toFixed(1)}h/week, Available: ${availableHours.toFixed(1)}h/week. This project adds ${projectHoursPerWeek.toFixed(1)}h/week.`,
         currentProjects: otherProjectsInPool.length
       };
     }
     
     // Warning for high allocation
-    const utilizationPercent = (totalAllocation / availableHours) * 100;
-    if (utilizationPercent > 80) {
+    if (peak.utilization > 80) {
       return {
         severity: 'medium',
-        message: `⚠️ This project would use ${utilizationPercent.toFixed(1)}% of available pool hours.`,
-        details: `Total allocation: ${totalAllocation.toFixed(1)}h/week, Available: ${availableHours.toFixed(1)}h/week. Consider reducing allocation.`,
+        message: `⚠️ This project would use ${peak.utilization.toFixed(1)}% of available pool hours.`,
+        details: `Week of ${weekLabel}: total allocation ${totalAllocation.toFixed(1)}h/week, Available: ${availableHours.toFixed(1)}h/week. Consider reducing allocation.`,
         currentProjects: otherProjectsInPool.length
       };
     }
@@ -209,7 +224,33 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     return null;
   };
 
-  const overAllocationWarning = useMemo(() => getOverAllocationWarning(), [form.pool, form.weeklyAllocation, form.estimatedHours, form.name, projects, pools]);
+  const overAllocationWarning = useMemo(() => getOverAllocationWarning(), [form, projects, selectedPool, holidays]);
+
+  // People assigned here who would be over their hours in their busiest week
+  const overAllocatedAssignees = useMemo(() => {
+    if (!selectedPool || !form.assignments || form.assignments.length === 0) return [];
+    if (form.status !== 'Development' && form.status !== 'Testing') return [];
+    const today = toDateKey(new Date());
+    const startDate = form.startDate || today;
+    const draftProjects = [...(projects || []).filter(p => p.id !== form.id), form];
+    return getPeakMemberUtilizations(draftProjects, selectedPool, startDate, form.targetDate || startDate, holidays)
+      .filter(member => member.isOverAllocated && form.assignments!.some(a => a.memberId === member.memberId));
+  }, [form, projects, selectedPool, holidays]);
+
+  const poolMembers = selectedPool?.members || [];
+  const unassignedMembers = poolMembers.filter(m => !(form.assignments || []).some(a => a.memberId === m.id));
+  const assignedAllocation = (form.assignments || []).reduce((sum, a) => sum + (a.allocation || 0), 0);
+
+  // Assign a member, change their allocation, or (null) unassign them
+  const handleAssignmentChange = (memberId: string, allocation: number | null) => {
+    const current = form.assignments || [];
+    const assignments = allocation === null
+      ? current.filter(a => a.memberId !== memberId)
+      : current.some(a => a.memberId === memberId)
+        ? current.map(a => (a.memberId === memberId ? { ...a, allocation } : a))
+        : [...current, { memberId, allocation }];
+    setForm({ ...form, assignments: assignments.length > 0 ? assignments : undefined });
+  };
 
   // Calculate dynamic duration based on estimated hours and weekly allocation
   const calculatedDuration = useMemo(() => {
@@ -224,7 +265,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
     
     // Calculate work days needed (assuming 5 work days per week)
-    const workDaysNeeded = Math.ceil(weeksNeeded * 5);
+    const workDaysNeeded = calculateWorkDaysNeeded(form.estimatedHours, form.weeklyAllocation, standardWeekHours) ?? 0;
     
     // Calculate calendar weeks (rounded up for planning purposes)
     const calendarWeeksNeeded = Math.ceil(weeksNeeded);
@@ -236,7 +277,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
       hoursPerWeek: availableHoursPerWeek,
       estimatedWeeks: weeksNeeded.toFixed(1)
     };
-  }, [form.estimatedHours, form.weeklyAllocation, form.pool, pools]);
+  }, [form.estimatedHours, form.weeklyAllocation, form.poolId, pools]);
 
   useEffect(() => {
     if (initialData) {
@@ -260,46 +301,35 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
       [name]: name === 'estimatedHours' || name === 'progress' || name === 'weeklyAllocation' ? Number(value) : value,
     };
 
+    // Switching item type: milestones drop hours, allocation and the second date;
+    // only phases and milestones have a parent
+    if (name === 'itemType') {
+      setForm(value === 'milestone' ? toMilestone(newForm) : { ...newForm, parentId: value === 'phase' ? form.parentId : undefined });
+      return;
+    }
+
+    // A new phase defaults to its project's pool
+    if (name === 'parentId' && phase && !form.poolId) {
+      newForm.poolId = (projects || []).find(p => p.id === value)?.poolId || '';
+    }
+
+    // Only members of the item's pool can be assigned to it
+    if (newForm.poolId !== form.poolId && form.assignments) {
+      const members = pools.find(p => p.id === newForm.poolId)?.members || [];
+      const assignments = form.assignments.filter(a => members.some(m => m.id === a.memberId));
+      newForm.assignments = assignments.length > 0 ? assignments : undefined;
+    }
+
     // Auto-populate logic for dates based on estimated hours (excluding weekends)
     if (name === 'startDate' && value && !form.targetDate && form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0) {
       // Calculate end date based on start date, estimated hours, and weekly allocation
-      const startDate = new Date(value);
-      const availableHoursPerWeek = ((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40);
-      
-      // Calculate weeks needed (can be fractional)
-      const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
-      
-      // Convert weeks to work days (assuming 5 work days per week)
-      const workDaysNeeded = Math.ceil(weeksNeeded * 5);
-      
-      const endDate = addWorkDays(startDate, workDaysNeeded);
-      newForm.targetDate = endDate.toISOString().split('T')[0];
+      newForm.targetDate = calculateTargetDate(value, form, selectedPool, holidays) || newForm.targetDate;
     } else if (name === 'targetDate' && value && !form.startDate && form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0) {
       // Calculate start date based on end date, estimated hours, and weekly allocation
-      const endDate = new Date(value);
-      const availableHoursPerWeek = ((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40);
-      
-      // Calculate weeks needed (can be fractional)
-      const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
-      
-      // Convert weeks to work days (assuming 5 work days per week)
-      const workDaysNeeded = Math.ceil(weeksNeeded * 5);
-      
-      const startDate = subtractWorkDays(endDate, workDaysNeeded);
-      newForm.startDate = startDate.toISOString().split('T')[0];
+      newForm.startDate = calculateStartDate(value, form, selectedPool, holidays) || newForm.startDate;
     } else if (name === 'weeklyAllocation' && form.startDate && form.estimatedHours > 0 && Number(value) > 0) {
       // Auto-recalculate target end date when weekly allocation changes
-      const startDate = new Date(form.startDate);
-      const availableHoursPerWeek = (Number(value) / 100) * (selectedPool?.standardWeekHours || 40);
-      
-      // Calculate weeks needed (can be fractional)
-      const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
-      
-      // Convert weeks to work days (assuming 5 work days per week)
-      const workDaysNeeded = Math.ceil(weeksNeeded * 5);
-      
-      const endDate = addWorkDays(startDate, workDaysNeeded);
-      newForm.targetDate = endDate.toISOString().split('T')[0];
+      newForm.targetDate = calculateTargetDate(form.startDate, newForm, selectedPool, holidays) || newForm.targetDate;
       newForm.autoRecalculated = true; // Flag to show recalculation note
     } else if (name === 'targetDate') {
       // Clear auto-recalculated flag when user manually changes target date
@@ -309,66 +339,6 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     setForm(newForm);
   };
 
-  // Helper function to add work days (excluding weekends)
-  const addWorkDays = (startDate: Date, workDays: number): Date => {
-    if (workDays <= 0) return new Date(startDate);
-    
-    const result = new Date(startDate);
-    let addedDays = 0;
-    const currentDate = new Date(startDate);
-    
-    while (addedDays < workDays) {
-      currentDate.setDate(currentDate.getDate() + 1);
-      // Skip weekends (Saturday = 6, Sunday = 0)
-      if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-        addedDays++;
-      }
-    }
-    
-    // Set the result to the final calculated date
-    result.setTime(currentDate.getTime());
-    return result;
-  };
-
-  // Helper function to subtract work days (excluding weekends)
-  const subtractWorkDays = (endDate: Date, workDays: number): Date => {
-    if (workDays <= 0) return new Date(endDate);
-    
-    const result = new Date(endDate);
-    let subtractedDays = 0;
-    const currentDate = new Date(endDate);
-    
-    while (subtractedDays < workDays) {
-      currentDate.setDate(currentDate.getDate() - 1);
-      // Skip weekends (Saturday = 6, Sunday = 0)
-      if (currentDate.getDay() !== 0 && currentDate.getDay() !== 6) {
-        subtractedDays++;
-      }
-    }
-    
-    // Set the result to the final calculated date
-    result.setTime(currentDate.getTime());
-    return result;
-  };
-
-  // Helper function to count work days between two dates
-  const countWorkDays = (startDate: Date, endDate: Date): number => {
-    if (startDate > endDate) return 0; // Invalid date range
-    
-    let workDays = 0;
-    const currentDate = new Date(startDate);
-    
-    while (currentDate <= endDate) {
-      // Only count weekdays (Monday = 1, Tuesday = 2, ..., Friday = 5)
-      if (currentDate.getDay() >= 1 && currentDate.getDay() <= 5) {
-        workDays++;
-      }
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-    
-    return workDays;
-  };
-
   // Helper function to get available weeks for allocation
   const getAvailableWeeks = () => {
     if (!form.startDate || !form.targetDate) return [];
@@ -396,6 +366,14 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     return weeks;
   };
 
+  // Timesheet columns: the item's weeks, plus any week hours were logged in outside them
+  const timesheetWeeks = [...new Set([
+    ...getAvailableWeeks().map(week => week.start.toISOString().split('T')[0]),
+    ...(form.actuals || []).map(entry => entry.weekStart)
+  ])].sort();
+  const actualHours = getActualHours(form);
+  const progressFromActuals = isProgressFromActuals(form);
+
   // Handle adding a weekly allocation
   // Pre-populate weekly allocation input when week is selected
   useEffect(() => {
@@ -439,10 +417,57 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     });
   };
 
+  // Projects that can be added as predecessors without creating a dependency loop.
+  // A phase and its project roll up into each other, so neither can wait on the other.
+  const availablePredecessors = useMemo(() => (projects || []).filter(p =>
+    p.id !== form.id &&
+    !(phase && p.id === form.parentId) &&
+    !(isPhase(p) && p.parentId === form.id) &&
+    !(form.dependencies || []).some(d => d.predecessorId === p.id) &&
+    !wouldCreateCycle(projects || [], form.id, p.id)
+  ), [projects, form.id, form.parentId, form.dependencies, phase]);
+
+  const handleAddDependency = () => {
+    if (!dependencyPredecessorId) return;
+    const lagDays = parseInt(dependencyLag, 10);
+
+    setForm(prev => ({
+      ...prev,
+      dependencies: [
+        ...(prev.dependencies || []),
+        { predecessorId: dependencyPredecessorId, type: dependencyType, lagDays: isNaN(lagDays) ? 0 : lagDays }
+      ]
+    }));
+
+    // Clear inputs
+    setDependencyPredecessorId('');
+    setDependencyType('FS');
+    setDependencyLag('0');
+  };
+
+  const handleRemoveDependency = (predecessorId: string) => {
+    setForm(prev => ({
+      ...prev,
+      dependencies: (prev.dependencies || []).filter(d => d.predecessorId !== predecessorId)
+    }));
+  };
+
+  // A milestone has a single date, kept in both startDate and targetDate
+  const handleMilestoneDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setForm(prev => ({ ...prev, startDate: value, targetDate: value }));
+  };
+
   const validate = () => {
     const newErrors: { [key: string]: string } = {};
+    if (milestone) {
+      if (!form.name) newErrors.name = 'Milestone name is required';
+      if (!form.startDate) newErrors.startDate = 'Milestone date is required';
+      return newErrors;
+    }
     if (!form.name) newErrors.name = 'Project name is required';
-    if (!form.pool) newErrors.pool = 'Project pool is required';
+    if (phase && !form.parentId) newErrors.parentId = 'A phase must belong to a project';
+    if (!form.poolId) newErrors.poolId = 'Project pool is required';
     if (!form.estimatedHours || form.estimatedHours <= 0) newErrors.estimatedHours = 'Estimated hours must be greater than 0';
     if (!form.weeklyAllocation || form.weeklyAllocation <= 0) newErrors.weeklyAllocation = 'Weekly allocation is required for date calculations';
     
@@ -470,8 +495,8 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
     const validationErrors = validate();
     setErrors(validationErrors);
     if (Object.keys(validationErrors).length === 0) {
+      // The parent closes the form once the save is committed; keep the edits until then
       if (onSave) onSave(form);
-      setForm(initialForm);
     }
   };
 
@@ -491,30 +516,109 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
       borderRadius: '8px',
       border: '1px solid #e9ecef'
     }}>
-      <h2 style={{ alignSelf: 'flex-start', color: '#000' }}>{initialData ? 'Edit Project' : 'Add New Project'}</h2>
+      <h2 style={{ alignSelf: 'flex-start', color: '#000' }}>{initialData ? 'Edit' : 'Add New'} {milestone ? 'Milestone' : phase ? 'Phase' : 'Project'}</h2>
+
+      {/* Another tab changed or deleted this project while it's open here */}
+      {remoteVersion !== undefined && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#fef3c7',
+          border: '1px solid #f59e0b',
+          borderRadius: '6px',
+          fontSize: '14px',
+          color: '#92400e',
+          width: '100%',
+          boxSizing: 'border-box'
+        }}>
+          {keepingOwnEdits ? (
+            <>Saving will overwrite the changes made in the other tab.</>
+          ) : (
+            <>
+              <strong>⚠️ {remoteVersion ? 'This item was changed in another tab.' : 'This item was deleted in another tab.'}</strong>
+              <div style={{ marginTop: '4px' }}>
+                {remoteVersion
+                  ? `Saved there ${remoteVersion.lastModified ? new Date(remoteVersion.lastModified).toLocaleTimeString() : 'just now'}. Load their version (your unsaved edits here are lost) or keep editing and overwrite it when you save.`
+                  : 'Saving here will add it back.'}
+              </div>
+              <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                {remoteVersion ? (
+                  <button type="button" onClick={onLoadRemoteVersion}>Load Their Version</button>
+                ) : (
+                  <button type="button" onClick={onCancel}>Close Form</button>
+                )}
+                <button type="button" onClick={() => setKeepingOwnEdits(true)}>Keep My Edits</button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div>
+        <label style={formStyles.label}>
+          Item Type
+        </label>
+        <select name="itemType" value={form.itemType || 'project'} onChange={handleChange} style={formStyles.selectMedium}>
+          <option value="project">Project</option>
+          <option value="phase" disabled={ownPhases.length > 0}>↳ Phase</option>
+          <option value="milestone" disabled={ownPhases.length > 0}>◆ Milestone</option>
+        </select>
+      </div>
+
+      {/* Parent project of a phase */}
+      {phase && (
+        <div>
+          <label style={formStyles.label}>
+            Parent Project*
+          </label>
+          <select name="parentId" value={form.parentId || ''} onChange={handleChange} style={formStyles.selectMedium}>
+            <option value="">Select a project...</option>
+            {phaseParentOptions.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {errors.parentId && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.parentId}</span>}
+        </div>
+      )}
+
+      {/* Roll-up note for projects with phases */}
+      {ownPhases.length > 0 && (
+        <div style={{ 
+          padding: '12px', 
+          backgroundColor: '#f0f9ff', 
+          borderRadius: '6px', 
+          fontSize: '13px', 
+          border: '1px solid #bae6fd',
+          color: '#0c4a6e',
+          width: '100%',
+          boxSizing: 'border-box'
+        }}>
+          <strong>Rolled up from {ownPhases.length} phase{ownPhases.length === 1 ? '' : 's'}:</strong> {ownPhases.map(p => p.name).join(', ')}.
+          The start, target date, hours and progress on the chart come from the phases, and their allocations count towards the pool instead of this project's.
+        </div>
+      )}
       
       {/* Project Name and Pool - Side by side */}
       <div style={{ display: 'flex', gap: '5rem', marginBottom: '1rem' }}>
         <div style={{ flex: '1' }}>
           <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
-            Project Name*
+            {milestone ? 'Milestone Name*' : 'Project Name*'}
           </label>
           <input name="name" value={form.name} onChange={handleChange} required style={formStyles.input} />
           {errors.name && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.name}</span>}
         </div>
         <div style={{ flex: '1' }}>
           <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
-            Project Pool*
+            {milestone ? 'Project Pool' : 'Project Pool*'}
           </label>
-          <select name="pool" value={form.pool} onChange={handleChange} required style={formStyles.select}>
+          <select name="poolId" value={form.poolId} onChange={handleChange} required={!milestone} style={formStyles.select}>
             <option value="">Select a pool...</option>
             {pools.map((pool) => (
-              <option key={pool.name} value={pool.name}>
+              <option key={pool.id} value={pool.id}>
                 {pool.name} ({pool.weeklyHours} hrs/week)
               </option>
             ))}
           </select>
-          {errors.pool && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.pool}</span>}
+          {errors.poolId && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.poolId}</span>}
         </div>
       </div>
 
@@ -541,45 +645,47 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
       )}
 
       {/* Estimated Dev Hours and Weekly Allocation - Side by side */}
-      <div style={{ display: 'flex', gap: '5rem', marginBottom: '1rem' }}>
-        <div style={{ flex: '1' }}>
-          <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
-            Estimated Dev Hours*
-          </label>
-          <input type="number" name="estimatedHours" value={form.estimatedHours} onChange={handleChange} min={1} required style={formStyles.inputShort} />
-          {errors.estimatedHours && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.estimatedHours}</span>}
-        </div>
-        <div style={{ flex: '1' }}>
-          <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
-            Weekly Allocation %*
-            <span 
-              style={{ 
-                marginLeft: '4px', 
-                cursor: 'help',
-                color: '#6b7280',
-                fontSize: '12px'
-              }} 
-              title={`% of ${selectedPool?.standardWeekHours || 40}h week`}
-            >
-              ℹ️
-            </span>
-          </label>
-          <input
-            type="number"
-            name="weeklyAllocation"
-            value={form.weeklyAllocation}
-            onChange={handleChange}
-            min={0}
-            max={100}
-            style={formStyles.inputShort}
-            required
-          />
-          <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>
-            Required for date auto-calculation
-          </small>
-          {errors.weeklyAllocation && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.weeklyAllocation}</span>}
+      {!milestone && (
+        <div style={{ display: 'flex', gap: '5rem', marginBottom: '1rem' }}>
+          <div style={{ flex: '1' }}>
+            <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
+              Estimated Dev Hours*
+            </label>
+            <input type="number" name="estimatedHours" value={form.estimatedHours} onChange={handleChange} min={1} required style={formStyles.inputShort} />
+            {errors.estimatedHours && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.estimatedHours}</span>}
+          </div>
+          <div style={{ flex: '1' }}>
+            <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
+              Weekly Allocation %*
+              <span 
+                style={{ 
+                  marginLeft: '4px', 
+                  cursor: 'help',
+                  color: '#6b7280',
+                  fontSize: '12px'
+                }} 
+                title={`% of ${selectedPool?.standardWeekHours || 40}h week`}
+              >
+                ℹ️
+              </span>
+            </label>
+            <input
+              type="number"
+              name="weeklyAllocation"
+              value={form.weeklyAllocation}
+              onChange={handleChange}
+              min={0}
+              max={100}
+              style={formStyles.inputShort}
+              required
+            />
+            <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>
+              Required for date auto-calculation
+            </small>
+            {errors.weeklyAllocation && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.weeklyAllocation}</span>}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Dynamic Duration Calculation */}
       {calculatedDuration && (
@@ -611,7 +717,7 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
             <strong>Weekly Commitment:</strong> {calculatedDuration.hoursPerWeek.toFixed(1)} hours per week
             <br />
             <strong>Total Project Hours:</strong> {form.estimatedHours} hours
-            {form.pool && (
+            {form.poolId && (
               <>
                 <br />
                 <strong>Pool Standard Week:</strong> {selectedPool?.standardWeekHours || 40} hours
@@ -659,167 +765,202 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
         </div>
       )}
 
-      {/* Date Section with Auto-calculation Info */}
-      <div style={{ 
-        padding: '12px', 
-        backgroundColor: '#fef3c7', 
-        borderRadius: '6px', 
-        fontSize: '14px', 
-        border: '1px solid #f59e0b',
-        width: '100%',
-        boxSizing: 'border-box'
-      }}>
-        <div style={{ fontWeight: 'bold', color: '#92400e', marginBottom: '8px' }}>
-          📅 Date Planning (Auto-calculated)
-        </div>
-        <div style={{ color: '#92400e', fontSize: '13px', marginBottom: '8px' }}>
-          Enter either start date OR end date - the other will be automatically calculated based on your estimated hours and weekly allocation.
-          <br />
-          <strong>📅 Note:</strong> Date calculations exclude weekends and use {(selectedPool?.standardWeekHours || 40)}-hour work days ({(selectedPool?.standardWeekHours || 40)}h/week).
-          <br />
-          <strong>💡 Tip:</strong> Click on the date headings (with 🔄 Recalc) to force recalculation when you change hours or allocation values.
+      {/* People assigned here who would be over their hours */}
+      {overAllocatedAssignees.length > 0 && (
+        <div style={{
+          padding: '12px',
+          backgroundColor: '#fef2f2',
+          borderRadius: '6px',
+          fontSize: '14px',
+          border: '2px solid #dc2626',
+          width: '100%',
+          boxSizing: 'border-box',
+          marginTop: '8px',
+          color: '#dc2626'
+        }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '8px' }}>
+            ⚠️ {overAllocatedAssignees.map(m => m.name).join(', ')} would be over their hours
+          </div>
+          {overAllocatedAssignees.map(member => (
+            <div key={member.memberId} style={{ fontSize: '13px' }}>
+              {member.name}, week of {member.weekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: {member.totalAllocated}h assigned of {member.availableHours}h available
+              {Number.isFinite(member.utilization) ? ` (${member.utilization}%)` : ''}, across {member.projectIds.length} item{member.projectIds.length === 1 ? '' : 's'}
+            </div>
+          ))}
         </div>
+      )}
+
+      {/* Date Section with Auto-calculation Info */}
+      {!milestone && (
+        <div style={{ 
+          padding: '12px', 
+          backgroundColor: '#fef3c7', 
+          borderRadius: '6px', 
+          fontSize: '14px', 
+          border: '1px solid #f59e0b',
+          width: '100%',
+          boxSizing: 'border-box'
+        }}>
+          <div style={{ fontWeight: 'bold', color: '#92400e', marginBottom: '8px' }}>
+            📅 Date Planning (Auto-calculated)
+          </div>
+          <div style={{ color: '#92400e', fontSize: '13px', marginBottom: '8px' }}>
+            Enter either start date OR end date - the other will be automatically calculated based on your estimated hours and weekly allocation.
+            <br />
+            <strong>📅 Note:</strong> Date calculations exclude weekends and use {(selectedPool?.standardWeekHours || 40)}-hour work days ({(selectedPool?.standardWeekHours || 40)}h/week).
+            <br />
+            <strong>💡 Tip:</strong> Click on the date headings (with 🔄 Recalc) to force recalculation when you change hours or allocation values.
+          </div>
         
-        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
-          <div style={{ flex: '1', minWidth: '200px' }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '0.5rem',
-              cursor: 'pointer'
-            }} onClick={() => {
-              if (form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.targetDate) {
-                // Recalculate start date based on end date using consistent logic
-                const endDate = new Date(form.targetDate);
-                const availableHoursPerWeek = ((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40);
-                
-                // Calculate weeks needed (can be fractional)
-                const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
-                
-                // Convert weeks to work days (assuming 5 work days per week)
-                const workDaysNeeded = Math.ceil(weeksNeeded * 5);
-                
-                const startDate = subtractWorkDays(endDate, workDaysNeeded);
-                
-                setForm(prev => ({
-                  ...prev,
-                  startDate: startDate.toISOString().split('T')[0]
-                }));
-              }
-            }}>
-              <label style={formStyles.label}>
-                Start Date
-              </label>
-              {form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.targetDate && (
-                <span style={{ 
-                  fontSize: '12px', 
-                  color: '#3b82f6', 
-                  backgroundColor: '#dbeafe', 
-                  padding: '2px 6px', 
-                  borderRadius: '4px',
-                  cursor: 'pointer'
-                }} title="Click to recalculate start date">
-                  🔄 Recalc
-                </span>
-              )}
+          <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+            <div style={{ flex: '1', minWidth: '200px' }}>
+              <div style={{ 
+                display: 'flex', 
+                alignItems: 'center', 
+                gap: '8px', 
+                marginBottom: '0.5rem',
+                cursor: 'pointer'
+              }} onClick={() => {
+                if (form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.targetDate) {
+                  // Recalculate start date based on end date using consistent logic
+                  const startDate = calculateStartDate(form.targetDate, form, selectedPool, holidays);
+                  if (startDate) setForm(prev => ({ ...prev, startDate }));
+                }
+              }}>
+                <label style={formStyles.label}>
+                  Start Date
+                </label>
+                {form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.targetDate && (
+                  <span style={{ 
+                    fontSize: '12px', 
+                    color: '#3b82f6', 
+                    backgroundColor: '#dbeafe', 
+                    padding: '2px 6px', 
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }} title="Click to recalculate start date">
+                    🔄 Recalc
+                  </span>
+                )}
+              </div>
+              <input type="date" name="startDate" value={form.startDate} onChange={handleChange} style={formStyles.inputDate} />
+              {errors.startDate && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.startDate}</span>}
             </div>
-            <input type="date" name="startDate" value={form.startDate} onChange={handleChange} style={formStyles.inputDate} />
-            {errors.startDate && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.startDate}</span>}
-          </div>
-          <div style={{ flex: '1', minWidth: '200px' }}>
-            <div style={{ 
-              display: 'flex', 
-              alignItems: 'center', 
-              gap: '8px', 
-              marginBottom: '0.5rem',
-              cursor: 'pointer'
-            }} onClick={() => {
-              if (form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.startDate) {
-                // Recalculate end date based on start date using consistent logic
-                const startDate = new Date(form.startDate);
-                const availableHoursPerWeek = ((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40);
-                
-                // Calculate weeks needed (can be fractional)
-                const weeksNeeded = form.estimatedHours / availableHoursPerWeek;
-                
-                // Convert weeks to work days (assuming 5 work days per week)
-                const workDaysNeeded = Math.ceil(weeksNeeded * 5);
-                
-                const endDate = addWorkDays(startDate, workDaysNeeded);
-                
-                setForm(prev => ({
-                  ...prev,
-                  targetDate: endDate.toISOString().split('T')[0]
-                }));
-              }
-            }}>
-              <label style={formStyles.label}>
-                Target End Date
-              </label>
-              {form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.startDate && (
-                <span style={{ 
-                  fontSize: '12px', 
-                  color: '#3b82f6', 
-                  backgroundColor: '#dbeafe', 
-                  padding: '2px 6px', 
-                  borderRadius: '4px',
-                  cursor: 'pointer'
-                }} title="Click to recalculate end date">
-                  🔄 Recalc
-                </span>
-              )}
-              {form.autoRecalculated && (
-                <span style={{ 
-                  fontSize: '11px', 
-                  color: '#059669', 
-                  backgroundColor: '#d1fae5', 
-                  padding: '2px 6px', 
-                  borderRadius: '4px',
-                  marginLeft: '8px'
-                }} title="Target end date was automatically recalculated based on weekly allocation change">
-                  ✓ Auto-calculated
-                </span>
-              )}
+            <div style={{ flex: '1', minWidth: '200px' }}>
+              <div style={{ 
+                display: 'flex', 
+                alignItems: 'center', 
+                gap: '8px', 
+                marginBottom: '0.5rem',
+                cursor: 'pointer'
+              }} onClick={() => {
+                if (form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.startDate) {
+                  // Recalculate end date based on start date using consistent logic
+                  const targetDate = calculateTargetDate(form.startDate, form, selectedPool, holidays);
+                  if (targetDate) setForm(prev => ({ ...prev, targetDate }));
+                }
+              }}>
+                <label style={formStyles.label}>
+                  Target End Date
+                </label>
+                {form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && form.startDate && (
+                  <span style={{ 
+                    fontSize: '12px', 
+                    color: '#3b82f6', 
+                    backgroundColor: '#dbeafe', 
+                    padding: '2px 6px', 
+                    borderRadius: '4px',
+                    cursor: 'pointer'
+                  }} title="Click to recalculate end date">
+                    🔄 Recalc
+                  </span>
+                )}
+                {form.autoRecalculated && (
+                  <span style={{ 
+                    fontSize: '11px', 
+                    color: '#059669', 
+                    backgroundColor: '#d1fae5', 
+                    padding: '2px 6px', 
+                    borderRadius: '4px',
+                    marginLeft: '8px'
+                  }} title="Target end date was automatically recalculated based on weekly allocation change">
+                    ✓ Auto-calculated
+                  </span>
+                )}
+              </div>
+              <input type="date" name="targetDate" value={form.targetDate} onChange={handleChange} style={formStyles.inputDate} />
+              {errors.targetDate && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.targetDate}</span>}
             </div>
-            <input type="date" name="targetDate" value={form.targetDate} onChange={handleChange} style={formStyles.inputDate} />
-            {errors.targetDate && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.targetDate}</span>}
           </div>
-        </div>
         
-        {/* Show calculated duration if both dates are set */}
-        {form.startDate && form.targetDate && form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && (
-          <div style={{ marginTop: '8px', padding: '8px', backgroundColor: '#ecfdf5', borderRadius: '4px', border: '1px solid #10b981' }}>
-            <div style={{ color: '#065f46', fontSize: '13px' }}>
-              <strong>Actual Duration (from dates):</strong> {countWorkDays(new Date(form.startDate), new Date(form.targetDate))} work days
-              <br />
-              <strong>Weekly Allocation:</strong> {(form.weeklyAllocation || 0)}% ({Math.round(((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40) * 10) / 10}h per week)
-              <br />
-              <strong>Total Project Hours:</strong> {form.estimatedHours}h
-              {calculatedDuration && (
-                <>
-                  <br />
-                  <strong>Calculated vs Actual:</strong> {calculatedDuration.workDays} calculated vs {countWorkDays(new Date(form.startDate), new Date(form.targetDate))} actual work days
-                  {Math.abs(calculatedDuration.workDays - countWorkDays(new Date(form.startDate), new Date(form.targetDate))) > 1 && (
-                    <span style={{ color: '#dc2626', fontWeight: 'bold' }}>
-                      ⚠️ Duration mismatch detected!
-                    </span>
-                  )}
-                </>
-              )}
+          {/* Show calculated duration if both dates are set */}
+          {form.startDate && form.targetDate && form.estimatedHours > 0 && (form.weeklyAllocation || 0) > 0 && (
+            <div style={{ marginTop: '8px', padding: '8px', backgroundColor: '#ecfdf5', borderRadius: '4px', border: '1px solid #10b981' }}>
+              <div style={{ color: '#065f46', fontSize: '13px' }}>
+                <strong>Actual Duration (from dates):</strong> {countWorkDays(parseDateKey(form.startDate), parseDateKey(form.targetDate), daysOff)} work days
+                <br />
+                <strong>Weekly Allocation:</strong> {(form.weeklyAllocation || 0)}% ({Math.round(((form.weeklyAllocation || 0) / 100) * (selectedPool?.standardWeekHours || 40) * 10) / 10}h per week)
+                <br />
+                <strong>Total Project Hours:</strong> {form.estimatedHours}h
+                {calculatedDuration && (
+                  <>
+                    <br />
+                    <strong>Calculated vs Actual:</strong> {calculatedDuration.workDays} calculated vs {countWorkDays(parseDateKey(form.startDate), parseDateKey(form.targetDate), daysOff)} actual work days
+                    {Math.abs(calculatedDuration.workDays - countWorkDays(parseDateKey(form.startDate), parseDateKey(form.targetDate), daysOff)) > 1 && (
+                      <span style={{ color: '#dc2626', fontWeight: 'bold' }}>
+                        ⚠️ Duration mismatch detected!
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
-          </div>
-        )}
+          )}
+
+          {/* Holidays and pool time off that fall in the item's dates */}
+          {daysOffInDates.length > 0 && (
+            <div style={{ marginTop: '8px', fontSize: '13px', color: '#92400e' }}>
+              🏖 <strong>Days off in these dates:</strong> {daysOffInDates.map(range => range.name).join(', ')}
+            </div>
+          )}
         
-        {/* Show warning if dates are in wrong order */}
-        {form.startDate && form.targetDate && new Date(form.startDate) > new Date(form.targetDate) && (
-          <div style={{ marginTop: '8px', padding: '8px', backgroundColor: '#fef2f2', borderRadius: '4px', border: '1px solid #fecaca' }}>
-            <div style={{ color: '#dc2626', fontSize: '13px' }}>
-              ⚠️ <strong>Date Order Issue:</strong> Start date is after end date. Please fix the date order or use the recalc buttons to recalculate dates.
+          {/* Show warning if dates are in wrong order */}
+          {form.startDate && form.targetDate && new Date(form.startDate) > new Date(form.targetDate) && (
+            <div style={{ marginTop: '8px', padding: '8px', backgroundColor: '#fef2f2', borderRadius: '4px', border: '1px solid #fecaca' }}>
+              <div style={{ color: '#dc2626', fontSize: '13px' }}>
+                ⚠️ <strong>Date Order Issue:</strong> Start date is after end date. Please fix the date order or use the recalc buttons to recalculate dates.
+              </div>
             </div>
+          )}
+        </div>
+      )}
+
+      {/* Milestone date and placement */}
+      {milestone && (
+        <div style={{ display: 'flex', gap: '5rem', marginBottom: '1rem' }}>
+          <div style={{ flex: '1' }}>
+            <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
+              Milestone Date*
+            </label>
+            <input type="date" value={form.startDate} onChange={handleMilestoneDateChange} style={formStyles.inputDate} />
+            {errors.startDate && <span style={{ color: 'red', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>{errors.startDate}</span>}
           </div>
-        )}
-      </div>
+          <div style={{ flex: '1' }}>
+            <label style={{ ...formStyles.label, display: 'block', marginBottom: '0.5rem' }}>
+              Show On Row
+            </label>
+            <select name="parentId" value={form.parentId || ''} onChange={handleChange} style={formStyles.select}>
+              <option value="">Its own row</option>
+              {parentOptions.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <small style={{ color: '#666', fontSize: '12px', marginTop: '0.25rem', display: 'block' }}>
+              Milestones carry no hours and don't count towards pool utilization
+            </small>
+          </div>
+        </div>
+      )}
 
       {/* Other Project Details */}
       <div>
@@ -833,7 +974,33 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
         <label style={formStyles.label}>
           Current Progress (%)
         </label>
-        <input type="number" name="progress" value={form.progress} onChange={handleChange} min={0} max={100} style={formStyles.inputShort} />
+        <input
+          type="number"
+          name="progress"
+          value={progressFromActuals ? getProgress(form) : form.progress}
+          onChange={handleChange}
+          min={0}
+          max={100}
+          disabled={progressFromActuals}
+          style={{ ...formStyles.inputShort, ...(progressFromActuals ? { backgroundColor: '#f3f4f6', color: '#666' } : {}) }}
+        />
+        {actualHours > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '0.25rem', fontSize: '12px', color: '#666' }}>
+            <span>
+              {progressFromActuals
+                ? `From actuals: ${actualHours}h of ${form.estimatedHours}h logged, ${getRemainingHours(form)}h remaining`
+                : `${actualHours}h logged`}
+            </span>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={!!form.progressOverride}
+                onChange={e => setForm({ ...form, progressOverride: e.target.checked, progress: e.target.checked ? getProgress(form) : form.progress })}
+              />
+              Override
+            </label>
+          </div>
+        )}
       </div>
 
       <div>
@@ -851,61 +1018,290 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
         </select>
       </div>
 
+      {/* Used by resource leveling, which keeps higher priorities in place and never moves locked dates */}
+      {!milestone && (
+        <div>
+          <label style={formStyles.label}>
+            Priority
+          </label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            <input
+              type="number"
+              min={1}
+              value={form.priority ?? ''}
+              onChange={e => setForm({ ...form, priority: e.target.value === '' ? undefined : Math.max(1, Math.round(Number(e.target.value))) })}
+              placeholder="None"
+              style={formStyles.inputShort}
+            />
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '13px', color: '#000', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={!!form.lockedDates}
+                onChange={e => setForm({ ...form, lockedDates: e.target.checked || undefined })}
+              />
+              🔒 Lock dates
+            </label>
+          </div>
+          <small style={{ color: '#666', fontSize: '12px' }}>
+            1 is the highest. When a pool is leveled, higher priorities keep their dates and allocation first, and locked dates are never moved.
+          </small>
+        </div>
+      )}
+
+      {/* People from the pool working on this item */}
+      {!milestone && poolMembers.length > 0 && ownPhases.length === 0 && (
+        <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f8f9fa', borderRadius: '6px', border: '1px solid #e9ecef', width: '100%', boxSizing: 'border-box' }}>
+          <h4 style={{ margin: '0 0 1rem 0', color: '#000', fontSize: '16px' }}>
+            Assigned People (Optional)
+          </h4>
+          <div style={{ fontSize: '13px', color: '#666', marginBottom: '1rem' }}>
+            Pick who in {selectedPool?.name} works on this and how much of their week (percent of a {selectedPool?.standardWeekHours || 40}-hour week) it takes.
+          </div>
+          {(form.assignments || []).map(assignment => {
+            const member = poolMembers.find(m => m.id === assignment.memberId);
+            if (!member) return null;
+            return (
+              <div key={assignment.memberId} style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '0.5rem', fontSize: '14px', color: '#000' }}>
+                <span style={{ flex: 1 }}>
+                  {member.name}{member.role ? <span style={{ color: '#666' }}> ({member.role})</span> : null}
+                </span>
+                <input
+                  type="number"
+                  aria-label={`${member.name}'s allocation (%)`}
+                  value={assignment.allocation}
+                  onChange={e => handleAssignmentChange(member.id, Math.max(0, Number(e.target.value) || 0))}
+                  min={0}
+                  max={100}
+                  style={{ ...formStyles.inputShort, width: '80px' }}
+                />
+                <span>%</span>
+                <button
+                  type="button"
+                  onClick={() => handleAssignmentChange(member.id, null)}
+                  style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '14px', padding: '0' }}
+                  title="Unassign"
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+          {unassignedMembers.length > 0 && (
+            <select
+              value=""
+              onChange={e => e.target.value && handleAssignmentChange(e.target.value, form.weeklyAllocation || 0)}
+              style={formStyles.select}
+            >
+              <option value="">Assign a person...</option>
+              {unassignedMembers.map(m => (
+                <option key={m.id} value={m.id}>{m.name}{m.role ? ` (${m.role})` : ''}</option>
+              ))}
+            </select>
+          )}
+          {(form.assignments || []).length > 0 && assignedAllocation !== (form.weeklyAllocation || 0) && (
+            <small style={{ color: '#666', fontSize: '12px', marginTop: '0.5rem', display: 'block' }}>
+              People are assigned {assignedAllocation}% in total; the item's weekly allocation is {form.weeklyAllocation || 0}%. Pool utilization uses the weekly allocation.
+            </small>
+          )}
+        </div>
+      )}
+
       {/* Weekly Allocations Section */}
-      <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f8f9fa', borderRadius: '6px', border: '1px solid #e9ecef' }}>
+      {!milestone && (
+        <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f8f9fa', borderRadius: '6px', border: '1px solid #e9ecef' }}>
+          <h4 style={{ margin: '0 0 1rem 0', color: '#000', fontSize: '16px' }}>
+            Weekly Allocations (Optional)
+          </h4>
+          <div style={{ fontSize: '13px', color: '#666', marginBottom: '1rem' }}>
+            Set specific allocation percentages for individual weeks. If not set, the default weekly allocation above will be used.
+          </div>
+        
+          {/* Week selector and allocation input */}
+          <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '1rem' }}>
+            <div style={{ flex: 1 }}>
+              <label style={formStyles.label}>
+                Week
+              </label>
+              <select 
+                value={selectedWeekForAllocation || ''} 
+                onChange={(e) => setSelectedWeekForAllocation(e.target.value)}
+                style={formStyles.select}
+              >
+                <option value="">Select a week...</option>
+                {getAvailableWeeks().map((week, index) => (
+                  <option key={index} value={week.start.toISOString().split('T')[0]}>
+                    Week of {week.start.toLocaleDateString('en-US', { 
+                      month: 'short', 
+                      day: 'numeric',
+                      year: 'numeric'
+                    })} - {week.end.toLocaleDateString('en-US', { 
+                      month: 'short', 
+                      day: 'numeric',
+                      year: 'numeric'
+                    })}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ flex: 1 }}>
+              <label style={formStyles.label}>
+                Allocation (%)
+              </label>
+              <input 
+                type="number" 
+                value={weeklyAllocationInput || ''} 
+                onChange={(e) => setWeeklyAllocationInput(e.target.value)}
+                min={0} 
+                max={100} 
+                step={1}
+                style={formStyles.inputShort}
+                placeholder="Enter %"
+              />
+            </div>
+            <button 
+              type="button"
+              onClick={handleAddWeeklyAllocation}
+              disabled={!selectedWeekForAllocation || !weeklyAllocationInput}
+              style={{
+                padding: '0.5rem 1rem',
+                fontSize: '14px',
+                borderRadius: '4px',
+                border: '1px solid #3b82f6',
+                background: '#3b82f6',
+                color: 'white',
+                cursor: 'pointer',
+                opacity: (!selectedWeekForAllocation || !weeklyAllocationInput) ? 0.5 : 1
+              }}
+            >
+              Add
+            </button>
+          </div>
+        
+          {/* Display current weekly allocations */}
+          {form.weeklyAllocations && Object.keys(form.weeklyAllocations).length > 0 && (
+            <div>
+              <div style={{ fontSize: '12px', fontWeight: 'bold', marginBottom: '0.5rem', color: '#000' }}>
+                Current Weekly Allocations:
+              </div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+                {Object.entries(form.weeklyAllocations).map(([weekStart, allocation]) => {
+                  const weekDate = new Date(weekStart);
+                  const weekEnd = new Date(weekDate);
+                  weekEnd.setDate(weekEnd.getDate() + 6);
+                  return (
+                    <div 
+                      key={weekStart}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '0.5rem',
+                        padding: '0.25rem 0.5rem',
+                        backgroundColor: '#e0f2fe',
+                        borderRadius: '4px',
+                        border: '1px solid #bae6fd',
+                        fontSize: '12px'
+                      }}
+                    >
+                      <span style={{ color: '#000' }}>
+                        {weekDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - {weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: {allocation}%
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveWeeklyAllocation(weekStart)}
+                        style={{
+                          background: 'none',
+                          border: 'none',
+                          color: '#dc2626',
+                          cursor: 'pointer',
+                          fontSize: '14px',
+                          padding: '0'
+                        }}
+                        title="Remove this allocation"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actual hours (timesheet); a project with phases logs its hours on the phases */}
+      {!milestone && ownPhases.length === 0 && (
+        <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f8f9fa', borderRadius: '6px', border: '1px solid #e9ecef', width: '100%', boxSizing: 'border-box' }}>
+          <h4 style={{ margin: '0 0 1rem 0', color: '#000', fontSize: '16px' }}>
+            Actual Hours (Optional)
+          </h4>
+          <div style={{ fontSize: '13px', color: '#666', marginBottom: '1rem' }}>
+            Log the hours worked each week, in total or per person. Once hours are logged, progress and remaining hours are worked out from them and the estimate.
+          </div>
+          <TimesheetGrid
+            actuals={form.actuals || []}
+            weeks={timesheetWeeks}
+            onChange={actuals => setForm({ ...form, actuals: actuals.length > 0 ? actuals : undefined })}
+          />
+        </div>
+      )}
+
+      {/* Dependencies Section */}
+      <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f8f9fa', borderRadius: '6px', border: '1px solid #e9ecef', width: '100%', boxSizing: 'border-box' }}>
         <h4 style={{ margin: '0 0 1rem 0', color: '#000', fontSize: '16px' }}>
-          Weekly Allocations (Optional)
+          Dependencies (Optional)
         </h4>
         <div style={{ fontSize: '13px', color: '#666', marginBottom: '1rem' }}>
-          Set specific allocation percentages for individual weeks. If not set, the default weekly allocation above will be used.
+          Projects that must reach a date before this one can start or finish. Lag is in work days (use a negative value for lead time).
         </div>
-        
-        {/* Week selector and allocation input */}
-        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '1rem' }}>
+
+        {/* Predecessor, type and lag inputs */}
+        <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-end', marginBottom: '1rem' }}>
           <div style={{ flex: 1 }}>
             <label style={formStyles.label}>
-              Week
+              Predecessor
             </label>
-            <select 
-              value={selectedWeekForAllocation || ''} 
-              onChange={(e) => setSelectedWeekForAllocation(e.target.value)}
+            <select
+              value={dependencyPredecessorId}
+              onChange={(e) => setDependencyPredecessorId(e.target.value)}
               style={formStyles.select}
             >
-              <option value="">Select a week...</option>
-              {getAvailableWeeks().map((week, index) => (
-                <option key={index} value={week.start.toISOString().split('T')[0]}>
-                  Week of {week.start.toLocaleDateString('en-US', { 
-                    month: 'short', 
-                    day: 'numeric',
-                    year: 'numeric'
-                  })} - {week.end.toLocaleDateString('en-US', { 
-                    month: 'short', 
-                    day: 'numeric',
-                    year: 'numeric'
-                  })}
-                </option>
+              <option value="">Select a project...</option>
+              {availablePredecessors.map(p => (
+                <option key={p.id} value={p.id}>{p.name || '(Untitled)'}</option>
               ))}
             </select>
           </div>
-          <div style={{ flex: 1 }}>
+          <div>
+            <label style={formStyles.label}>
+              Type
+            </label>
+            <select
+              value={dependencyType}
+              onChange={(e) => setDependencyType(e.target.value as DependencyType)}
+              style={formStyles.selectMedium}
+            >
+              {(Object.keys(dependencyTypeLabels) as DependencyType[]).map(type => (
+                <option key={type} value={type}>{dependencyTypeLabels[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
             <label style={formStyles.label}>
-              Allocation (%)
+              Lag (days)
             </label>
-            <input 
-              type="number" 
-              value={weeklyAllocationInput || ''} 
-              onChange={(e) => setWeeklyAllocationInput(e.target.value)}
-              min={0} 
-              max={100} 
+            <input
+              type="number"
+              value={dependencyLag}
+              onChange={(e) => setDependencyLag(e.target.value)}
               step={1}
-              style={formStyles.inputShort}
-              placeholder="Enter %"
+              style={{ ...formStyles.inputShort, width: '80px' }}
             />
           </div>
-          <button 
+          <button
             type="button"
-            onClick={handleAddWeeklyAllocation}
-            disabled={!selectedWeekForAllocation || !weeklyAllocationInput}
+            onClick={handleAddDependency}
+            disabled={!dependencyPredecessorId}
             style={{
               padding: '0.5rem 1rem',
               fontSize: '14px',
@@ -914,60 +1310,61 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ initialData, onSave, onCancel
               background: '#3b82f6',
               color: 'white',
               cursor: 'pointer',
-              opacity: (!selectedWeekForAllocation || !weeklyAllocationInput) ? 0.5 : 1
+              opacity: !dependencyPredecessorId ? 0.5 : 1
             }}
           >
             Add
           </button>
         </div>
-        
-        {/* Display current weekly allocations */}
-        {form.weeklyAllocations && Object.keys(form.weeklyAllocations).length > 0 && (
-          <div>
-            <div style={{ fontSize: '12px', fontWeight: 'bold', marginBottom: '0.5rem', color: '#000' }}>
-              Current Weekly Allocations:
-            </div>
-            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
-              {Object.entries(form.weeklyAllocations).map(([weekStart, allocation]) => {
-                const weekDate = new Date(weekStart);
-                const weekEnd = new Date(weekDate);
-                weekEnd.setDate(weekEnd.getDate() + 6);
-                return (
-                  <div 
-                    key={weekStart}
+
+        {/* Display current dependencies */}
+        {form.dependencies && form.dependencies.length > 0 && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+            {form.dependencies.map(dependency => {
+              const predecessor = (projects || []).find(p => p.id === dependency.predecessorId);
+              const violation = predecessor ? checkDependency(form, predecessor, dependency) : null;
+              return (
+                <div
+                  key={dependency.predecessorId}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    padding: '0.25rem 0.5rem',
+                    backgroundColor: violation ? '#fef2f2' : '#e0f2fe',
+                    borderRadius: '4px',
+                    border: `1px solid ${violation ? '#fecaca' : '#bae6fd'}`,
+                    fontSize: '12px'
+                  }}
+                  title={violation ? violation.message : undefined}
+                >
+                  <span style={{ color: '#000', flex: 1 }}>
+                    {predecessor?.name || '(Deleted project)'} · {dependencyTypeLabels[dependency.type]}
+                    {dependency.lagDays ? ` · ${dependency.lagDays > 0 ? '+' : ''}${dependency.lagDays} days` : ''}
+                    {violation && (
+                      <span style={{ color: '#dc2626', fontWeight: 'bold', marginLeft: '8px' }}>
+                        ⚠️ Must {dependency.type === 'FF' ? 'finish' : 'start'} on or after {violation.requiredDate}
+                      </span>
+                    )}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveDependency(dependency.predecessorId)}
                     style={{
-                      display: 'flex',
-                      alignItems: 'center',
-                      gap: '0.5rem',
-                      padding: '0.25rem 0.5rem',
-                      backgroundColor: '#e0f2fe',
-                      borderRadius: '4px',
-                      border: '1px solid #bae6fd',
-                      fontSize: '12px'
+                      background: 'none',
+                      border: 'none',
+                      color: '#dc2626',
+                      cursor: 'pointer',
+                      fontSize: '14px',
+                      padding: '0'
                     }}
+                    title="Remove this dependency"
                   >
-                    <span style={{ color: '#000' }}>
-                      {weekDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - {weekEnd.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: {allocation}%
-                    </span>
-                    <button
-                      type="button"
-                      onClick={() => handleRemoveWeeklyAllocation(weekStart)}
-                      style={{
-                        background: 'none',
-                        border: 'none',
-                        color: '#dc2626',
-                        cursor: 'pointer',
-                        fontSize: '14px',
-                        padding: '0'
-                      }}
-                      title="Remove this allocation"
-                    >
-                      ×
-                    </button>
-                  </div>
-                );
-              })}
-            </div>
+                    ×
+                  </button>
+                </div>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+
+interface RecoveryScreenProps {
+  message: string;
+  rawData?: string; // Unreadable saved data, offered as a download before it's replaced
+  onRetry: () => void;
+  onStartFresh: () => void; // Replace the saved data with the sample data
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.75rem 1.5rem',
+  fontSize: '14px',
+  borderRadius: '6px',
+  cursor: 'pointer',
+};
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ message, rawData, onRetry, onStartFresh }) => {
+  const [confirmingReset, setConfirmingReset] = useState(false);
+
+  const handleDownload = () => {
+    const blob = new Blob([rawData || ''], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gantt-unreadable-data-${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div style={{
+      maxWidth: '640px',
+      margin: '4rem auto',
+      padding: '2rem',
+      border: '2px solid #dc2626',
+      borderRadius: '8px',
+      backgroundColor: '#fef2f2',
+      color: '#000',
+      textAlign: 'left'
+    }}>
+      <h2 style={{ marginTop: 0, color: '#dc2626' }}>⚠️ Your saved data couldn't be loaded</h2>
+      <p>{message}</p>
+      <p style={{ color: '#444', fontSize: '14px' }}>
+        Nothing has been changed or deleted. You can try again, download what was saved so it can be
+        repaired and imported later, or start over with the sample data.
+      </p>
+
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginTop: '1.5rem' }}>
+        <button
+          onClick={onRetry}
+          style={{ ...buttonStyle, border: '1px solid #4F8EF7', background: '#4F8EF7', color: 'white' }}
+        >
+          Try Again
+        </button>
+        {rawData && (
+          <button
+            onClick={handleDownload}
+            style={{ ...buttonStyle, border: '1px solid #4F8EF7', background: 'white', color: '#4F8EF7' }}
+          >
+            Download Saved Data
+          </button>
+        )}
+        {!confirmingReset ? (
+          <button
+            onClick={() => setConfirmingReset(true)}
+            style={{ ...buttonStyle, border: '1px solid #dc2626', background: 'white', color: '#dc2626' }}
+          >
+            Start Over…
+          </button>
+        ) : (
+          <button
+            onClick={onStartFresh}
+            style={{ ...buttonStyle, border: '1px solid #dc2626', background: '#dc2626', color: 'white' }}
+          >
+            Replace Saved Data With Sample Data
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+interface ScenarioBarProps {
+  scenarioName: string;
+  liveName: string; // Workspace whose live plan the scenario was forked from
+  onCompare: () => void;
+  onPromote: () => void; // Replace the live plan with this scenario
+  onBackToLive: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  fontSize: '13px',
+  borderRadius: '4px',
+  border: '1px solid #7c3aed',
+  background: 'white',
+  color: '#7c3aed',
+  cursor: 'pointer',
+};
+
+// Shown while a scenario is open, so it's never mistaken for the live plan
+const ScenarioBar: React.FC<ScenarioBarProps> = ({ scenarioName, liveName, onCompare, onPromote, onBackToLive }) => {
+  const [confirmingPromote, setConfirmingPromote] = useState(false);
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexWrap: 'wrap',
+      gap: '0.5rem',
+      marginTop: '0.75rem',
+      padding: '0.5rem 1rem',
+      background: '#f5f3ff',
+      border: '1px solid #c4b5fd',
+      borderRadius: '6px',
+      fontSize: '14px',
+      color: '#4c1d95'
+    }}>
+      <span>
+        🧪 Scenario <strong>{scenarioName}</strong> of {liveName}. Changes here don't affect the live plan.
+      </span>
+      <button onClick={onCompare} style={buttonStyle}>Compare with Live Plan</button>
+      {!confirmingPromote ? (
+        <button onClick={() => setConfirmingPromote(true)} style={buttonStyle}>Promote to Live Plan…</button>
+      ) : (
+        <>
+          <button
+            onClick={() => {
+              setConfirmingPromote(false);
+              onPromote();
+            }}
+            title="The current live plan is kept as a scenario, so this can be reversed"
+            style={{ ...buttonStyle, background: '#7c3aed', color: 'white' }}
+          >
+            Replace {liveName}'s live plan
+          </button>
+          <button onClick={() => setConfirmingPromote(false)} style={{ ...buttonStyle, borderColor: '#6b7280', color: '#6b7280' }}>
+            Cancel
+          </button>
+        </>
+      )}
+      <button onClick={onBackToLive} style={buttonStyle}>Back to Live Plan</button>
+    </div>
+  );
+};
+
+export default ScenarioBar;
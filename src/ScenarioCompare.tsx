@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import type { ScenarioComparison, PoolComparison, ItemDateChange } from './scenarios';
+import { parseDateKey } from './workDays';
+
+interface ScenarioCompareProps {
+  scenarioName: string;
+  liveName: string; // Workspace whose live plan the scenario was forked from
+  comparison: ScenarioComparison | null; // null while the live plan is loading
+  error?: string;
+  onClose: () => void;
+}
+
+// Weeks of differences listed per pool before "+N more"
+const MAX_WEEKS_SHOWN = 12;
+
+function formatDate(date: string) {
+  return date ? parseDateKey(date).toLocaleDateString() : '—';
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${value.toFixed(0)}%`;
+}
+
+function formatShift(days: number) {
+  if (days === 0) return 'same';
+  return `${days > 0 ? '+' : ''}${days} day${Math.abs(days) === 1 ? '' : 's'}`;
+}
+
+// Red when the scenario is busier, green when it frees capacity
+const Delta: React.FC<{ from: number | null; to: number | null }> = ({ from, to }) => {
+  if (from === null || to === null) return <span style={{ color: '#666' }}>{from === null ? 'new pool' : 'removed'}</span>;
+  const delta = to - from;
+  if (Math.abs(delta) < 0.5) return <span style={{ color: '#666' }}>—</span>;
+  return (
+    <strong style={{ color: delta > 0 ? '#dc2626' : '#059669' }}>
+      {delta > 0 ? '+' : ''}{delta.toFixed(0)} pts
+    </strong>
+  );
+};
+
+const PoolRow: React.FC<{ pool: PoolComparison }> = ({ pool }) => {
+  const [expanded, setExpanded] = useState(false);
+  const weeks = expanded ? pool.weeks : pool.weeks.slice(0, MAX_WEEKS_SHOWN);
+  return (
+    <>
+      <tr style={{ borderTop: '1px solid #f3f4f6' }}>
+        <td style={{ padding: '0.5rem', fontWeight: 'bold' }}>{pool.name}</td>
+        <td style={{ padding: '0.5rem' }}>{formatPercent(pool.baselinePeak)}</td>
+        <td style={{ padding: '0.5rem' }}>{formatPercent(pool.scenarioPeak)}</td>
+        <td style={{ padding: '0.5rem' }}><Delta from={pool.baselinePeak} to={pool.scenarioPeak} /></td>
+        <td style={{ padding: '0.5rem' }}>
+          {pool.baselineOverAllocatedWeeks} → <strong style={{ color: pool.scenarioOverAllocatedWeeks > pool.baselineOverAllocatedWeeks ? '#dc2626' : 'inherit' }}>{pool.scenarioOverAllocatedWeeks}</strong>
+        </td>
+      </tr>
+      {pool.weeks.length > 0 && (
+        <tr>
+          <td colSpan={5} style={{ padding: '0 0.5rem 0.5rem 1.5rem' }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px' }}>
+              {weeks.map(week => (
+                <span
+                  key={week.weekStart}
+                  style={{ fontSize: '12px', padding: '2px 6px', borderRadius: '4px', background: '#f3f4f6', color: '#374151' }}
+                >
+                  {parseDateKey(week.weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: {formatPercent(week.baseline)} → {formatPercent(week.scenario)}
+                </span>
+              ))}
+              {pool.weeks.length > MAX_WEEKS_SHOWN && (
+                <button
+                  onClick={() => setExpanded(e => !e)}
+                  style={{ fontSize: '12px', padding: '2px 6px', border: 'none', background: 'none', color: '#4F8EF7', cursor: 'pointer' }}
+                >
+                  {expanded ? 'Show fewer' : `+${pool.weeks.length - MAX_WEEKS_SHOWN} more weeks`}
+                </button>
+              )}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+const ItemRow: React.FC<{ item: ItemDateChange }> = ({ item }) => (
+  <tr style={{ borderTop: '1px solid #f3f4f6' }}>
+    <td style={{ padding: '0.5rem', fontWeight: 'bold' }}>{item.name || '(Untitled)'}</td>
+    {item.change === 'moved' ? (
+      <>
+        <td style={{ padding: '0.5rem' }}>
+          {formatDate(item.baseline!.startDate)} → {formatDate(item.scenario!.startDate)} <span style={{ color: '#666' }}>({formatShift(item.startShiftDays)})</span>
+        </td>
+        <td style={{ padding: '0.5rem' }}>
+          {formatDate(item.baseline!.targetDate)} → <strong style={{ color: item.targetShiftDays > 0 ? '#b45309' : 'inherit' }}>{formatDate(item.scenario!.targetDate)}</strong> <span style={{ color: '#666' }}>({formatShift(item.targetShiftDays)})</span>
+        </td>
+      </>
+    ) : (
+      <td colSpan={2} style={{ padding: '0.5rem', color: item.change === 'added' ? '#059669' : '#dc2626' }}>
+        {item.change === 'added'
+          ? `Added: ${formatDate(item.scenario!.startDate)} – ${formatDate(item.scenario!.targetDate)}`
+          : `Removed (was ${formatDate(item.baseline!.startDate)} – ${formatDate(item.baseline!.targetDate)})`}
+      </td>
+    )}
+  </tr>
+);
+
+const ScenarioCompare: React.FC<ScenarioCompareProps> = ({ scenarioName, liveName, comparison, error, onClose }) => {
+  const changedPools = comparison?.pools.filter(p => p.weeks.length > 0 || p.baselinePeak === null || p.scenarioPeak === null) ?? [];
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(0, 0, 0, 0.4)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 2000
+    }}>
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '1.5rem',
+        width: 'min(900px, 92vw)',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 4px 24px #0003',
+        color: '#000'
+      }}>
+        <h3 style={{ margin: '0 0 0.5rem 0' }}>🧪 {scenarioName} vs. live plan</h3>
+        <p style={{ margin: '0 0 1rem 0', fontSize: '14px', color: '#444' }}>
+          Differences between this scenario and the live plan of <strong>{liveName}</strong> as it is now.
+        </p>
+
+        <div style={{ overflowY: 'auto' }}>
+          {error && <div style={{ color: '#dc2626', fontSize: '14px' }}>{error}</div>}
+          {!error && !comparison && <div style={{ color: '#666', fontSize: '14px' }}>Comparing…</div>}
+          {comparison && (
+            <>
+              <h4 style={{ margin: '0 0 0.5rem 0' }}>Pool utilization</h4>
+              {changedPools.length === 0 ? (
+                <p style={{ fontSize: '14px', color: '#666' }}>No pool's utilization changes.</p>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px', marginBottom: '1.5rem' }}>
+                  <thead>
+                    <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                      <th style={{ padding: '0.5rem' }}>Pool</th>
+                      <th style={{ padding: '0.5rem' }}>Live peak</th>
+                      <th style={{ padding: '0.5rem' }}>Scenario peak</th>
+                      <th style={{ padding: '0.5rem' }}>Change</th>
+                      <th style={{ padding: '0.5rem' }}>Over-allocated weeks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changedPools.map(pool => <PoolRow key={pool.poolId} pool={pool} />)}
+                  </tbody>
+                </table>
+              )}
+
+              <h4 style={{ margin: '0 0 0.5rem 0' }}>Date changes</h4>
+              {comparison.items.length === 0 ? (
+                <p style={{ fontSize: '14px', color: '#666' }}>No projects, phases or milestones moved.</p>
+              ) : (
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+                  <thead>
+                    <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                      <th style={{ padding: '0.5rem' }}>Item</th>
+                      <th style={{ padding: '0.5rem' }}>Start</th>
+                      <th style={{ padding: '0.5rem' }}>Target</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.items.map(item => <ItemRow key={item.projectId} item={item} />)}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', marginTop: '1rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{ padding: '0.5rem 1rem', fontSize: '14px', borderRadius: '4px', cursor: 'pointer', border: '1px solid #ccc', background: 'white', color: '#000' }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioCompare;
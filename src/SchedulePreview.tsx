@@ -0,0 +1,111 @@
+import React from 'react';
+import type { ScheduleChange } from './scheduling';
+import { parseDateKey } from './workDays';
+
+interface SchedulePreviewProps {
+  savedProjectName: string;
+  changes: ScheduleChange[];
+  onApply: () => void; // Save the project and move every dependent project
+  onSaveOnly: () => void; // Save the project but leave dependent projects where they are
+  onCancel: () => void; // Go back to editing without saving anything
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.5rem 1rem',
+  fontSize: '14px',
+  borderRadius: '4px',
+  cursor: 'pointer',
+};
+
+function formatDate(date: string) {
+  return date ? parseDateKey(date).toLocaleDateString() : '—';
+}
+
+const DateChange: React.FC<{ from: string; to: string }> = ({ from, to }) => (
+  from === to ? (
+    <span style={{ color: '#666' }}>{formatDate(from)}</span>
+  ) : (
+    <span>
+      <span style={{ color: '#666', textDecoration: 'line-through' }}>{formatDate(from)}</span>
+      {' → '}
+      <strong style={{ color: '#b45309' }}>{formatDate(to)}</strong>
+    </span>
+  )
+);
+
+const SchedulePreview: React.FC<SchedulePreviewProps> = ({ savedProjectName, changes, onApply, onSaveOnly, onCancel }) => {
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(0, 0, 0, 0.4)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 2000
+    }}>
+      <div style={{
+        background: '#fff',
+        borderRadius: '8px',
+        padding: '1.5rem',
+        width: 'min(720px, 90vw)',
+        maxHeight: '80vh',
+        display: 'flex',
+        flexDirection: 'column',
+        boxShadow: '0 4px 24px #0003',
+        color: '#000'
+      }}>
+        <h3 style={{ margin: '0 0 0.5rem 0' }}>📆 Schedule Changes</h3>
+        <p style={{ margin: '0 0 1rem 0', fontSize: '14px', color: '#444' }}>
+          Saving <strong>{savedProjectName}</strong> moves {changes.length} dependent project{changes.length === 1 ? '' : 's'}.
+          Review the new dates before applying them.
+        </p>
+
+        <div style={{ overflowY: 'auto', border: '1px solid #e5e7eb', borderRadius: '6px' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '14px' }}>
+            <thead>
+              <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                <th style={{ padding: '0.5rem' }}>Project</th>
+                <th style={{ padding: '0.5rem' }}>Start</th>
+                <th style={{ padding: '0.5rem' }}>Target</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(change => (
+                <tr key={change.projectId} style={{ borderTop: '1px solid #f3f4f6' }}>
+                  <td style={{ padding: '0.5rem', fontWeight: 'bold' }}>{change.projectName}</td>
+                  <td style={{ padding: '0.5rem' }}><DateChange from={change.oldStartDate} to={change.newStartDate} /></td>
+                  <td style={{ padding: '0.5rem' }}><DateChange from={change.oldTargetDate} to={change.newTargetDate} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ display: 'flex', gap: '1rem', marginTop: '1rem', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onCancel}
+            style={{ ...buttonStyle, border: '1px solid #ccc', background: 'white', color: '#000' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onSaveOnly}
+            title="Save this project only; dependent projects keep their dates and may show dependency conflicts"
+            style={{ ...buttonStyle, border: '1px solid #4F8EF7', background: 'white', color: '#4F8EF7' }}
+          >
+            Save Without Cascading
+          </button>
+          <button
+            onClick={onApply}
+            style={{ ...buttonStyle, border: '1px solid #10b981', background: '#10b981', color: 'white' }}
+          >
+            Apply All Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SchedulePreview;
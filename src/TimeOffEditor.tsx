@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { TimeOff } from './types';
+import { generateId } from './ids';
+import { parseDateKey } from './workDays';
+
+interface TimeOffEditorProps {
+  ranges: TimeOff[];
+  onChange: (ranges: TimeOff[]) => void;
+  namePlaceholder?: string;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '0.4rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: 'white',
+  color: '#000',
+  fontFamily: 'inherit'
+};
+
+function formatRange(range: TimeOff) {
+  const start = parseDateKey(range.startDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  if (range.endDate === range.startDate) return start;
+  const end = parseDateKey(range.endDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${start} – ${end}`;
+}
+
+// List of holidays or time off with a row to add another; single days have the same start and end
+const TimeOffEditor: React.FC<TimeOffEditorProps> = ({ ranges, onChange, namePlaceholder = 'e.g. Vacation' }) => {
+  const [draft, setDraft] = useState({ name: '', startDate: '', endDate: '' });
+  const endDate = draft.endDate || draft.startDate;
+  const canAdd = !!draft.name.trim() && !!draft.startDate && endDate >= draft.startDate;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const range = { id: generateId(), name: draft.name.trim(), startDate: draft.startDate, endDate };
+    onChange([...ranges, range].sort((a, b) => a.startDate.localeCompare(b.startDate)));
+    setDraft({ name: '', startDate: '', endDate: '' });
+  };
+
+  return (
+    <div style={{ width: '100%' }}>
+      {ranges.length > 0 && (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '0 0 0.5rem 0', fontSize: '13px', color: '#000' }}>
+          {ranges.map(range => (
+            <li key={range.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.25rem 0' }}>
+              <span style={{ flex: 1 }}>
+                <strong>{range.name}</strong> <span style={{ color: '#666' }}>{formatRange(range)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(ranges.filter(r => r.id !== range.id))}
+                title="Remove"
+                style={{ background: 'none', border: 'none', color: '#dc2626', cursor: 'pointer', fontSize: '14px', padding: 0 }}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'center' }}>
+        <input
+          aria-label="Name"
+          placeholder={namePlaceholder}
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+          style={{ ...inputStyle, width: '140px' }}
+        />
+        <input
+          type="date"
+          aria-label="First day"
+          value={draft.startDate}
+          onChange={e => setDraft({ ...draft, startDate: e.target.value })}
+          style={inputStyle}
+        />
+        <span style={{ fontSize: '13px', color: '#666' }}>to</span>
+        <input
+          type="date"
+          aria-label="Last day"
+          value={endDate}
+          min={draft.startDate || undefined}
+          onChange={e => setDraft({ ...draft, endDate: e.target.value })}
+          style={inputStyle}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!canAdd}
+          style={{
+            padding: '0.4rem 0.75rem',
+            fontSize: '13px',
+            borderRadius: '4px',
+            border: '1px solid #3b82f6',
+            background: '#3b82f6',
+            color: 'white',
+            cursor: 'pointer',
+            opacity: canAdd ? 1 : 0.5
+          }}
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimeOffEditor;
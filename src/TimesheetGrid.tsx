@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import type { ActualHoursEntry } from './types';
+import { setActualHours, getActualsPeople } from './actuals';
+import { parseDateKey } from './workDays';
+
+interface TimesheetGridProps {
+  actuals: ActualHoursEntry[];
+  weeks: string[]; // Week starts (YYYY-MM-DD) shown as columns
+  onChange: (actuals: ActualHoursEntry[]) => void;
+}
+
+const cellStyle: React.CSSProperties = {
+  padding: '0.25rem',
+  borderTop: '1px solid #e5e7eb',
+  textAlign: 'center',
+  whiteSpace: 'nowrap'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '56px',
+  padding: '0.25rem',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: 'white',
+  color: '#000',
+  textAlign: 'right'
+};
+
+function formatWeek(weekStart: string) {
+  return parseDateKey(weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Hours worked per week, one row per person plus a row for hours not booked to anyone
+const TimesheetGrid: React.FC<TimesheetGridProps> = ({ actuals, weeks, onChange }) => {
+  const [addedPeople, setAddedPeople] = useState<string[]>([]); // Rows added here that have no hours yet
+  const [newPerson, setNewPerson] = useState('');
+
+  const people = ['', ...new Set([...getActualsPeople(actuals), ...addedPeople])];
+  const getHours = (weekStart: string, person: string) =>
+    actuals.filter(entry => entry.weekStart === weekStart && (entry.person || '') === person).reduce((sum, entry) => sum + entry.hours, 0);
+  const personTotal = (person: string) => actuals.filter(entry => (entry.person || '') === person).reduce((sum, entry) => sum + entry.hours, 0);
+  const weekTotal = (weekStart: string) => actuals.filter(entry => entry.weekStart === weekStart).reduce((sum, entry) => sum + entry.hours, 0);
+  const total = actuals.reduce((sum, entry) => sum + entry.hours, 0);
+
+  const handleAddPerson = () => {
+    // ";" and "=" separate entries in CSV exports
+    const name = newPerson.replace(/[;=]/g, '').trim();
+    if (!name || people.includes(name)) return;
+    setAddedPeople([...addedPeople, name]);
+    setNewPerson('');
+  };
+
+  if (weeks.length === 0) {
+    return <div style={{ fontSize: '13px', color: '#666' }}>Set a start and target date to log hours.</div>;
+  }
+
+  return (
+    <div>
+      <div style={{ overflowX: 'auto', border: '1px solid #e5e7eb', borderRadius: '4px', background: 'white' }}>
+        <table style={{ borderCollapse: 'collapse', fontSize: '13px', color: '#000' }}>
+          <thead>
+            <tr style={{ background: '#f9fafb' }}>
+              <th style={{ ...cellStyle, borderTop: 'none', textAlign: 'left', position: 'sticky', left: 0, background: '#f9fafb' }}>Person</th>
+              {weeks.map(weekStart => (
+                <th key={weekStart} style={{ ...cellStyle, borderTop: 'none' }}>{formatWeek(weekStart)}</th>
+              ))}
+              <th style={{ ...cellStyle, borderTop: 'none' }}>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {people.map(person => (
+              <tr key={person}>
+                <td style={{ ...cellStyle, textAlign: 'left', position: 'sticky', left: 0, background: 'white', color: person ? '#000' : '#666' }}>
+                  {person || 'Unassigned'}
+                </td>
+                {weeks.map(weekStart => (
+                  <td key={weekStart} style={cellStyle}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      aria-label={`Hours ${person || 'unassigned'} week of ${formatWeek(weekStart)}`}
+                      value={getHours(weekStart, person) || ''}
+                      onChange={e => onChange(setActualHours(actuals, weekStart, person, Math.max(0, Number(e.target.value) || 0)))}
+                      style={inputStyle}
+                    />
+                  </td>
+                ))}
+                <td style={{ ...cellStyle, fontWeight: 'bold' }}>{personTotal(person)}h</td>
+              </tr>
+            ))}
+            <tr style={{ background: '#f9fafb', fontWeight: 'bold' }}>
+              <td style={{ ...cellStyle, textAlign: 'left', position: 'sticky', left: 0, background: '#f9fafb' }}>Total</td>
+              {weeks.map(weekStart => (
+                <td key={weekStart} style={cellStyle}>{weekTotal(weekStart) || ''}</td>
+              ))}
+              <td style={cellStyle}>{total}h</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginTop: '0.5rem' }}>
+        <input
+          value={newPerson}
+          onChange={e => setNewPerson(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAddPerson();
+            }
+          }}
+          placeholder="Person's name"
+          style={{ ...inputStyle, width: '160px', textAlign: 'left' }}
+        />
+        <button
+          type="button"
+          onClick={handleAddPerson}
+          disabled={!newPerson.trim()}
+          style={{
+            padding: '0.25rem 0.75rem',
+            fontSize: '13px',
+            borderRadius: '4px',
+            border: '1px solid #3b82f6',
+            background: 'white',
+            color: '#3b82f6',
+            cursor: 'pointer',
+            opacity: newPerson.trim() ? 1 : 0.5
+          }}
+        >
+          + Add Person
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimesheetGrid;
@@ -0,0 +1,344 @@
+import React, { Fragment, useState, useEffect, useMemo } from 'react';
+import type { ProjectFormData, PoolData, TimeOff } from './types';
+import {
+  preprocessProjects,
+  getProjectsByPoolInWeek,
+  getWeeklyAllocation,
+  getAllocatedHours,
+  calculateAllWeekUtilizations,
+  getWeekKey,
+  type WeekUtilizations,
+  type UtilizationWorkerResponse
+} from './utilization';
+
+interface UtilizationHeatmapProps {
+  projects: ProjectFormData[];
+  pools: PoolData[];
+  weekStarts: Date[];
+  selectedWeekIndex?: number | null;
+  holidays?: TimeOff[]; // Company holidays, which shrink every pool's hours
+  onCellSelect?: (poolId: string, weekIndex: number, weekStart: Date) => void; // Open Bulk Update for the pool and week
+}
+
+interface Contribution {
+  project: ProjectFormData;
+  allocation: number; // Percent of the pool's standard week
+  hours: number;
+}
+
+const CELL_WIDTH = 34;
+const CELL_HEIGHT = 26;
+const POOL_COLUMN_WIDTH = 140;
+const noHolidays: TimeOff[] = [];
+
+// Color bands, lightest to darkest, with the label shown in the legend
+const utilizationBands = [
+  { max: 0, color: '#f3f4f6', text: '#9ca3af', label: 'None' },
+  { max: 50, color: '#dcfce7', text: '#166534', label: '≤ 50%' },
+  { max: 80, color: '#86efac', text: '#14532d', label: '≤ 80%' },
+  { max: 100, color: '#fde68a', text: '#78350f', label: '≤ 100%' },
+  { max: 120, color: '#fca5a5', text: '#7f1d1d', label: '≤ 120%' },
+  { max: Infinity, color: '#dc2626', text: '#fff', label: '> 120%' },
+];
+
+function getBand(utilization: number) {
+  return utilizationBands.find(band => utilization <= band.max)!;
+}
+
+// Projects with allocated hours in a pool for one week, largest first: the same projects
+// the pool's utilization is made of
+function getContributions(projects: ProjectFormData[], pool: PoolData, weekStart: Date): Contribution[] {
+  const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+  const byId = new Map(projects.map(p => [p.id, p]));
+  return (getProjectsByPoolInWeek(preprocessProjects(projects), weekStart, weekEnd).get(pool.id) || [])
+    .map(processed => {
+      const allocation = getWeeklyAllocation(processed, weekStart);
+      const hours = Math.round(getAllocatedHours(allocation, pool) * 10) / 10;
+      return { project: byId.get(processed.id)!, allocation, hours };
+    })
+    .filter(c => c.hours > 0)
+    .sort((a, b) => b.hours - a.hours);
+}
+
+const UtilizationHeatmap: React.FC<UtilizationHeatmapProps> = ({ projects, pools, weekStarts, selectedWeekIndex, holidays = noHolidays, onCellSelect }) => {
+  const [worker, setWorker] = useState<Worker | null>(null);
+  const [workerReady, setWorkerReady] = useState(false);
+  const [workerGrid, setWorkerGrid] = useState<WeekUtilizations | null>(null);
+  const [selectedCell, setSelectedCell] = useState<{ poolId: string; weekIndex: number } | null>(null);
+
+  // The worker already batches every pool and week in one pass
+  useEffect(() => {
+    if (typeof window !== 'undefined' && 'Worker' in window) {
+      const newWorker = new Worker(new URL('./utilization.worker.ts', import.meta.url), { type: 'module' });
+
+      newWorker.onmessage = (e: MessageEvent<UtilizationWorkerResponse>) => {
+        const message = e.data;
+
+        switch (message.type) {
+          case 'WORKER_READY':
+            setWorkerReady(true);
+            break;
+
+          case 'ALL_WEEK_UTILIZATIONS_RESULT':
+            setWorkerGrid(message.data);
+            break;
+
+          case 'ERROR':
+            console.error('Worker error:', message.error);
+            break;
+        }
+      };
+
+      setWorker(newWorker);
+
+      return () => {
+        newWorker.terminate();
+      };
+    }
+  }, []);
+
+  // Recalculate whenever the data changes; the last grid stays on screen until the new one arrives
+  useEffect(() => {
+    if (worker && workerReady && weekStarts.length > 0) {
+      worker.postMessage({
+        type: 'ALL_WEEK_UTILIZATIONS',
+        data: {
+          projects,
+          pools,
+          weekStarts: weekStarts.map(d => d.toISOString()),
+          holidays
+        },
+        requestId: Date.now()
+      });
+    }
+  }, [worker, workerReady, projects, pools, weekStarts, holidays]);
+
+  const grid = useMemo(
+    () => (worker ? workerGrid : calculateAllWeekUtilizations(projects, pools, weekStarts, holidays)),
+    [worker, workerGrid, projects, pools, weekStarts, holidays]
+  );
+
+  const today = new Date();
+  const currentWeekIdx = weekStarts.findIndex(w => today >= w && today.getTime() < w.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+  const selectedPool = selectedCell ? pools.find(p => p.id === selectedCell.poolId) : undefined;
+  const selectedWeekStart = selectedCell ? weekStarts[selectedCell.weekIndex] : undefined;
+  const contributions = useMemo(
+    () => (selectedPool && selectedWeekStart ? getContributions(projects, selectedPool, selectedWeekStart) : []),
+    [projects, selectedPool, selectedWeekStart]
+  );
+
+  const handleCellClick = (poolId: string, weekIndex: number) => {
+    setSelectedCell({ poolId, weekIndex });
+    onCellSelect?.(poolId, weekIndex, weekStarts[weekIndex]);
+  };
+
+  if (pools.length === 0 || weekStarts.length === 0) return null;
+
+  return (
+    <div style={{
+      background: '#fff',
+      borderRadius: 8,
+      boxShadow: '0 2px 8px #0001',
+      padding: '1rem',
+      margin: '1rem 0',
+      textAlign: 'left',
+      color: '#000'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: '1rem', marginBottom: '0.75rem' }}>
+        <h3 style={{ margin: 0 }}>🔥 Pool Utilization by Week</h3>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '12px', color: '#666' }}>
+          {utilizationBands.map(band => (
+            <span key={band.label} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+              <span style={{ width: 12, height: 12, background: band.color, borderRadius: 2, border: '1px solid #e5e7eb' }} />
+              {band.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {!grid ? (
+        <div style={{ padding: '1rem', color: '#666', fontSize: '14px' }}>⏳ Calculating...</div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ borderCollapse: 'collapse', fontSize: '11px' }}>
+            <thead>
+              <tr>
+                <th style={{ minWidth: POOL_COLUMN_WIDTH, position: 'sticky', left: 0, background: '#fff', textAlign: 'left' }} />
+                {weekStarts.map((weekStart, weekIndex) => (
+                  <th
+                    key={weekStart.toISOString()}
+                    title={`Week of ${weekStart.toLocaleDateString()}`}
+                    style={{
+                      minWidth: CELL_WIDTH,
+                      padding: '2px 0',
+                      fontWeight: weekIndex === currentWeekIdx || weekIndex === selectedWeekIndex ? 'bold' : 'normal',
+                      color: weekIndex === selectedWeekIndex ? '#3b82f6' : weekIndex === currentWeekIdx ? '#d97706' : '#888',
+                      whiteSpace: 'nowrap'
+                    }}
+                  >
+                    {weekStart.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {pools.map(pool => (
+                <Fragment key={pool.id}>
+                  <tr>
+                    <th style={{
+                      position: 'sticky',
+                      left: 0,
+                      background: '#fff',
+                      textAlign: 'left',
+                      padding: '0 0.5rem 0 0',
+                      fontSize: '13px',
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      maxWidth: POOL_COLUMN_WIDTH
+                    }}>
+                      {pool.name}
+                    </th>
+                    {weekStarts.map((weekStart, weekIndex) => {
+                      const cell = grid.get(getWeekKey(weekStart))?.get(pool.id);
+                      const utilization = cell ? cell.utilization : 0;
+                      const band = getBand(utilization);
+                      const isSelected = selectedCell?.poolId === pool.id && selectedCell.weekIndex === weekIndex;
+                      return (
+                        <td
+                          key={weekStart.toISOString()}
+                          onClick={() => handleCellClick(pool.id, weekIndex)}
+                          title={cell
+                            ? `${pool.name}, week of ${weekStart.toLocaleDateString()}\n${cell.totalAllocated}h allocated of ${cell.availableHours}h available (${Number.isFinite(cell.utilization) ? `${cell.utilization}%` : 'no hours available'})`
+                            : `${pool.name}, week of ${weekStart.toLocaleDateString()}`}
+                          style={{
+                            width: CELL_WIDTH,
+                            height: CELL_HEIGHT,
+                            background: band.color,
+                            color: band.text,
+                            textAlign: 'center',
+                            cursor: 'pointer',
+                            border: isSelected ? '2px solid #111827' : '1px solid #fff',
+                            borderLeft: weekIndex === currentWeekIdx && !isSelected ? '2px solid #d97706' : undefined
+                          }}
+                        >
+                          {utilization > 0 ? (Number.isFinite(utilization) ? Math.round(utilization) : '!') : ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  {/* One row per pool member, from the items they're assigned to */}
+                  {(pool.members || []).map(member => (
+                    <tr key={member.id}>
+                      <th style={{
+                        position: 'sticky',
+                        left: 0,
+                        background: '#fff',
+                        textAlign: 'left',
+                        padding: '0 0.5rem 0 1rem',
+                        fontSize: '12px',
+                        fontWeight: 'normal',
+                        color: '#444',
+                        whiteSpace: 'nowrap',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        maxWidth: POOL_COLUMN_WIDTH
+                      }}>
+                        ↳ {member.name}{member.role ? ` (${member.role})` : ''}
+                      </th>
+                      {weekStarts.map((weekStart, weekIndex) => {
+                        const cell = grid.get(getWeekKey(weekStart))?.get(pool.id)?.members?.find(m => m.memberId === member.id);
+                        const utilization = cell ? cell.utilization : 0;
+                        const band = getBand(utilization);
+                        return (
+                          <td
+                            key={weekStart.toISOString()}
+                            onClick={() => handleCellClick(pool.id, weekIndex)}
+                            title={cell
+                              ? `${member.name}, week of ${weekStart.toLocaleDateString()}\n${cell.totalAllocated}h assigned of ${cell.availableHours}h available (${Number.isFinite(cell.utilization) ? `${cell.utilization}%` : 'no hours available'})`
+                              : `${member.name}, week of ${weekStart.toLocaleDateString()}`}
+                            style={{
+                              width: CELL_WIDTH,
+                              height: CELL_HEIGHT - 6,
+                              background: band.color,
+                              color: band.text,
+                              textAlign: 'center',
+                              cursor: 'pointer',
+                              border: '1px solid #fff',
+                              borderLeft: weekIndex === currentWeekIdx ? '2px solid #d97706' : undefined
+                            }}
+                          >
+                            {utilization > 0 ? (Number.isFinite(utilization) ? Math.round(utilization) : '!') : ''}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Projects behind the selected cell */}
+      {selectedPool && selectedWeekStart && (
+        <div style={{ marginTop: '1rem', borderTop: '1px solid #e5e7eb', paddingTop: '0.75rem', fontSize: '14px' }}>
+          <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>
+            {selectedPool.name}, week of {selectedWeekStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </div>
+          {contributions.length === 0 ? (
+            <div style={{ color: '#666' }}>No projects have hours allocated to this pool in this week.</div>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+              <thead>
+                <tr style={{ background: '#f9fafb', textAlign: 'left' }}>
+                  <th style={{ padding: '0.25rem 0.5rem' }}>Project</th>
+                  <th style={{ padding: '0.25rem 0.5rem' }}>Status</th>
+                  {selectedPool.members && selectedPool.members.length > 0 && <th style={{ padding: '0.25rem 0.5rem' }}>People</th>}
+                  <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>Allocation</th>
+                  <th style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>Hours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contributions.map(({ project, allocation, hours }) => (
+                  <tr key={project.id} style={{ borderTop: '1px solid #f3f4f6' }}>
+                    <td style={{ padding: '0.25rem 0.5rem' }}>{project.name}</td>
+                    <td style={{ padding: '0.25rem 0.5rem', color: '#666' }}>{project.status || '—'}</td>
+                    {selectedPool.members && selectedPool.members.length > 0 && (
+                      <td style={{ padding: '0.25rem 0.5rem', color: '#666' }}>
+                        {(project.assignments || [])
+                          .map(a => {
+                            const member = selectedPool.members!.find(m => m.id === a.memberId);
+                            return member ? `${member.name} ${a.allocation}%` : null;
+                          })
+                          .filter(Boolean)
+                          .join(', ') || '—'}
+                      </td>
+                    )}
+                    <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{allocation}%</td>
+                    <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>{hours}h</td>
+                  </tr>
+                ))}
+                <tr style={{ borderTop: '1px solid #e5e7eb', fontWeight: 'bold' }}>
+                  <td style={{ padding: '0.25rem 0.5rem' }} colSpan={selectedPool.members && selectedPool.members.length > 0 ? 4 : 3}>Total</td>
+                  <td style={{ padding: '0.25rem 0.5rem', textAlign: 'right' }}>
+                    {Math.round(contributions.reduce((sum, c) => sum + c.hours, 0) * 10) / 10}h
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+          {onCellSelect && (
+            <div style={{ marginTop: '0.5rem', color: '#666', fontSize: '12px' }}>
+              Bulk Update below is open for this pool and week.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UtilizationHeatmap;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { getScenarioParent, type Workspace } from './workspaces';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+  onSwitch: (workspaceId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (workspaceId: string, name: string) => void;
+  onDuplicate: (workspaceId: string) => void;
+  onDelete: (workspaceId: string) => void; // A workspace's scenarios go with it
+  onForkScenario: (name: string) => void; // Copy the open workspace's live plan into a new scenario
+}
+
+const buttonStyle: React.CSSProperties = {
+  padding: '0.4rem 0.75rem',
+  fontSize: '13px',
+  borderRadius: '4px',
+  border: '1px solid #4F8EF7',
+  background: 'white',
+  color: '#4F8EF7',
+  cursor: 'pointer',
+};
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeWorkspaceId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onForkScenario
+}) => {
+  // Name being typed for a new workspace or scenario, or a rename
+  const [editing, setEditing] = useState<{ mode: 'create' | 'rename' | 'scenario'; name: string } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const active = workspaces.find(w => w.id === activeWorkspaceId);
+  const isScenario = !!active && !!getScenarioParent(active, workspaces);
+
+  // Live workspaces, each followed by its scenarios
+  const liveWorkspaces = workspaces.filter(w => !getScenarioParent(w, workspaces));
+  const scenariosOf = (workspaceId: string) => workspaces.filter(w => w.scenarioOf === workspaceId);
+  const activeScenarioCount = isScenario ? 0 : scenariosOf(activeWorkspaceId).length;
+  const canDelete = isScenario || liveWorkspaces.length > 1;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editing.name.trim()) return;
+    if (editing.mode === 'create') onCreate(editing.name);
+    else if (editing.mode === 'scenario') onForkScenario(editing.name);
+    else onRename(activeWorkspaceId, editing.name);
+    setEditing(null);
+  };
+
+  const editingLabels = {
+    create: { prompt: 'New workspace:', submit: 'Create', placeholder: 'e.g. Client Services' },
+    scenario: { prompt: 'New scenario:', submit: 'Fork', placeholder: 'e.g. Project 7 slips a month' },
+    rename: { prompt: 'Rename to:', submit: 'Rename', placeholder: '' }
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexWrap: 'wrap',
+      gap: '0.5rem',
+      marginTop: '1rem',
+      fontSize: '14px'
+    }}>
+      {editing ? (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <label htmlFor="workspace-name" style={{ fontWeight: 'bold' }}>
+            {editingLabels[editing.mode].prompt}
+          </label>
+          <input
+            id="workspace-name"
+            autoFocus
+            value={editing.name}
+            onChange={e => setEditing({ ...editing, name: e.target.value })}
+            onKeyDown={e => e.key === 'Escape' && setEditing(null)}
+            placeholder={editingLabels[editing.mode].placeholder}
+            style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px' }}
+          />
+          <button type="submit" disabled={!editing.name.trim()} style={{ ...buttonStyle, background: '#4F8EF7', color: 'white' }}>
+            {editingLabels[editing.mode].submit}
+          </button>
+          <button type="button" onClick={() => setEditing(null)} style={{ ...buttonStyle, borderColor: '#6b7280', color: '#6b7280' }}>
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <>
+          <label htmlFor="workspace-select" style={{ fontWeight: 'bold' }}>Workspace:</label>
+          <select
+            id="workspace-select"
+            value={activeWorkspaceId}
+            onChange={e => {
+              setConfirmingDelete(false);
+              onSwitch(e.target.value);
+            }}
+            style={{ padding: '0.4rem', border: '1px solid #d1d5db', borderRadius: '4px', fontSize: '14px', minWidth: '180px' }}
+          >
+            {liveWorkspaces.flatMap(w => [
+              <option key={w.id} value={w.id}>{w.name}</option>,
+              ...scenariosOf(w.id).map(scenario => (
+                <option key={scenario.id} value={scenario.id}>{'\u00a0\u00a0'}↳ 🧪 {scenario.name}</option>
+              ))
+            ])}
+          </select>
+          <button onClick={() => setEditing({ mode: 'create', name: '' })} style={buttonStyle}>
+            + New
+          </button>
+          <button onClick={() => setEditing({ mode: 'rename', name: active?.name || '' })} style={buttonStyle}>
+            Rename
+          </button>
+          <button onClick={() => onDuplicate(activeWorkspaceId)} style={buttonStyle} title="Copy this workspace's projects, pools, filters and settings">
+            Duplicate
+          </button>
+          {!isScenario && (
+            <button
+              onClick={() => setEditing({ mode: 'scenario', name: '' })}
+              style={buttonStyle}
+              title="Copy this plan into a what-if scenario you can change freely, compare and promote"
+            >
+              🧪 Fork Scenario
+            </button>
+          )}
+          {!confirmingDelete ? (
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              disabled={!canDelete}
+              title={canDelete ? `Delete this ${isScenario ? 'scenario' : 'workspace'} and everything in it` : 'The only workspace can\'t be deleted'}
+              style={{
+                ...buttonStyle,
+                borderColor: canDelete ? '#dc2626' : '#d1d5db',
+                color: canDelete ? '#dc2626' : '#9ca3af',
+                cursor: canDelete ? 'pointer' : 'not-allowed'
+              }}
+            >
+              Delete
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => {
+                  setConfirmingDelete(false);
+                  onDelete(activeWorkspaceId);
+                }}
+                style={{ ...buttonStyle, borderColor: '#dc2626', background: '#dc2626', color: 'white' }}
+              >
+                Delete "{active?.name}" and its projects{activeScenarioCount > 0 && ` and ${activeScenarioCount} scenario${activeScenarioCount === 1 ? '' : 's'}`}
+              </button>
+              <button onClick={() => setConfirmingDelete(false)} style={{ ...buttonStyle, borderColor: '#6b7280', color: '#6b7280' }}>
+                Keep
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,61 @@
+import type { ActualHoursEntry, ProjectFormData } from './types';
+
+// Timesheet actuals. Once hours are logged against an item its progress is the share of its
+// estimate already worked and its remaining hours are what's left of the estimate, unless
+// progress has been overridden by hand.
+
+type ProgressFields = Pick<ProjectFormData, 'estimatedHours' | 'progress' | 'progressOverride' | 'actuals'>;
+
+export function getActualHours(item: Pick<ProjectFormData, 'actuals'>): number {
+  return (item.actuals || []).reduce((sum, entry) => sum + (entry.hours || 0), 0);
+}
+
+// Whether progress comes from the timesheet rather than the hand-entered value
+export function isProgressFromActuals(item: ProgressFields): boolean {
+  return !item.progressOverride && (item.estimatedHours || 0) > 0 && getActualHours(item) > 0;
+}
+
+// Percent complete: hours worked as a share of the estimate (capped at 100), or the
+// hand-entered progress
+export function getProgress(item: ProgressFields): number {
+  if (!isProgressFromActuals(item)) return item.progress || 0;
+  return Math.min(100, Math.round((getActualHours(item) / item.estimatedHours) * 100));
+}
+
+export function getRemainingHours(item: ProgressFields): number {
+  const remaining = isProgressFromActuals(item)
+    ? item.estimatedHours - getActualHours(item)
+    : item.estimatedHours * (1 - getProgress(item) / 100);
+  return Math.max(0, Math.round(remaining * 10) / 10);
+}
+
+// Replace the hours logged for a week and person; 0 removes the entry
+export function setActualHours(actuals: ActualHoursEntry[], weekStart: string, person: string, hours: number): ActualHoursEntry[] {
+  const others = actuals.filter(entry => !(entry.weekStart === weekStart && (entry.person || '') === person));
+  if (!hours) return others;
+  return [...others, { weekStart, ...(person ? { person } : {}), hours }]
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || (a.person || '').localeCompare(b.person || ''));
+}
+
+// People with hours logged, in name order
+export function getActualsPeople(actuals: ActualHoursEntry[]): string[] {
+  return [...new Set(actuals.map(entry => entry.person).filter((person): person is string => !!person))].sort();
+}
+
+// "2024-01-07=12; 2024-01-07/Ana=4": the timesheet as one CSV cell
+export function formatActuals(actuals: ActualHoursEntry[] | undefined): string {
+  return (actuals || [])
+    .map(entry => `${entry.weekStart}${entry.person ? `/${entry.person}` : ''}=${entry.hours}`)
+    .join('; ');
+}
+
+export function parseActuals(text: string): ActualHoursEntry[] {
+  return text.split(';').reduce<ActualHoursEntry[]>((actuals, part) => {
+    const match = part.trim().match(/^(\d{4}-\d{2}-\d{2})(?:\/(.+))?=(-?[\d.]+)$/);
+    if (!match) {
+      if (part.trim()) throw new Error(`Invalid actual hours entry: ${part.trim()}`);
+      return actuals;
+    }
+    return setActualHours(actuals, match[1], (match[2] || '').trim(), Number(match[3]) || 0);
+  }, []);
+}
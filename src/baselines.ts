@@ -0,0 +1,58 @@
+import type { ProjectFormData } from './types';
+import { generateId } from './ids';
+import { workDaysBetween, parseDateKey } from './workDays';
+
+// Baselines: a plan committed at a point in time (e.g. quarter start), kept so the Gantt
+// chart can show how far the current plan has drifted from it.
+
+export type BaselineItem = Pick<ProjectFormData, 'name' | 'startDate' | 'targetDate' | 'estimatedHours' | 'weeklyAllocation' | 'weeklyAllocations'>;
+
+export interface Baseline {
+  id: string;
+  name: string;
+  capturedAt: string; // ISO timestamp
+  items: { [itemId: string]: BaselineItem }; // Every project, phase and milestone as it was
+}
+
+export interface BaselineVariance {
+  baseline: BaselineItem;
+  startVarianceDays: number; // Work days; positive when the item now starts later than planned
+  finishVarianceDays: number; // Work days; positive when the item now finishes later than planned
+  hoursVariance: number; // Estimated hours now less the baseline's
+}
+
+export function captureBaseline(name: string, projects: ProjectFormData[]): Baseline {
+  const items: Baseline['items'] = {};
+  projects.forEach(p => {
+    items[p.id] = {
+      name: p.name,
+      startDate: p.startDate,
+      targetDate: p.targetDate,
+      estimatedHours: p.estimatedHours,
+      weeklyAllocation: p.weeklyAllocation,
+      weeklyAllocations: p.weeklyAllocations
+    };
+  });
+  return { id: generateId(), name, capturedAt: new Date().toISOString(), items };
+}
+
+// How an item differs from the baseline, or null when the baseline doesn't have it
+// (added since) or either has no dates
+export function getBaselineVariance(item: ProjectFormData, baseline: Baseline): BaselineVariance | null {
+  const planned = baseline.items[item.id];
+  if (!planned || !planned.startDate || !planned.targetDate || !item.startDate || !item.targetDate) return null;
+  return {
+    baseline: planned,
+    startVarianceDays: workDaysBetween(parseDateKey(planned.startDate), parseDateKey(item.startDate)),
+    finishVarianceDays: workDaysBetween(parseDateKey(planned.targetDate), parseDateKey(item.targetDate)),
+    hoursVariance: (item.estimatedHours || 0) - (planned.estimatedHours || 0)
+  };
+}
+
+// e.g. "+3 work days", "-12h", "on plan"
+export function formatVariance(value: number, unit: 'days' | 'hours'): string {
+  if (value === 0) return 'on plan';
+  const sign = value > 0 ? '+' : '';
+  if (unit === 'hours') return `${sign}${Math.round(value * 10) / 10}h`;
+  return `${sign}${value} work day${Math.abs(value) === 1 ? '' : 's'}`;
+}
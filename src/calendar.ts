@@ -0,0 +1,91 @@
+import type { PoolCapacityPeriod, PoolData, PoolMember, TimeOff } from './types';
+import { isDayOff, addDays, parseDateKey, toDateKey } from './workDays';
+
+// Holidays, time off and capacity changes. Company holidays belong to the workspace, pool time
+// off to a whole pool and member time off to one person. A week's capacity shrinks by the share
+// of its five weekdays that are off; project allocations don't, so utilization rises in those
+// weeks. A pool's hours can also change on a date (capacity periods), and members can join or
+// leave; each weekday counts with the hours in effect on it. Week starts are local midnight on
+// Sunday, and their weekdays are stepped and keyed as local calendar days (see workDays.ts).
+
+export interface WeekCapacity {
+  weeklyHours: number;
+  reservedHours: number; // Support and meetings, which don't happen on days off either
+}
+
+// Share of a week's weekdays (0 to 1) that aren't off
+export function getWorkingShare(weekStart: Date, daysOff: TimeOff[]): number {
+  if (daysOff.length === 0) return 1;
+  let working = 0;
+  for (let i = 1; i <= 5; i++) {
+    if (!isDayOff(addDays(weekStart, i), daysOff)) working++;
+  }
+  return working / 5;
+}
+
+// Days a pool's projects can't be worked on: company holidays plus the pool's own time off
+export function getPoolDaysOff(pool: Pick<PoolData, 'timeOff'> | undefined, holidays: TimeOff[]): TimeOff[] {
+  return pool?.timeOff && pool.timeOff.length > 0 ? [...holidays, ...pool.timeOff] : holidays;
+}
+
+// A member's days without hours: their time off, and the days before they join or after they leave
+function getMemberDaysOff(member: PoolMember): TimeOff[] {
+  const daysOff = [...(member.timeOff || [])];
+  if (member.startDate) {
+    daysOff.push({ id: 'before-start', name: 'Not yet joined', startDate: '0000-01-01', endDate: toDateKey(addDays(parseDateKey(member.startDate), -1)) });
+  }
+  if (member.endDate) {
+    daysOff.push({ id: 'after-end', name: 'Left', startDate: toDateKey(addDays(parseDateKey(member.endDate), 1)), endDate: '9999-12-31' });
+  }
+  return daysOff;
+}
+
+// The pool's weekly, support and meeting hours on a day: those of the latest capacity period
+// started by then, or its own
+export function getPoolHoursOn(pool: PoolData, date: string): Pick<PoolData, 'weeklyHours' | 'supportHours' | 'meetingHours'> {
+  const period = (pool.capacityPeriods || [])
+    .filter(p => p.startDate <= date)
+    .reduce<PoolCapacityPeriod | null>((latest, p) => (!latest || p.startDate >= latest.startDate ? p : latest), null);
+  return period || pool;
+}
+
+export function getMemberWeekCapacity(member: PoolMember, pool: PoolData, weekStart: Date, holidays: TimeOff[]): WeekCapacity {
+  const share = getWorkingShare(weekStart, [...getPoolDaysOff(pool, holidays), ...getMemberDaysOff(member)]);
+  return {
+    weeklyHours: (Number(member.weeklyHours) || 0) * share,
+    reservedHours: ((Number(member.supportHours) || 0) + (Number(member.meetingHours) || 0)) * share
+  };
+}
+
+// A pool's hours in one week: its members' hours after their time off, or the pool's hours in
+// effect each weekday that isn't a holiday or pool time off
+export function getPoolWeekCapacity(pool: PoolData, weekStart: Date, holidays: TimeOff[]): WeekCapacity {
+  if (pool.members && pool.members.length > 0) {
+    return pool.members.reduce((total, member) => {
+      const capacity = getMemberWeekCapacity(member, pool, weekStart, holidays);
+      return { weeklyHours: total.weeklyHours + capacity.weeklyHours, reservedHours: total.reservedHours + capacity.reservedHours };
+    }, { weeklyHours: 0, reservedHours: 0 });
+  }
+  if (!pool.capacityPeriods || pool.capacityPeriods.length === 0) {
+    const share = getWorkingShare(weekStart, getPoolDaysOff(pool, holidays));
+    return {
+      weeklyHours: pool.weeklyHours * share,
+      reservedHours: ((Number(pool.supportHours) || 0) + (Number(pool.meetingHours) || 0)) * share
+    };
+  }
+  const daysOff = getPoolDaysOff(pool, holidays);
+  const capacity = { weeklyHours: 0, reservedHours: 0 };
+  for (let i = 1; i <= 5; i++) {
+    const day = addDays(weekStart, i);
+    if (isDayOff(day, daysOff)) continue;
+    const hours = getPoolHoursOn(pool, toDateKey(day));
+    capacity.weeklyHours += (Number(hours.weeklyHours) || 0) / 5;
+    capacity.reservedHours += ((Number(hours.supportHours) || 0) + (Number(hours.meetingHours) || 0)) / 5;
+  }
+  return capacity;
+}
+
+// Time off ranges overlapping a date range, e.g. to list them on a project's dates
+export function getOverlappingTimeOff(ranges: TimeOff[], startDate: string, endDate: string): TimeOff[] {
+  return ranges.filter(range => range.startDate <= endDate && range.endDate >= startDate);
+}
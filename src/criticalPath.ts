@@ -0,0 +1,122 @@
+import type { ProjectDependency, ProjectFormData } from './types';
+import { shiftWorkDays, workDaysBetween, parseDateKey, toDateKey } from './workDays';
+import { getLinkOffset } from './dependencies';
+
+export interface ProjectFloat {
+  totalFloat: number; // Work days the project can slip without moving the portfolio end date
+  freeFloat: number; // Work days the project can slip without moving any successor
+  isCritical: boolean; // No total float: slipping this project moves the portfolio end date
+  lateStartDate: string; // Latest start that keeps the portfolio end date
+  lateFinishDate: string; // Latest finish that keeps the portfolio end date
+}
+
+export interface CriticalPathAnalysis {
+  endDate: string; // Portfolio end date (latest target date)
+  floats: { [projectId: string]: ProjectFloat };
+  criticalIds: string[]; // Critical projects in start date order
+}
+
+// Start/finish of a project as work-day offsets from the earliest start in the portfolio
+interface Span {
+  start: number;
+  finish: number;
+}
+
+// Slack on one dependency link: how far the predecessor can slip before the link is broken
+function getLinkSlack(predecessor: Span, successor: Span, dependency: ProjectDependency): number {
+  const offset = getLinkOffset(dependency);
+  if (dependency.type === 'SS') return successor.start - (predecessor.start + offset);
+  if (dependency.type === 'FF') return successor.finish - (predecessor.finish + offset);
+  return successor.start - (predecessor.finish + offset);
+}
+
+// Critical path method over the current project dates. The forward pass is the schedule as it
+// stands (projects are already dated), so this runs the backward pass from the portfolio end date
+// to find how late each project could be, and measures float in work days against that.
+// Negative float means a dependency is already broken. Projects without dates are ignored.
+export function analyzeCriticalPath(projects: ProjectFormData[]): CriticalPathAnalysis {
+  const dated = projects.filter(p => p.startDate && p.targetDate);
+  if (dated.length === 0) return { endDate: '', floats: {}, criticalIds: [] };
+
+  const reference = parseDateKey(dated.reduce((min, p) => (p.startDate < min ? p.startDate : min), dated[0].startDate));
+  const endDate = dated.reduce((max, p) => (p.targetDate > max ? p.targetDate : max), dated[0].targetDate);
+  const end = workDaysBetween(reference, parseDateKey(endDate));
+
+  const spans = new Map<string, Span>(dated.map(p => [p.id, {
+    start: workDaysBetween(reference, parseDateKey(p.startDate)),
+    finish: workDaysBetween(reference, parseDateKey(p.targetDate))
+  }]));
+
+  // Successor links of every dated project
+  const successors = new Map<string, { successorId: string; dependency: ProjectDependency }[]>();
+  dated.forEach(p => {
+    (p.dependencies || []).forEach(dependency => {
+      if (!spans.has(dependency.predecessorId)) return;
+      if (!successors.has(dependency.predecessorId)) successors.set(dependency.predecessorId, []);
+      successors.get(dependency.predecessorId)!.push({ successorId: p.id, dependency });
+    });
+  });
+
+  // Topological order (predecessors first); projects caught in a loop are appended as-is
+  const inDegree = new Map(dated.map(p => [p.id, (p.dependencies || []).filter(d => spans.has(d.predecessorId)).length]));
+  const ready = dated.filter(p => inDegree.get(p.id) === 0).map(p => p.id);
+  const ordered: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    ordered.push(id);
+    (successors.get(id) || []).forEach(({ successorId }) => {
+      const remaining = inDegree.get(successorId)! - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) ready.push(successorId);
+    });
+  }
+  dated.forEach(p => {
+    if (!ordered.includes(p.id)) ordered.push(p.id);
+  });
+
+  // Backward pass: latest finish allowed by every successor's latest dates
+  const lateFinish = new Map<string, number>();
+  const lateStart = new Map<string, number>();
+  [...ordered].reverse().forEach(id => {
+    const span = spans.get(id)!;
+    const duration = span.finish - span.start;
+    let latest = end;
+    (successors.get(id) || []).forEach(({ successorId, dependency }) => {
+      const successorLateStart = lateStart.get(successorId);
+      const successorLateFinish = lateFinish.get(successorId);
+      if (successorLateStart === undefined || successorLateFinish === undefined) return; // Loop member
+      const offset = getLinkOffset(dependency);
+      const allowed = dependency.type === 'SS' ? successorLateStart - offset + duration
+        : dependency.type === 'FF' ? successorLateFinish - offset
+        : successorLateStart - offset;
+      latest = Math.min(latest, allowed);
+    });
+    lateFinish.set(id, latest);
+    lateStart.set(id, latest - duration);
+  });
+
+  const floats: { [projectId: string]: ProjectFloat } = {};
+  dated.forEach(p => {
+    const span = spans.get(p.id)!;
+    const links = successors.get(p.id) || [];
+    const totalFloat = lateFinish.get(p.id)! - span.finish;
+    const freeFloat = links.length > 0
+      ? Math.min(...links.map(({ successorId, dependency }) => getLinkSlack(span, spans.get(successorId)!, dependency)))
+      : end - span.finish;
+
+    floats[p.id] = {
+      totalFloat,
+      freeFloat,
+      isCritical: totalFloat <= 0,
+      lateStartDate: toDateKey(shiftWorkDays(reference, lateStart.get(p.id)!)),
+      lateFinishDate: toDateKey(shiftWorkDays(reference, lateFinish.get(p.id)!))
+    };
+  });
+
+  const criticalIds = dated
+    .filter(p => floats[p.id].isCritical)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .map(p => p.id);
+
+  return { endDate, floats, criticalIds };
+}
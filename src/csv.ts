@@ -0,0 +1,210 @@
+import type { ProjectFormData, PoolData, DependencyType, MemberAssignment, ProjectDependency } from './types';
+import { formatActuals, parseActuals } from './actuals';
+
+// CSV as RFC 4180 defines it: fields holding commas, quotes or line breaks are quoted, quotes
+// inside them doubled, and records end in CRLF. The reader also takes LF or CR line endings
+// and a leading byte order mark, as spreadsheets save them.
+
+type CsvValue = string | number | undefined;
+
+function toField(value: CsvValue) {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(toField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Records with the line each starts on (1-based), which differs from the record number once a
+// quoted field spans lines; blank lines are skipped
+function readCsvRecords(text: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') records.push({ fields: row, line: recordLine });
+    row = [];
+    field = '';
+    recordLine = line;
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          field += '\r';
+          i++;
+        }
+        field += text[i];
+        line++;
+      } else if (char !== '"') field += char;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error(`Unterminated quoted field in the record starting on line ${recordLine}`);
+  if (field !== '' || row.length > 0) endRow();
+  return records;
+}
+
+// Records as arrays of fields; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  return readCsvRecords(text).map(record => record.fields);
+}
+
+// Records keyed by the header row, with the line each starts on; short records leave the
+// missing fields empty
+export function parseCsvTable(text: string): { headers: string[]; rows: { values: Record<string, string>; line: number }[] } {
+  const [header, ...records] = readCsvRecords(text);
+  const headers = (header?.fields || []).map(h => h.trim());
+  const rows = records.map(record => {
+    const values: Record<string, string> = {};
+    headers.forEach((h, i) => { values[h] = record.fields[i] ?? ''; });
+    return { values, line: record.line };
+  });
+  return { headers, rows };
+}
+
+// "2024-01-07=50; 2024-01-14=20": per-week allocations as one cell
+export function formatWeeklyAllocations(allocations: ProjectFormData['weeklyAllocations']): string {
+  return Object.entries(allocations || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, allocation]) => `${weekStart}=${allocation}`)
+    .join('; ');
+}
+
+// "<member id>=50; <member id>=25"
+export function formatAssignments(assignments: MemberAssignment[] | undefined): string {
+  return (assignments || []).map(a => `${a.memberId}=${a.allocation}`).join('; ');
+}
+
+// "<predecessor id>=FS+2; <predecessor id>=SS-1": type and lag in work days
+export function formatDependencies(dependencies: ProjectDependency[] | undefined): string {
+  return (dependencies || []).map(d => `${d.predecessorId}=${d.type}${d.lagDays < 0 ? '' : '+'}${d.lagDays}`).join('; ');
+}
+
+// Split "key=value; key=value" cells, throwing on entries the pattern doesn't match
+function parseEntries<T>(text: string, pattern: RegExp, label: string, toEntry: (match: RegExpMatchArray) => T): T[] {
+  return text.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const match = part.match(pattern);
+    if (!match) throw new Error(`Invalid ${label} entry: ${part}`);
+    return toEntry(match);
+  });
+}
+
+// An item as read from a CSV row: it may have no id yet, and names its pool
+export type CsvProject = Omit<ProjectFormData, 'id' | 'poolId'> & { id?: string; poolId?: string; pool?: string };
+
+interface ProjectCsvColumn {
+  header: string;
+  required?: boolean; // Older CSVs without the other columns still import
+  format: (project: ProjectFormData, pools: PoolData[]) => CsvValue;
+  parse: (value: string) => Partial<CsvProject>;
+}
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value) || 0);
+const optionalText = (value: string) => value || undefined;
+const yesNo = (value: boolean | undefined) => (value ? 'yes' : '');
+
+// One schema for export and import, so a CSV exported here imports back to the same items
+export const projectCsvColumns: ProjectCsvColumn[] = [
+  { header: 'Project ID', format: p => p.id, parse: v => ({ id: optionalText(v) }) },
+  { header: 'Project Name', required: true, format: p => p.name, parse: v => ({ name: v }) },
+  { header: 'Sponsor', required: true, format: p => p.sponsor, parse: v => ({ sponsor: v }) },
+  { header: 'Pool ID', format: p => p.poolId, parse: v => ({ poolId: optionalText(v) }) },
+  { header: 'Pool', required: true, format: (p, pools) => pools.find(pool => pool.id === p.poolId)?.name || '', parse: v => ({ pool: v }) },
+  { header: 'Start Date', required: true, format: p => p.startDate, parse: v => ({ startDate: v }) },
+  { header: 'Target Date', required: true, format: p => p.targetDate, parse: v => ({ targetDate: v }) },
+  { header: 'Estimated Hours', required: true, format: p => p.estimatedHours, parse: v => ({ estimatedHours: Number(v) || 0 }) },
+  // The hand-entered progress; progress from actuals follows from the Actual Hours column
+  { header: 'Progress (%)', required: true, format: p => p.progress, parse: v => ({ progress: Number(v) || 0 }) },
+  { header: 'Status', required: true, format: p => p.status, parse: v => ({ status: optionalText(v) }) },
+  { header: 'Weekly Allocation (%)', required: true, format: p => p.weeklyAllocation, parse: v => ({ weeklyAllocation: optionalNumber(v) }) },
+  {
+    header: 'Weekly Allocations',
+    format: p => formatWeeklyAllocations(p.weeklyAllocations),
+    parse: v => {
+      const entries = parseEntries(v, /^(\d{4}-\d{2}-\d{2})=(-?[\d.]+)$/, 'weekly allocation', m => [m[1], Number(m[2])] as const);
+      return { weeklyAllocations: entries.length > 0 ? Object.fromEntries(entries) : undefined };
+    }
+  },
+  { header: 'Notes', required: true, format: p => p.notes, parse: v => ({ notes: optionalText(v) }) },
+  { header: 'Last Modified', required: true, format: p => p.lastModified, parse: v => ({ lastModified: v || new Date().toISOString() }) },
+  {
+    header: 'Item Type',
+    format: p => p.itemType || 'project',
+    parse: v => ({ itemType: v === 'milestone' || v === 'phase' ? v : undefined })
+  },
+  { header: 'Parent ID', format: p => p.parentId, parse: v => ({ parentId: optionalText(v) }) },
+  { header: 'Progress Override', format: p => yesNo(p.progressOverride), parse: v => ({ progressOverride: v === 'yes' || undefined }) },
+  { header: 'Actual Hours', format: p => formatActuals(p.actuals), parse: v => ({ actuals: v ? parseActuals(v) : undefined }) },
+  {
+    header: 'Assignments',
+    format: p => formatAssignments(p.assignments),
+    parse: v => {
+      const assignments = parseEntries(v, /^(.+)=(-?[\d.]+)$/, 'assignment', m => ({ memberId: m[1].trim(), allocation: Number(m[2]) }));
+      return { assignments: assignments.length > 0 ? assignments : undefined };
+    }
+  },
+  {
+    header: 'Dependencies',
+    format: p => formatDependencies(p.dependencies),
+    parse: v => {
+      const dependencies = parseEntries(v, /^(.+)=(FS|SS|FF)([+-]\d+)$/, 'dependency', m => ({
+        predecessorId: m[1].trim(),
+        type: m[2] as DependencyType,
+        lagDays: Number(m[3])
+      }));
+      return { dependencies: dependencies.length > 0 ? dependencies : undefined };
+    }
+  },
+  { header: 'Priority', format: p => p.priority, parse: v => ({ priority: optionalNumber(v) }) },
+  { header: 'Locked Dates', format: p => yesNo(p.lockedDates), parse: v => ({ lockedDates: v === 'yes' || undefined }) },
+  { header: 'Auto Recalculated', format: p => yesNo(p.autoRecalculated), parse: v => ({ autoRecalculated: v === 'yes' || undefined }) }
+];
+
+export function toProjectsCsv(projects: ProjectFormData[], pools: PoolData[]): string {
+  return toCsv([
+    projectCsvColumns.map(column => column.header),
+    ...projects.map(project => projectCsvColumns.map(column => column.format(project, pools)))
+  ]);
+}
+
+// Items from a CSV in the schema above. Columns the file doesn't have are left unset, and
+// errors name the line the row starts on.
+export function parseProjectsCsv(text: string): CsvProject[] {
+  const { headers, rows } = parseCsvTable(text);
+  projectCsvColumns.filter(column => column.required).forEach(column => {
+    if (!headers.includes(column.header)) throw new Error(`Missing column: ${column.header}`);
+  });
+  const columns = projectCsvColumns.filter(column => headers.includes(column.header));
+
+  return rows.map(row => {
+    try {
+      return Object.assign({}, ...columns.map(column => column.parse(row.values[column.header]))) as CsvProject;
+    } catch (error) {
+      throw new Error(`Line ${row.line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
@@ -0,0 +1,104 @@
+import type { DependencyType, ProjectDependency, ProjectFormData } from './types';
+import { shiftWorkDays, parseDateKey, toDateKey } from './workDays';
+
+export const dependencyTypeLabels: { [key in DependencyType]: string } = {
+  FS: 'Finish-to-Start',
+  SS: 'Start-to-Start',
+  FF: 'Finish-to-Finish',
+};
+
+export interface DependencyViolation {
+  predecessorId: string;
+  successorId: string;
+  dependency: ProjectDependency;
+  requiredDate: string; // Earliest allowed date for the constrained edge of the successor
+  actualDate: string;
+  message: string;
+}
+
+// The edge of the successor a dependency constrains: its start for FS/SS, its target date for FF
+export function getConstrainedField(type: DependencyType): 'startDate' | 'targetDate' {
+  return type === 'FF' ? 'targetDate' : 'startDate';
+}
+
+// Work days from the predecessor's date to the earliest allowed successor date with no lag.
+// As in MS Project, Finish-to-Start work starts the work day after the predecessor finishes,
+// while Start-to-Start and Finish-to-Finish edges may share the predecessor's date.
+export function getLinkOffset(dependency: ProjectDependency): number {
+  return (dependency.type === 'FS' ? 1 : 0) + (dependency.lagDays || 0);
+}
+
+// Earliest date the successor's constrained edge may fall on, given the predecessor's dates
+export function getRequiredDate(predecessor: Pick<ProjectFormData, 'startDate' | 'targetDate'>, dependency: ProjectDependency): string {
+  const anchor = dependency.type === 'SS' ? predecessor.startDate : predecessor.targetDate;
+  return toDateKey(shiftWorkDays(parseDateKey(anchor), getLinkOffset(dependency)));
+}
+
+// Check one dependency of a successor against the current dates; returns null when satisfied
+export function checkDependency(
+  successor: Pick<ProjectFormData, 'id' | 'name' | 'startDate' | 'targetDate'>,
+  predecessor: Pick<ProjectFormData, 'id' | 'name' | 'startDate' | 'targetDate'>,
+  dependency: ProjectDependency
+): DependencyViolation | null {
+  const field = getConstrainedField(dependency.type);
+  const actualDate = successor[field];
+  if (!actualDate || !predecessor.startDate || !predecessor.targetDate) return null;
+
+  const requiredDate = getRequiredDate(predecessor, dependency);
+  if (actualDate >= requiredDate) return null;
+
+  const edge = field === 'startDate' ? 'start' : 'finish';
+  return {
+    predecessorId: predecessor.id,
+    successorId: successor.id,
+    dependency,
+    requiredDate,
+    actualDate,
+    message: `${successor.name} (${dependencyTypeLabels[dependency.type]} on ${predecessor.name}) can't ${edge} before ${requiredDate}, but is set to ${actualDate}`
+  };
+}
+
+// All dependencies in the project set that the current dates violate
+export function getDependencyViolations(projects: ProjectFormData[]): DependencyViolation[] {
+  const byId = new Map(projects.map(p => [p.id, p]));
+  const violations: DependencyViolation[] = [];
+
+  projects.forEach(successor => {
+    (successor.dependencies || []).forEach(dependency => {
+      const predecessor = byId.get(dependency.predecessorId);
+      if (!predecessor) return;
+      const violation = checkDependency(successor, predecessor, dependency);
+      if (violation) violations.push(violation);
+    });
+  });
+
+  return violations;
+}
+
+// Would making `predecessorId` a predecessor of `successorId` create a loop?
+// True when the successor is already (directly or transitively) upstream of the predecessor.
+export function wouldCreateCycle(projects: ProjectFormData[], successorId: string, predecessorId: string): boolean {
+  if (successorId && successorId === predecessorId) return true;
+
+  const byId = new Map(projects.map(p => [p.id, p]));
+  const visited = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    if (currentId === successorId) return true;
+    if (visited.has(currentId)) continue;
+    visited.add(currentId);
+    (byId.get(currentId)?.dependencies || []).forEach(d => stack.push(d.predecessorId));
+  }
+
+  return false;
+}
+
+// Drop dependencies that point at a project that no longer exists
+export function removeDependenciesOn(projects: ProjectFormData[], deletedId: string): ProjectFormData[] {
+  return projects.map(p => {
+    if (!p.dependencies?.some(d => d.predecessorId === deletedId)) return p;
+    return { ...p, dependencies: p.dependencies.filter(d => d.predecessorId !== deletedId) };
+  });
+}
@@ -0,0 +1,53 @@
+import type { PoolData, ProjectFormData } from './types';
+
+// App-wide edit history. Each entry holds the projects and pools as they were right after an
+// action, so undo, redo and jumping to any point are all just restoring an entry.
+
+export interface HistorySnapshot {
+  projects: ProjectFormData[];
+  pools: PoolData[];
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string; // What the action did, e.g. "Edited project Website"
+  timestamp: string; // ISO timestamp
+  snapshot: HistorySnapshot;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]; // Oldest first
+  index: number; // Entry the app is showing; entries after it can be redone
+}
+
+const MAX_HISTORY_ENTRIES = 50;
+
+let nextEntryId = 1;
+
+function createEntry(label: string, snapshot: HistorySnapshot): HistoryEntry {
+  return { id: nextEntryId++, label, timestamp: new Date().toISOString(), snapshot };
+}
+
+export function createHistory(label: string, snapshot: HistorySnapshot): HistoryState {
+  return { entries: [createEntry(label, snapshot)], index: 0 };
+}
+
+// Add an action after the current entry. Anything that could have been redone is dropped,
+// and the oldest entries fall off once the history is full.
+export function recordHistory(history: HistoryState, label: string, snapshot: HistorySnapshot): HistoryState {
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(label, snapshot)];
+  const trimmed = entries.slice(Math.max(0, entries.length - MAX_HISTORY_ENTRIES));
+  return { entries: trimmed, index: trimmed.length - 1 };
+}
+
+export function moveHistory(history: HistoryState, index: number): HistoryState {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
+
+export function canUndo(history: HistoryState): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: HistoryState): boolean {
+  return history.index < history.entries.length - 1;
+}
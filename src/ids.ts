@@ -0,0 +1,60 @@
+import type { ProjectFormData, PoolData } from './types';
+
+// Records saved before ids existed: pools had no id and projects referenced pools by name
+type LegacyPool = Omit<PoolData, 'id'> & { id?: string };
+type LegacyProject = Omit<ProjectFormData, 'id' | 'poolId'> & { id?: string; poolId?: string; pool?: string };
+
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // Fallback for non-secure contexts where randomUUID is unavailable
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Assign ids to legacy records and convert project pool names into pool ids.
+// Records that already have ids are left untouched, so this is safe to run on every load.
+// When `existing` is given (imports), records without ids reuse the id of an existing
+// record with the same name so they update it instead of being added as duplicates.
+export function migrateToIds(
+  data: { projects: LegacyProject[]; pools: LegacyPool[] },
+  existing?: { projects: ProjectFormData[]; pools: PoolData[] }
+): { projects: ProjectFormData[]; pools: PoolData[] } {
+  const pools: PoolData[] = data.pools.map(pool => ({
+    ...pool,
+    id: pool.id || existing?.pools.find(p => p.name === pool.name)?.id || generateId()
+  }));
+
+  const resolvePoolId = (project: LegacyProject): string => {
+    if (project.poolId) return project.poolId;
+    if (!project.pool) return '';
+    const match = pools.find(p => p.name === project.pool) || existing?.pools.find(p => p.name === project.pool);
+    if (match) return match.id;
+
+    // Projects could name pools that were never defined; keep the reference by creating the pool
+    const created: PoolData = {
+      id: generateId(),
+      name: project.pool,
+      weeklyHours: 40,
+      standardWeekHours: 40,
+      supportHours: 0,
+      meetingHours: 0,
+      description: 'Created automatically while migrating saved data',
+      lastModified: new Date().toISOString()
+    };
+    pools.push(created);
+    return created.id;
+  };
+
+  const projects: ProjectFormData[] = data.projects.map(project => {
+    const rest = { ...project };
+    delete rest.pool;
+    return {
+      ...rest,
+      id: project.id || existing?.projects.find(p => p.name === project.name)?.id || generateId(),
+      poolId: resolvePoolId(project)
+    };
+  });
+
+  return { projects, pools };
+}
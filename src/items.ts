@@ -0,0 +1,81 @@
+import type { ProjectFormData } from './types';
+import { getProgress } from './actuals';
+
+// Milestones have a single date (startDate === targetDate), no hours and no allocation,
+// so they never count towards pool utilization
+export function isMilestone(item: Pick<ProjectFormData, 'itemType'>): boolean {
+  return item.itemType === 'milestone';
+}
+
+// Strip everything a milestone can't have, pinning both dates to the milestone date
+export function toMilestone(item: ProjectFormData): ProjectFormData {
+  const date = item.startDate || item.targetDate;
+  return {
+    ...item,
+    itemType: 'milestone',
+    startDate: date,
+    targetDate: date,
+    estimatedHours: 0,
+    weeklyAllocation: 0,
+    weeklyAllocations: undefined,
+    assignments: undefined,
+    actuals: undefined,
+    progressOverride: undefined,
+    autoRecalculated: false
+  };
+}
+
+export function isPhase(item: Pick<ProjectFormData, 'itemType'>): boolean {
+  return item.itemType === 'phase';
+}
+
+// Phases grouped under their parent project, in start date order. Phases whose parent
+// no longer exists are left out and behave like top-level projects.
+export function getPhasesByParent(projects: ProjectFormData[]): Map<string, ProjectFormData[]> {
+  const ids = new Set(projects.map(p => p.id));
+  const phasesByParent = new Map<string, ProjectFormData[]>();
+  projects.forEach(p => {
+    if (!isPhase(p) || !p.parentId || p.parentId === p.id || !ids.has(p.parentId)) return;
+    if (!phasesByParent.has(p.parentId)) phasesByParent.set(p.parentId, []);
+    phasesByParent.get(p.parentId)!.push(p);
+  });
+  phasesByParent.forEach(phases => phases.sort((a, b) => a.startDate.localeCompare(b.startDate)));
+  return phasesByParent;
+}
+
+// Projects whose phases carry the work. Their bar is a summary, so their own allocation
+// is ignored by utilization to avoid counting the same hours twice.
+export function getSummaryIds(projects: ProjectFormData[]): Set<string> {
+  return new Set(getPhasesByParent(projects).keys());
+}
+
+// Recompute each parent's dates, hours and progress from its phases: earliest start, latest
+// target, total hours, and progress weighted by hours (each phase's own progress comes from
+// its actuals when it has any). Projects without phases are unchanged.
+export function rollUpPhases(projects: ProjectFormData[]): ProjectFormData[] {
+  const phasesByParent = getPhasesByParent(projects);
+  if (phasesByParent.size === 0) return projects;
+
+  return projects.map(p => {
+    const phases = phasesByParent.get(p.id);
+    if (!phases) return p;
+
+    const dated = phases.filter(phase => phase.startDate && phase.targetDate);
+    const estimatedHours = phases.reduce((sum, phase) => sum + (phase.estimatedHours || 0), 0);
+    const completedHours = phases.reduce((sum, phase) => sum + (phase.estimatedHours || 0) * getProgress(phase) / 100, 0);
+    const progress = estimatedHours > 0
+      ? Math.round((completedHours / estimatedHours) * 100)
+      : Math.round(phases.reduce((sum, phase) => sum + getProgress(phase), 0) / phases.length);
+
+    return {
+      ...p,
+      startDate: dated.length > 0 ? dated.reduce((min, phase) => (phase.startDate < min ? phase.startDate : min), dated[0].startDate) : p.startDate,
+      targetDate: dated.length > 0 ? dated.reduce((max, phase) => (phase.targetDate > max ? phase.targetDate : max), dated[0].targetDate) : p.targetDate,
+      estimatedHours,
+      progress,
+      // Hours are logged on the phases, so the rolled-up progress is the one that counts
+      actuals: undefined,
+      progressOverride: undefined
+    };
+  });
+}
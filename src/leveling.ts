@@ -0,0 +1,203 @@
+import type { ProjectFormData, PoolData, TimeOff } from './types';
+import { getWeekKey, getWeeklyAllocation, getAllocatedHours } from './utilization';
+import { getPoolWeekCapacity } from './calendar';
+import { checkDependency } from './dependencies';
+import { isMilestone, getSummaryIds } from './items';
+
+// Resource leveling: bring a pool back within its hours in the weeks flagged as over-allocated.
+// The pool's items active in those weeks are placed one at a time, highest priority first,
+// against the hours already taken by the items placed before them. An item that doesn't fit is
+// moved later by whole weeks, has its allocation in the flagged weeks cut to what's left, or
+// both (moved up to a few weeks, then cut), depending on the strategy. Items with locked dates,
+// or that have already started, are never moved, and no move may break a dependency.
+
+export type LevelingStrategy = 'allocations' | 'dates' | 'both';
+
+export const levelingStrategies: LevelingStrategy[] = ['both', 'dates', 'allocations'];
+
+export const levelingStrategyLabels: { [key in LevelingStrategy]: string } = {
+  both: 'Shift dates, then reduce allocations',
+  dates: 'Shift dates only',
+  allocations: 'Reduce allocations only',
+};
+
+export interface AllocationChange {
+  weekStart: string; // Week key (YYYY-MM-DD)
+  oldAllocation: number; // Percent of a standard week
+  newAllocation: number;
+}
+
+export interface LevelingChange {
+  projectId: string;
+  projectName: string;
+  priority?: number;
+  oldStartDate: string;
+  newStartDate: string;
+  oldTargetDate: string;
+  newTargetDate: string;
+  allocationChanges: AllocationChange[];
+  hoursRemoved: number; // Hours no longer scheduled because allocations were cut
+}
+
+export interface LevelingPlan {
+  projects: ProjectFormData[]; // Full project set with the leveled items applied
+  changes: LevelingChange[];
+  unresolvedWeeks: Date[]; // Flagged weeks still over-allocated afterwards
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SHIFT_WEEKS = 26; // How far 'dates' looks for a free slot
+const MAX_SHIFT_WEEKS_BEFORE_CUTTING = 4; // How far 'both' looks before cutting allocations instead
+
+// Lower numbers go first; items without a priority go last, in their current order
+function getPriorityRank(project: ProjectFormData) {
+  return project.priority ?? Number.MAX_SAFE_INTEGER;
+}
+
+function shiftDateKey(date: string, weeks: number) {
+  return new Date(new Date(date).getTime() + weeks * WEEK_MS).toISOString().split('T')[0];
+}
+
+// The item moved later by whole weeks, with its per-week allocations moving along with it
+function shiftProject(project: ProjectFormData, weeks: number): ProjectFormData {
+  const weeklyAllocations = project.weeklyAllocations
+    ? Object.fromEntries(Object.entries(project.weeklyAllocations).map(([week, allocation]) => [shiftDateKey(week, weeks), allocation]))
+    : undefined;
+  return {
+    ...project,
+    startDate: shiftDateKey(project.startDate, weeks),
+    targetDate: shiftDateKey(project.targetDate, weeks),
+    weeklyAllocations
+  };
+}
+
+// Sundays of the weeks overlapping an item's dates (the same weeks utilization.ts counts)
+function getProjectWeeks(project: ProjectFormData): Date[] {
+  const weeks: Date[] = [];
+  const end = new Date(project.targetDate);
+  const weekStart = new Date(project.startDate);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  for (; weekStart <= end; weekStart.setDate(weekStart.getDate() + 7)) weeks.push(new Date(weekStart));
+  return weeks;
+}
+
+function isActiveInWeek(project: ProjectFormData, weekStart: Date) {
+  const weekEnd = new Date(weekStart.getTime() + WEEK_MS - 24 * 60 * 60 * 1000);
+  return new Date(project.startDate) <= weekEnd && new Date(project.targetDate) >= weekStart;
+}
+
+export function levelPool(
+  projects: ProjectFormData[],
+  pools: PoolData[],
+  poolId: string,
+  flaggedWeeks: Date[],
+  strategy: LevelingStrategy,
+  holidays: TimeOff[] = []
+): LevelingPlan {
+  const pool = pools.find(p => p.id === poolId);
+  if (!pool) return { projects, changes: [], unresolvedWeeks: [] };
+
+  const today = new Date().toISOString().split('T')[0];
+  const summaryIds = getSummaryIds(projects);
+  const poolProjects = projects.filter(p =>
+    p.poolId === poolId &&
+    p.startDate &&
+    p.targetDate &&
+    !isMilestone(p) &&
+    !summaryIds.has(p.id) &&
+    !p.status?.toLowerCase().includes('complete')
+  );
+
+  const getAvailableHours = (weekStart: Date) => {
+    const capacity = getPoolWeekCapacity(pool, weekStart, holidays);
+    return capacity.weeklyHours - capacity.reservedHours;
+  };
+  const getLoad = (list: ProjectFormData[], weekStart: Date) => list
+    .filter(p => isActiveInWeek(p, weekStart))
+    .reduce((sum, p) => sum + getAllocatedHours(getWeeklyAllocation(p, weekStart), pool), 0);
+  const isOver = (list: ProjectFormData[], weekStart: Date) => getLoad(list, weekStart) > getAvailableHours(weekStart) + 1e-9;
+
+  const weeks = flaggedWeeks.filter(weekStart => isOver(poolProjects, weekStart));
+  const weekKeys = new Set(weeks.map(getWeekKey));
+  const candidates = poolProjects
+    .filter(p => weeks.some(weekStart => isActiveInWeek(p, weekStart)))
+    .sort((a, b) => getPriorityRank(a) - getPriorityRank(b));
+  const candidateIds = new Set(candidates.map(p => p.id));
+  const placed = poolProjects.filter(p => !candidateIds.has(p.id));
+  const leveled = new Map<string, ProjectFormData>();
+
+  // An item fits when it keeps the flagged weeks, and any week it moves into, within the pool's hours
+  const fits = (original: ProjectFormData, project: ProjectFormData) => getProjectWeeks(project)
+    .filter(weekStart => weekKeys.has(getWeekKey(weekStart)) || !isActiveInWeek(original, weekStart))
+    .every(weekStart => !isOver([...placed, project], weekStart));
+
+  // Moving an item later must leave every item that depends on it satisfied
+  const breaksDependency = (project: ProjectFormData) => projects.some(successor =>
+    (successor.dependencies || []).some(dependency =>
+      dependency.predecessorId === project.id && checkDependency(leveled.get(successor.id) || successor, project, dependency) !== null
+    )
+  );
+
+  const findShift = (original: ProjectFormData, maxWeeks: number) => {
+    if (original.lockedDates || original.startDate <= today) return null;
+    for (let weeks = 1; weeks <= maxWeeks; weeks++) {
+      const shifted = shiftProject(original, weeks);
+      if (breaksDependency(shifted)) return null;
+      if (fits(original, shifted)) return shifted;
+    }
+    return null;
+  };
+
+  // Cut the item's allocation in each flagged week it overfills to the hours still free
+  const cutAllocations = (original: ProjectFormData) => {
+    const weeklyAllocations = { ...original.weeklyAllocations };
+    weeks.filter(weekStart => isActiveInWeek(original, weekStart)).forEach(weekStart => {
+      const freeHours = Math.max(0, getAvailableHours(weekStart) - getLoad(placed, weekStart));
+      const allocation = getWeeklyAllocation(original, weekStart);
+      const allowed = Math.floor((freeHours / (pool.standardWeekHours || 40)) * 100);
+      if (allocation > allowed) weeklyAllocations[getWeekKey(weekStart)] = allowed;
+    });
+    return { ...original, weeklyAllocations };
+  };
+
+  candidates.forEach(original => {
+    let project = original;
+    if (!fits(original, original)) {
+      const shifted = strategy === 'allocations' ? null : findShift(original, strategy === 'dates' ? MAX_SHIFT_WEEKS : MAX_SHIFT_WEEKS_BEFORE_CUTTING);
+      if (shifted) project = shifted;
+      else if (strategy !== 'dates') project = cutAllocations(original);
+    }
+    placed.push(project);
+    if (project !== original) leveled.set(project.id, project);
+  });
+
+  const changes: LevelingChange[] = candidates.filter(p => leveled.has(p.id)).map(original => {
+    const project = leveled.get(original.id)!;
+    // A moved item keeps its allocations (they move with it); otherwise they were cut
+    const allocationChanges = project.startDate !== original.startDate ? [] : getProjectWeeks(project)
+      .map(weekStart => ({
+        weekStart: getWeekKey(weekStart),
+        oldAllocation: getWeeklyAllocation(original, weekStart),
+        newAllocation: getWeeklyAllocation(project, weekStart)
+      }))
+      .filter(change => change.newAllocation !== change.oldAllocation);
+    return {
+      projectId: original.id,
+      projectName: original.name,
+      priority: original.priority,
+      oldStartDate: original.startDate,
+      newStartDate: project.startDate,
+      oldTargetDate: original.targetDate,
+      newTargetDate: project.targetDate,
+      allocationChanges,
+      hoursRemoved: allocationChanges.reduce((sum, change) => sum + getAllocatedHours(change.oldAllocation - change.newAllocation, pool), 0)
+    };
+  });
+
+  return {
+    projects: projects.map(p => leveled.get(p.id) || p),
+    changes,
+    unresolvedWeeks: weeks.filter(weekStart => isOver(placed, weekStart))
+  };
+}
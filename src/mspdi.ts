@@ -0,0 +1,332 @@
+import type { ProjectFormData, PoolData, DependencyType, ProjectDependency } from './types';
+import { migrateToIds } from './ids';
+import { isMilestone, getPhasesByParent } from './items';
+import { countWorkDays, parseDateKey } from './workDays';
+import { getProgress } from './actuals';
+
+// Microsoft Project XML (MSPDI). Projects, phases and milestones become tasks: phases are
+// outlined under their project, which MS Project then shows as a summary task. Pools become
+// work resources and each item's pool and allocation an assignment. Our ids, sponsors and
+// statuses travel in the custom fields Text1 to Text3, so a file exported here and edited in
+// MS Project updates the same items when imported back.
+
+const HOURS_PER_DAY = 8;
+const LAG_UNITS_PER_DAY = HOURS_PER_DAY * 60 * 10; // MSPDI lags are in tenths of a minute
+const LAG_FORMAT_DAYS = 7;
+
+// Custom task fields: FieldID and name as MS Project defines them
+const customFields = {
+  id: { fieldId: '188743731', fieldName: 'Text1', alias: 'Planner ID' },
+  sponsor: { fieldId: '188743734', fieldName: 'Text2', alias: 'Sponsor' },
+  status: { fieldId: '188743737', fieldName: 'Text3', alias: 'Status' },
+};
+
+// MSPDI link types: 0 FF, 1 FS, 2 SF (not supported here), 3 SS
+const linkTypes: { [key in DependencyType]: number } = { FF: 0, FS: 1, SS: 3 };
+
+function escapeXml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function element(name: string, value: string | number) {
+  return `<${name}>${typeof value === 'string' ? escapeXml(value) : value}</${name}>`;
+}
+
+// e.g. PT40H0M0S
+function toDuration(hours: number) {
+  const wholeHours = Math.floor(hours);
+  const minutes = Math.round((hours - wholeHours) * 60);
+  return `PT${wholeHours}H${minutes}M0S`;
+}
+
+function parseDuration(value: string | null): number {
+  const match = value?.match(/^PT(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!match) return 0;
+  return Number(match[1] || 0) + Number(match[2] || 0) / 60 + Number(match[3] || 0) / 3600;
+}
+
+// Top-level items in order, each project followed by its phases
+function getOutline(projects: ProjectFormData[]) {
+  const phasesByParent = getPhasesByParent(projects);
+  const phaseIds = new Set([...phasesByParent.values()].flat().map(p => p.id));
+  const outline: { item: ProjectFormData; level: number; summary: boolean }[] = [];
+  projects
+    .filter(p => !phaseIds.has(p.id))
+    .sort((a, b) => Number(isMilestone(a)) - Number(isMilestone(b)))
+    .forEach(item => {
+      const phases = phasesByParent.get(item.id) || [];
+      outline.push({ item, level: 1, summary: phases.length > 0 });
+      phases.forEach(phase => outline.push({ item: phase, level: 2, summary: false }));
+    });
+  return outline;
+}
+
+export function toMspdiXml(projects: ProjectFormData[], pools: PoolData[], name: string): string {
+  const outline = getOutline(projects);
+  const taskUids = new Map(outline.map(({ item }, index) => [item.id, index + 1]));
+  const resourceUids = new Map(pools.map((pool, index) => [pool.id, index + 1]));
+  const starts = projects.map(p => p.startDate).filter(Boolean).sort();
+
+  const tasks = outline.map(({ item, level, summary }, index) => {
+    const milestone = isMilestone(item);
+    const start = item.startDate || item.targetDate;
+    const finish = item.targetDate || item.startDate;
+    const workDays = milestone || !start ? 0 : countWorkDays(parseDateKey(start), parseDateKey(finish));
+    const links = (item.dependencies || [])
+      .filter(d => taskUids.has(d.predecessorId))
+      .map(d => [
+        '<PredecessorLink>',
+        element('PredecessorUID', taskUids.get(d.predecessorId)!),
+        element('Type', linkTypes[d.type]),
+        element('LinkLag', (d.lagDays || 0) * LAG_UNITS_PER_DAY),
+        element('LagFormat', LAG_FORMAT_DAYS),
+        '</PredecessorLink>'
+      ].join(''));
+    const customValues = [
+      [customFields.id, item.id],
+      [customFields.sponsor, item.sponsor],
+      [customFields.status, item.status]
+    ] as const;
+    return [
+      '<Task>',
+      element('UID', index + 1),
+      element('ID', index + 1),
+      element('Name', item.name),
+      element('Type', 0),
+      element('OutlineLevel', level),
+      start ? element('Start', `${start}T08:00:00`) : '',
+      finish ? element('Finish', `${finish}T17:00:00`) : '',
+      element('Duration', toDuration(workDays * HOURS_PER_DAY)),
+      element('DurationFormat', 7),
+      element('Work', toDuration(milestone ? 0 : item.estimatedHours || 0)),
+      element('Milestone', milestone ? 1 : 0),
+      element('Summary', summary ? 1 : 0),
+      element('PercentComplete', Math.round(getProgress(item))),
+      // Keep the start MS Project would otherwise move to the project start
+      start ? element('ConstraintType', 4) : '',
+      start ? element('ConstraintDate', `${start}T08:00:00`) : '',
+      item.notes ? element('Notes', item.notes) : '',
+      ...links,
+      ...customValues
+        .filter(([, value]) => value)
+        .map(([field, value]) => `<ExtendedAttribute>${element('FieldID', field.fieldId)}${element('Value', value!)}</ExtendedAttribute>`),
+      '</Task>'
+    ].join('');
+  });
+
+  const resources = pools.map((pool, index) => [
+    '<Resource>',
+    element('UID', index + 1),
+    element('ID', index + 1),
+    element('Name', pool.name),
+    element('Type', 1),
+    element('MaxUnits', Math.round((pool.weeklyHours / (pool.standardWeekHours || 40)) * 100) / 100),
+    pool.description ? element('Notes', pool.description) : '',
+    '</Resource>'
+  ].join(''));
+
+  // Summary tasks get their work from their phases, and milestones have none
+  const assignments = outline
+    .filter(({ item, summary }) => !summary && !isMilestone(item) && resourceUids.has(item.poolId))
+    .map(({ item }, index) => [
+      '<Assignment>',
+      element('UID', index + 1),
+      element('TaskUID', taskUids.get(item.id)!),
+      element('ResourceUID', resourceUids.get(item.poolId)!),
+      element('Units', (item.weeklyAllocation || 0) / 100),
+      element('Work', toDuration(item.estimatedHours || 0)),
+      '</Assignment>'
+    ].join(''));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    element('Name', `${name}.xml`),
+    element('Title', name),
+    element('ScheduleFromStart', 1),
+    starts.length > 0 ? element('StartDate', `${starts[0]}T08:00:00`) : '',
+    element('MinutesPerDay', HOURS_PER_DAY * 60),
+    element('MinutesPerWeek', HOURS_PER_DAY * 60 * 5),
+    element('DaysPerMonth', 20),
+    '<ExtendedAttributes>',
+    ...Object.values(customFields).map(field =>
+      `<ExtendedAttribute>${element('FieldID', field.fieldId)}${element('FieldName', field.fieldName)}${element('Alias', field.alias)}</ExtendedAttribute>`
+    ),
+    '</ExtendedAttributes>',
+    '<Tasks>', ...tasks, '</Tasks>',
+    '<Resources>', ...resources, '</Resources>',
+    '<Assignments>', ...assignments, '</Assignments>',
+    '</Project>'
+  ].filter(Boolean).join('\n');
+}
+
+// Text of a direct child element, or null
+function childText(parent: Element, name: string): string | null {
+  for (const child of Array.from(parent.children)) {
+    if (child.localName === name) return child.textContent;
+  }
+  return null;
+}
+
+function childElements(parent: Element | undefined, name: string): Element[] {
+  return parent ? Array.from(parent.children).filter(child => child.localName === name) : [];
+}
+
+// Item statuses this tool knows, for statuses that didn't come from here
+function getStatus(percentComplete: number) {
+  if (percentComplete >= 100) return 'Complete';
+  return percentComplete > 0 ? 'Development' : 'Not Started';
+}
+
+// Items and new pools from an MSPDI file. Tasks matched to existing items (by the id saved on
+// export, or by name) keep their ids; resources matched to existing pools by name use those
+// pools, and the rest come back as new pools.
+export function parseMspdiXml(
+  xml: string,
+  existing: { projects: ProjectFormData[]; pools: PoolData[] }
+): { projects: ProjectFormData[]; newPools: PoolData[] } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root?.localName !== 'Project') {
+    throw new Error('Not a Microsoft Project XML file');
+  }
+  const section = (name: string) => childElements(root, name)[0];
+
+  // Custom field FieldIDs by alias, so files whose fields were renamed in MS Project still map
+  const fieldIds = new Map(Object.values(customFields).map(field => [field.fieldId, field.fieldId]));
+  childElements(section('ExtendedAttributes'), 'ExtendedAttribute').forEach(attribute => {
+    const match = Object.values(customFields).find(field => field.alias === childText(attribute, 'Alias'));
+    const fieldId = childText(attribute, 'FieldID');
+    if (match && fieldId) fieldIds.set(fieldId, match.fieldId);
+  });
+
+  const resources = new Map<string, { name: string; maxUnits: number; notes: string }>();
+  childElements(section('Resources'), 'Resource').forEach(resource => {
+    const uid = childText(resource, 'UID');
+    const name = childText(resource, 'Name')?.trim();
+    // UID 0 is MS Project's placeholder; material (0) and cost (2) resources have no hours
+    if (!uid || uid === '0' || !name || (childText(resource, 'Type') || '1') !== '1') return;
+    resources.set(uid, { name, maxUnits: Number(childText(resource, 'MaxUnits') ?? 1) || 1, notes: childText(resource, 'Notes') || '' });
+  });
+
+  // First work assignment of each task: its pool and allocation
+  const assignments = new Map<string, { resourceUid: string; units: number }>();
+  childElements(section('Assignments'), 'Assignment').forEach(assignment => {
+    const taskUid = childText(assignment, 'TaskUID');
+    const resourceUid = childText(assignment, 'ResourceUID');
+    if (!taskUid || !resourceUid || !resources.has(resourceUid) || assignments.has(taskUid)) return;
+    assignments.set(taskUid, { resourceUid, units: Number(childText(assignment, 'Units') ?? 1) });
+  });
+
+  const tasks = childElements(section('Tasks'), 'Task').filter(task =>
+    childText(task, 'UID') !== '0' && childText(task, 'IsNull') !== '1' && childText(task, 'Name')?.trim()
+  );
+  if (tasks.length === 0) throw new Error('The file has no tasks to import');
+
+  // Top-level tasks are projects and milestones; everything under a project is one of its phases
+  const parentUids = new Map<string, string>();
+  let topLevelUid: string | null = null;
+  tasks.forEach(task => {
+    const uid = childText(task, 'UID')!;
+    if (Number(childText(task, 'OutlineLevel') || 1) <= 1) topLevelUid = uid;
+    else if (topLevelUid) parentUids.set(uid, topLevelUid);
+  });
+
+  const newPools: Omit<PoolData, 'id'>[] = [];
+  const poolNames = new Set(existing.pools.map(p => p.name));
+  resources.forEach(resource => {
+    if (poolNames.has(resource.name)) return;
+    poolNames.add(resource.name);
+    newPools.push({
+      name: resource.name,
+      weeklyHours: Math.round(resource.maxUnits * 40 * 10) / 10,
+      standardWeekHours: 40,
+      supportHours: 0,
+      meetingHours: 0,
+      description: resource.notes,
+      lastModified: new Date().toISOString()
+    });
+  });
+
+  // Sub-summaries below the top level have no work of their own; their tasks become phases
+  const imported = tasks
+    .filter(task => !(childText(task, 'Summary') === '1' && parentUids.has(childText(task, 'UID')!)))
+    .map(task => {
+      const uid = childText(task, 'UID')!;
+      const custom = new Map<string, string>();
+      childElements(task, 'ExtendedAttribute').forEach(attribute => {
+        const fieldId = fieldIds.get(childText(attribute, 'FieldID') || '');
+        if (fieldId) custom.set(fieldId, childText(attribute, 'Value') || '');
+      });
+
+      const milestone = childText(task, 'Milestone') === '1';
+      const startDate = (childText(task, 'Start') || '').split('T')[0];
+      const targetDate = milestone ? startDate : (childText(task, 'Finish') || startDate).split('T')[0];
+      const progress = Math.min(100, Math.max(0, Math.round(Number(childText(task, 'PercentComplete')) || 0)));
+      const estimatedHours = milestone ? 0 : Math.round(parseDuration(childText(task, 'Work')) * 10) / 10;
+      const assignment = assignments.get(uid);
+      // Without an assignment, the share of a full-time week the work takes over the task's duration
+      const durationHours = parseDuration(childText(task, 'Duration'));
+      const weeklyAllocation = milestone
+        ? 0
+        : assignment
+          ? Math.round(assignment.units * 100)
+          : durationHours > 0 ? Math.round((estimatedHours / durationHours) * 100) : 0;
+
+      const item = {
+        id: custom.get(customFields.id.fieldId) || undefined,
+        itemType: milestone ? 'milestone' as const : parentUids.has(uid) ? 'phase' as const : undefined,
+        name: childText(task, 'Name')!.trim(),
+        sponsor: custom.get(customFields.sponsor.fieldId) || '',
+        pool: assignment ? resources.get(assignment.resourceUid)!.name : undefined,
+        startDate,
+        targetDate,
+        estimatedHours,
+        progress,
+        status: custom.get(customFields.status.fieldId) || getStatus(progress),
+        weeklyAllocation,
+        notes: childText(task, 'Notes') || undefined,
+        lastModified: new Date().toISOString()
+      };
+      const links = childElements(task, 'PredecessorLink');
+      return { uid, item, links };
+    });
+
+  const migrated = migrateToIds(
+    { projects: imported.map(({ item }) => item), pools: newPools },
+    existing
+  );
+  const idsByUid = new Map(imported.map(({ uid }, index) => [uid, migrated.projects[index].id]));
+  const dependencyTypes = new Map(Object.entries(linkTypes).map(([type, value]) => [String(value), type as DependencyType]));
+
+  const projects = migrated.projects.map((project, index) => {
+    const { uid, links } = imported[index];
+    const current = existing.projects.find(p => p.id === project.id);
+    // Items without a pool (or with a resource of another kind) keep the pool they had, and
+    // summary tasks, which MS Project doesn't assign, take the pool of their first phase
+    const firstPhaseIndex = imported.findIndex(({ uid: phaseUid }, i) => parentUids.get(phaseUid) === uid && migrated.projects[i].poolId);
+    const poolId = project.poolId || current?.poolId || (firstPhaseIndex !== -1 ? migrated.projects[firstPhaseIndex].poolId : '');
+    const dependencies: ProjectDependency[] = links.flatMap(link => {
+      const predecessorId = idsByUid.get(childText(link, 'PredecessorUID') || '');
+      const type = dependencyTypes.get(childText(link, 'Type') ?? '1');
+      if (!predecessorId || !type || predecessorId === project.id) return [];
+      // Lags in elapsed time or percentages can't be expressed in work days; they're dropped
+      const lagFormat = Number(childText(link, 'LagFormat') ?? LAG_FORMAT_DAYS);
+      const lagDays = [3, 4, 5, 6, 7, 8].includes(lagFormat) ? Math.round(Number(childText(link, 'LinkLag') || 0) / LAG_UNITS_PER_DAY) : 0;
+      return [{ predecessorId, type, lagDays }];
+    });
+    const parentUid = parentUids.get(uid);
+    // Top-level milestones keep the row they were drawn on, which the outline doesn't record
+    const parentId = parentUid ? idsByUid.get(parentUid) : isMilestone(project) ? current?.parentId : undefined;
+    // Fields MSPDI doesn't carry (per-week allocations, actuals, priority...) are kept
+    return {
+      ...current,
+      ...project,
+      poolId,
+      parentId,
+      dependencies: dependencies.length > 0 ? dependencies : undefined
+    };
+  });
+
+  return { projects, newPools: migrated.pools };
+}
@@ -0,0 +1,135 @@
+import type { ProjectFormData, TimeOff } from './types';
+import type { AppData } from './storage';
+import { calculateAllWeekUtilizations, getWeekKey } from './utilization';
+import { getTimelineColumns } from './timescale';
+import { isMilestone } from './items';
+
+// What-if scenarios are workspaces forked from a live plan (see Workspace.scenarioOf). This
+// compares a scenario with the plan it was forked from: pool utilization week by week, and
+// which items moved, were added or were removed.
+
+export interface PoolWeekDifference {
+  weekStart: string; // YYYY-MM-DD
+  baseline: number | null; // Utilization %, null when the pool doesn't exist in that plan
+  scenario: number | null;
+}
+
+export interface PoolComparison {
+  poolId: string;
+  name: string;
+  baselinePeak: number | null; // Highest weekly utilization %, null when the pool isn't in that plan
+  scenarioPeak: number | null;
+  baselineOverAllocatedWeeks: number;
+  scenarioOverAllocatedWeeks: number;
+  weeks: PoolWeekDifference[]; // Only weeks whose utilization differs
+}
+
+export interface ItemDateChange {
+  projectId: string;
+  name: string;
+  change: 'moved' | 'added' | 'removed';
+  baseline?: Pick<ProjectFormData, 'startDate' | 'targetDate'>;
+  scenario?: Pick<ProjectFormData, 'startDate' | 'targetDate'>;
+  startShiftDays: number; // Calendar days, positive when later in the scenario
+  targetShiftDays: number;
+}
+
+export interface ScenarioComparison {
+  pools: PoolComparison[];
+  items: ItemDateChange[];
+}
+
+// Smallest difference in utilization worth reporting, in percentage points
+const UTILIZATION_TOLERANCE = 0.5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+}
+
+// Weeks spanning every dated item in either plan
+function getComparisonWeekStarts(projects: ProjectFormData[]): Date[] {
+  const times = projects
+    .flatMap(p => [new Date(p.startDate).getTime(), new Date(p.targetDate).getTime()])
+    .filter(t => !isNaN(t));
+  if (times.length === 0) return [];
+  return getTimelineColumns('week', new Date(Math.min(...times)), new Date(Math.max(...times))).map(c => c.start);
+}
+
+function compareItemDates(baseline: ProjectFormData[], scenario: ProjectFormData[]): ItemDateChange[] {
+  const baselineById = new Map(baseline.map(p => [p.id, p]));
+  const scenarioIds = new Set(scenario.map(p => p.id));
+  const changes: ItemDateChange[] = [];
+
+  scenario.forEach(item => {
+    const before = baselineById.get(item.id);
+    if (!before) {
+      changes.push({ projectId: item.id, name: item.name, change: 'added', scenario: item, startShiftDays: 0, targetShiftDays: 0 });
+      return;
+    }
+    if (before.startDate === item.startDate && before.targetDate === item.targetDate) return;
+    changes.push({
+      projectId: item.id,
+      name: item.name,
+      change: 'moved',
+      baseline: before,
+      scenario: item,
+      // A milestone only has its target date
+      startShiftDays: isMilestone(item) ? daysBetween(before.targetDate, item.targetDate) : daysBetween(before.startDate, item.startDate),
+      targetShiftDays: daysBetween(before.targetDate, item.targetDate)
+    });
+  });
+
+  baseline
+    .filter(p => !scenarioIds.has(p.id))
+    .forEach(item => changes.push({ projectId: item.id, name: item.name, change: 'removed', baseline: item, startShiftDays: 0, targetShiftDays: 0 }));
+
+  const order = { moved: 0, added: 1, removed: 2 };
+  return changes.sort((a, b) => order[a.change] - order[b.change] || a.name.localeCompare(b.name));
+}
+
+export function compareScenario(baseline: AppData, scenario: AppData, holidays: TimeOff[] = []): ScenarioComparison {
+  const weekStarts = getComparisonWeekStarts([...baseline.projects, ...scenario.projects]);
+  const baselineWeeks = calculateAllWeekUtilizations(baseline.projects, baseline.pools, weekStarts, holidays);
+  const scenarioWeeks = calculateAllWeekUtilizations(scenario.projects, scenario.pools, weekStarts, holidays);
+
+  // Pools from both plans; the scenario's name wins when a pool was renamed
+  const poolNames = new Map([...baseline.pools, ...scenario.pools].map(p => [p.id, p.name]));
+
+  const pools: PoolComparison[] = Array.from(poolNames, ([poolId, name]) => {
+    const comparison: PoolComparison = {
+      poolId,
+      name,
+      baselinePeak: baseline.pools.some(p => p.id === poolId) ? 0 : null,
+      scenarioPeak: scenario.pools.some(p => p.id === poolId) ? 0 : null,
+      baselineOverAllocatedWeeks: 0,
+      scenarioOverAllocatedWeeks: 0,
+      weeks: []
+    };
+
+    weekStarts.forEach(weekStart => {
+      const key = getWeekKey(weekStart);
+      const before = baselineWeeks.get(key)?.get(poolId);
+      const after = scenarioWeeks.get(key)?.get(poolId);
+      if (before) {
+        comparison.baselinePeak = Math.max(comparison.baselinePeak ?? 0, before.utilization);
+        if (before.isOverAllocated) comparison.baselineOverAllocatedWeeks++;
+      }
+      if (after) {
+        comparison.scenarioPeak = Math.max(comparison.scenarioPeak ?? 0, after.utilization);
+        if (after.isOverAllocated) comparison.scenarioOverAllocatedWeeks++;
+      }
+      const beforeValue = before?.utilization ?? null;
+      const afterValue = after?.utilization ?? null;
+      const differs = beforeValue === null || afterValue === null
+        ? beforeValue !== afterValue
+        : Math.abs(afterValue - beforeValue) >= UTILIZATION_TOLERANCE;
+      if (differs) comparison.weeks.push({ weekStart: key, baseline: beforeValue, scenario: afterValue });
+    });
+
+    return comparison;
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  return { pools, items: compareItemDates(baseline.projects, scenario.projects) };
+}
@@ -0,0 +1,144 @@
+import type { ProjectFormData, PoolData, TimeOff } from './types';
+import { addWorkDays, countWorkDays, shiftWorkDays, subtractWorkDays, parseDateKey, toDateKey } from './workDays';
+import { getRequiredDate } from './dependencies';
+import { getPoolDaysOff } from './calendar';
+
+export interface ScheduleChange {
+  projectId: string;
+  projectName: string;
+  oldStartDate: string;
+  newStartDate: string;
+  oldTargetDate: string;
+  newTargetDate: string;
+}
+
+export interface SchedulePlan {
+  projects: ProjectFormData[]; // Full project set with the re-planned dates applied
+  changes: ScheduleChange[]; // Only projects whose dates moved
+}
+
+// Work days needed to burn down the estimated hours at the given weekly allocation
+// (assuming 5 work days per week). Returns null when there's nothing to calculate from.
+export function calculateWorkDaysNeeded(estimatedHours: number, weeklyAllocation: number, standardWeekHours: number = 40): number | null {
+  if (!estimatedHours || estimatedHours <= 0 || !weeklyAllocation || weeklyAllocation <= 0) return null;
+
+  const availableHoursPerWeek = (weeklyAllocation / 100) * standardWeekHours;
+  if (availableHoursPerWeek <= 0) return null;
+
+  // Calculate weeks needed (can be fractional), then convert weeks to work days
+  const weeksNeeded = estimatedHours / availableHoursPerWeek;
+  return Math.ceil(weeksNeeded * 5);
+}
+
+// Target date for a project starting on `startDate`, from its hours and default allocation.
+// Holidays and the pool's time off aren't worked, so they push the date out.
+export function calculateTargetDate(startDate: string, project: Pick<ProjectFormData, 'estimatedHours' | 'weeklyAllocation'>, pool?: PoolData, holidays: TimeOff[] = []): string | null {
+  const workDays = calculateWorkDaysNeeded(project.estimatedHours, project.weeklyAllocation || 0, pool?.standardWeekHours || 40);
+  if (workDays === null || !startDate) return null;
+  return toDateKey(addWorkDays(parseDateKey(startDate), workDays, getPoolDaysOff(pool, holidays)));
+}
+
+// Start date for a project finishing on `targetDate`, from its hours and default allocation
+export function calculateStartDate(targetDate: string, project: Pick<ProjectFormData, 'estimatedHours' | 'weeklyAllocation'>, pool?: PoolData, holidays: TimeOff[] = []): string | null {
+  const workDays = calculateWorkDaysNeeded(project.estimatedHours, project.weeklyAllocation || 0, pool?.standardWeekHours || 40);
+  if (workDays === null || !targetDate) return null;
+  return toDateKey(subtractWorkDays(parseDateKey(targetDate), workDays, getPoolDaysOff(pool, holidays)));
+}
+
+// Work days between start and target, recalculated from hours when possible so a moved
+// project keeps the duration its allocation implies; otherwise its current span is kept
+function getDurationWorkDays(project: ProjectFormData, pool: PoolData | undefined, daysOff: TimeOff[]): number {
+  const calculated = calculateWorkDaysNeeded(project.estimatedHours, project.weeklyAllocation || 0, pool?.standardWeekHours || 40);
+  if (calculated !== null) return calculated;
+  return Math.max(0, countWorkDays(parseDateKey(project.startDate), parseDateKey(project.targetDate), daysOff) - 1);
+}
+
+// Forward-schedule everything downstream of `changedIds`.
+// The changed projects keep the dates they were given; each downstream project is moved to the
+// earliest start its predecessors allow (as soon as possible), processed in dependency order so
+// one move cascades through the whole chain. Completed projects are historical and never move.
+// Durations skip holidays and each project's pool time off.
+export function planSchedule(projects: ProjectFormData[], pools: PoolData[], changedIds: string[], holidays: TimeOff[] = []): SchedulePlan {
+  const byId = new Map(projects.map(p => [p.id, { ...p }]));
+  const successors = new Map<string, string[]>();
+  projects.forEach(p => {
+    (p.dependencies || []).forEach(d => {
+      if (!byId.has(d.predecessorId)) return;
+      if (!successors.has(d.predecessorId)) successors.set(d.predecessorId, []);
+      successors.get(d.predecessorId)!.push(p.id);
+    });
+  });
+
+  // Everything reachable downstream of the changed projects
+  const downstream = new Set<string>();
+  const queue = [...changedIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (successors.get(id) || []).forEach(successorId => {
+      if (downstream.has(successorId) || changedIds.includes(successorId)) return;
+      downstream.add(successorId);
+      queue.push(successorId);
+    });
+  }
+
+  // Order the downstream projects so every predecessor is planned before its successors
+  const inDegree = new Map<string, number>();
+  downstream.forEach(id => {
+    const deps = byId.get(id)!.dependencies || [];
+    inDegree.set(id, deps.filter(d => downstream.has(d.predecessorId)).length);
+  });
+  const ready = [...downstream].filter(id => inDegree.get(id) === 0);
+  const ordered: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    ordered.push(id);
+    (successors.get(id) || []).forEach(successorId => {
+      if (!inDegree.has(successorId)) return;
+      const remaining = inDegree.get(successorId)! - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) ready.push(successorId);
+    });
+  }
+  // Projects caught in a dependency loop never reach in-degree 0 and are left where they are
+
+  const changes: ScheduleChange[] = [];
+  ordered.forEach(id => {
+    const project = byId.get(id)!;
+    if (project.status?.toLowerCase().includes('complete')) return;
+    if (!project.startDate || !project.targetDate) return;
+
+    const pool = pools.find(p => p.id === project.poolId);
+    const daysOff = getPoolDaysOff(pool, holidays);
+    const duration = getDurationWorkDays(project, pool, daysOff);
+
+    // Earliest start satisfying every predecessor (FF constrains the finish, so back off the duration)
+    let earliestStart: string | null = null;
+    for (const dependency of project.dependencies || []) {
+      const predecessor = byId.get(dependency.predecessorId);
+      if (!predecessor?.startDate || !predecessor.targetDate) continue;
+      const required = getRequiredDate(predecessor, dependency);
+      const requiredStart = dependency.type === 'FF' ? toDateKey(shiftWorkDays(parseDateKey(required), -duration, daysOff)) : required;
+      if (earliestStart === null || requiredStart > earliestStart) earliestStart = requiredStart;
+    }
+    if (earliestStart === null) return;
+
+    const newStartDate = earliestStart;
+    const newTargetDate = toDateKey(addWorkDays(parseDateKey(newStartDate), duration, daysOff));
+    if (newStartDate === project.startDate && newTargetDate === project.targetDate) return;
+
+    changes.push({
+      projectId: project.id,
+      projectName: project.name,
+      oldStartDate: project.startDate,
+      newStartDate,
+      oldTargetDate: project.targetDate,
+      newTargetDate
+    });
+    byId.set(id, { ...project, startDate: newStartDate, targetDate: newTargetDate, autoRecalculated: true });
+  });
+
+  return {
+    projects: projects.map(p => byId.get(p.id)!),
+    changes
+  };
+}
@@ -0,0 +1,289 @@
+import type { PoolData, ProjectFormData } from './types';
+import { migrateToIds } from './ids';
+import { mergeRecords } from './sync';
+import { createWorkspace, DEFAULT_WORKSPACE_ID, emptyFilters, defaultWorkspaceSettings, type Workspace } from './workspaces';
+
+// Persistence on IndexedDB. Saved data carries a schema version; data saved by an older
+// version is brought up to date by running the migrations after its version, in order.
+// Data from before IndexedDB (the gantt-projects / gantt-pools localStorage keys) counts as
+// version 0 and is moved into the default workspace the first time the app runs.
+// Each workspace's projects and pools are one record in `appData`, keyed by workspace id;
+// the workspaces themselves (names, filters, settings) live in the `workspaces` store.
+
+export interface AppData {
+  projects: ProjectFormData[];
+  pools: PoolData[];
+}
+
+// Ids of the records a tab last read from or wrote to storage, to tell records added since
+// from records deleted since when merging (see mergeRecords)
+export interface SyncedIds {
+  projects: ReadonlySet<string>;
+  pools: ReadonlySet<string>;
+}
+
+export function getSyncedIds(data: AppData): SyncedIds {
+  return { projects: new Set(data.projects.map(p => p.id)), pools: new Set(data.pools.map(p => p.id)) };
+}
+
+interface StoredAppData extends AppData {
+  schemaVersion: number;
+  savedAt: string; // ISO timestamp
+}
+
+// Saved data that couldn't be loaded. `rawData` is whatever could be read, so it can be
+// downloaded and repaired by hand instead of being lost.
+export class StorageError extends Error {
+  rawData?: string;
+
+  constructor(message: string, rawData?: string) {
+    super(message);
+    this.name = 'StorageError';
+    this.rawData = rawData;
+  }
+}
+
+const DB_NAME = 'my-gantt';
+const DB_VERSION = 2; // IndexedDB structure (object stores), not the data schema
+const STORE_NAME = 'appData';
+const WORKSPACES_STORE_NAME = 'workspaces';
+
+export const LEGACY_PROJECTS_KEY = 'gantt-projects';
+export const LEGACY_POOLS_KEY = 'gantt-pools';
+
+// Which workspace to open, per browser rather than in the database
+const LAST_WORKSPACE_KEY = 'gantt-last-workspace';
+
+// migrations[i] upgrades data from schema version i to i + 1. Append new migrations; never
+// edit or reorder existing ones, since saved data may be at any version.
+const migrations: Array<(data: AppData) => AppData> = [
+  // 0 → 1: records from before ids existed reference pools by name
+  data => migrateToIds(data),
+];
+
+export const SCHEMA_VERSION = migrations.length;
+
+function migrate(data: AppData, fromVersion: number): AppData {
+  return migrations.slice(fromVersion).reduce((migrated, step) => step(migrated), data);
+}
+
+function isAppData(value: unknown): value is AppData {
+  const data = value as AppData;
+  return !!data && typeof data === 'object' && Array.isArray(data.projects) && Array.isArray(data.pools);
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('This browser does not support IndexedDB, so data cannot be saved.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Version 1 only had appData; its single record was already keyed 'default', which is
+      // the default workspace's id, so upgrading just adds the workspaces store
+      [STORE_NAME, WORKSPACES_STORE_NAME].forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(`Could not open the database: ${request.error?.message || 'unknown error'}`));
+    request.onblocked = () => reject(new StorageError('The database is in use by an older version of the app in another tab. Close other tabs and try again.'));
+  });
+}
+
+function readRecord(db: IDBDatabase, workspaceId: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(workspaceId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(`Could not read saved data: ${request.error?.message || 'unknown error'}`));
+  });
+}
+
+// Run `write` in one readwrite transaction over `storeNames`, resolving once it has committed
+function writeTransaction(db: IDBDatabase, storeNames: string[], write: (transaction: IDBTransaction) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, 'readwrite');
+    write(transaction);
+    transaction.oncomplete = () => resolve();
+    // Quota errors surface here
+    transaction.onerror = () => reject(new StorageError(`Could not save data: ${transaction.error?.message || 'unknown error'}`));
+    transaction.onabort = () => reject(new StorageError(`Could not save data: ${transaction.error?.message || 'the save was aborted'}`));
+  });
+}
+
+function writeRecord(db: IDBDatabase, workspaceId: string, record: StoredAppData): Promise<void> {
+  return writeTransaction(db, [STORE_NAME], transaction => {
+    transaction.objectStore(STORE_NAME).put(record, workspaceId);
+  });
+}
+
+function toStoredAppData(data: AppData): StoredAppData {
+  return { ...data, schemaVersion: SCHEMA_VERSION, savedAt: new Date().toISOString() };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch(error => {
+      dbPromise = null; // Let a retry open it again
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Projects and pools from the legacy localStorage keys, or null when there are none
+function readLegacyData(): AppData | null {
+  const savedProjects = localStorage.getItem(LEGACY_PROJECTS_KEY);
+  const savedPools = localStorage.getItem(LEGACY_POOLS_KEY);
+  if (!savedProjects && !savedPools) return null;
+
+  const rawData = JSON.stringify({ [LEGACY_PROJECTS_KEY]: savedProjects, [LEGACY_POOLS_KEY]: savedPools });
+  try {
+    const projects = savedProjects ? JSON.parse(savedProjects) : [];
+    const pools = savedPools ? JSON.parse(savedPools) : [];
+    if (!Array.isArray(projects) || !Array.isArray(pools)) {
+      throw new Error('expected lists of projects and pools');
+    }
+    return { projects, pools };
+  } catch (error) {
+    throw new StorageError(`Data saved by an earlier version of the app is unreadable (${(error as Error).message}).`, rawData);
+  }
+}
+
+// Save a workspace's data. With `syncedIds`, the data is merged with what's stored in the same
+// transaction, so records another tab saved in the meantime are kept; otherwise it replaces it.
+export async function saveAppData(workspaceId: string, data: AppData, syncedIds?: SyncedIds): Promise<void> {
+  const db = await getDatabase();
+  if (!syncedIds) {
+    await writeRecord(db, workspaceId, toStoredAppData(data));
+    return;
+  }
+  await writeTransaction(db, [STORE_NAME], transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(workspaceId);
+    request.onsuccess = () => {
+      const stored: unknown = request.result;
+      // Anything unreadable or from another schema version is replaced, as without merging
+      const merged = isAppData(stored) && (stored as Partial<StoredAppData>).schemaVersion === SCHEMA_VERSION
+        ? {
+          projects: mergeRecords(data.projects, stored.projects, syncedIds.projects).merged,
+          pools: mergeRecords(data.pools, stored.pools, syncedIds.pools).merged
+        }
+        : data;
+      store.put(toStoredAppData(merged), workspaceId);
+    };
+  });
+}
+
+// Load a workspace's saved data, migrated to the current schema. Returns null when nothing has
+// been saved yet. Throws a StorageError when saved data exists but can't be used.
+export async function loadAppData(workspaceId: string): Promise<AppData | null> {
+  const db = await getDatabase();
+  const record = await readRecord(db, workspaceId);
+
+  if (record === undefined) {
+    const legacy = workspaceId === DEFAULT_WORKSPACE_ID ? readLegacyData() : null;
+    if (!legacy) return null;
+    const migrated = migrate(legacy, 0);
+    await saveAppData(workspaceId, migrated);
+    // The data lives in IndexedDB now
+    localStorage.removeItem(LEGACY_PROJECTS_KEY);
+    localStorage.removeItem(LEGACY_POOLS_KEY);
+    return migrated;
+  }
+
+  const stored = record as Partial<StoredAppData>;
+  const rawData = (() => {
+    try {
+      return JSON.stringify(record);
+    } catch {
+      return undefined;
+    }
+  })();
+  if (!isAppData(record) || typeof stored.schemaVersion !== 'number') {
+    throw new StorageError('Saved data is damaged: it is missing its projects, pools or schema version.', rawData);
+  }
+  const schemaVersion = stored.schemaVersion;
+  if (schemaVersion > SCHEMA_VERSION) {
+    throw new StorageError(`Saved data is from a newer version of the app (schema ${schemaVersion}, this version reads up to ${SCHEMA_VERSION}). Reload to get the latest version.`, rawData);
+  }
+
+  const data = { projects: record.projects, pools: record.pools };
+  if (schemaVersion === SCHEMA_VERSION) return data;
+
+  const migrated = migrate(data, schemaVersion);
+  await saveAppData(workspaceId, migrated);
+  return migrated;
+}
+
+// All workspaces, oldest first. The first time this runs the default workspace is created, so
+// there is always at least one.
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const db = await getDatabase();
+  const records = await new Promise<unknown[]>((resolve, reject) => {
+    const request = db.transaction(WORKSPACES_STORE_NAME, 'readonly').objectStore(WORKSPACES_STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(`Could not read workspaces: ${request.error?.message || 'unknown error'}`));
+  });
+
+  // Fill in anything missing so a damaged record still opens with default filters and settings
+  const workspaces = (records as Partial<Workspace>[])
+    .filter(w => w && typeof w.id === 'string')
+    .map(w => ({
+      ...createWorkspace(w.name || 'Untitled Workspace', w.id),
+      ...w,
+      filters: { ...emptyFilters, ...w.filters },
+      settings: { ...defaultWorkspaceSettings, ...w.settings }
+    }) as Workspace)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  if (workspaces.length > 0) return workspaces;
+
+  const defaultWorkspace = createWorkspace('My Workspace', DEFAULT_WORKSPACE_ID);
+  await saveWorkspace(defaultWorkspace);
+  return [defaultWorkspace];
+}
+
+export async function saveWorkspace(workspace: Workspace): Promise<void> {
+  const db = await getDatabase();
+  await writeTransaction(db, [WORKSPACES_STORE_NAME], transaction => {
+    transaction.objectStore(WORKSPACES_STORE_NAME).put(workspace, workspace.id);
+  });
+}
+
+// Add a workspace together with its projects and pools, so neither is saved without the other
+export async function createWorkspaceWithData(workspace: Workspace, data: AppData): Promise<void> {
+  const db = await getDatabase();
+  await writeTransaction(db, [WORKSPACES_STORE_NAME, STORE_NAME], transaction => {
+    transaction.objectStore(WORKSPACES_STORE_NAME).put(workspace, workspace.id);
+    transaction.objectStore(STORE_NAME).put(toStoredAppData(data), workspace.id);
+  });
+}
+
+export async function deleteWorkspace(workspaceId: string): Promise<void> {
+  const db = await getDatabase();
+  await writeTransaction(db, [WORKSPACES_STORE_NAME, STORE_NAME], transaction => {
+    transaction.objectStore(WORKSPACES_STORE_NAME).delete(workspaceId);
+    transaction.objectStore(STORE_NAME).delete(workspaceId);
+  });
+}
+
+export function getLastWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(LAST_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastWorkspaceId(workspaceId: string) {
+  try {
+    localStorage.setItem(LAST_WORKSPACE_KEY, workspaceId);
+  } catch {
+    // Only means the app opens on the first workspace next time
+  }
+}
@@ -0,0 +1,75 @@
+import type { PoolData, ProjectFormData } from './types';
+import { isMilestone, getSummaryIds } from './items';
+
+// How the Gantt chart groups its rows into swimlanes
+export type SwimlaneGrouping = 'none' | 'pool' | 'sponsor' | 'status';
+
+export const swimlaneGroupings: SwimlaneGrouping[] = ['none', 'pool', 'sponsor', 'status'];
+
+export const swimlaneGroupingLabels: { [key in SwimlaneGrouping]: string } = {
+  none: 'No grouping',
+  pool: 'Pool',
+  sponsor: 'Sponsor',
+  status: 'Status',
+};
+
+export interface Swimlane {
+  key: string; // Pool id, sponsor or status; '' for items without one
+  label: string;
+  startDate: string; // Earliest start in the lane
+  targetDate: string; // Latest target in the lane
+  estimatedHours: number; // Summary projects are left out so their phases aren't counted twice
+  itemCount: number;
+}
+
+// The lane an item belongs to under the given grouping
+export function getSwimlaneKey(item: ProjectFormData, grouping: SwimlaneGrouping): string {
+  if (grouping === 'pool') return item.poolId || '';
+  if (grouping === 'sponsor') return (item.sponsor || '').trim();
+  if (grouping === 'status') return item.status || '';
+  return '';
+}
+
+function getSwimlaneLabel(key: string, grouping: SwimlaneGrouping, pools: PoolData[]): string {
+  if (grouping === 'pool') return pools.find(p => p.id === key)?.name || (key ? key : 'No Pool');
+  if (!key) return grouping === 'sponsor' ? 'No Sponsor' : 'No Status';
+  return key;
+}
+
+// Split blocks of rows into lanes by the first item of each block (a project keeps its
+// phases with it). Lanes are in label order with the "No ..." lane last; blocks keep their order.
+export function groupIntoSwimlanes(
+  blocks: ProjectFormData[][],
+  grouping: SwimlaneGrouping,
+  pools: PoolData[]
+): { lane: Swimlane; blocks: ProjectFormData[][] }[] {
+  const byKey = new Map<string, ProjectFormData[][]>();
+  blocks.forEach(block => {
+    const key = getSwimlaneKey(block[0], grouping);
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key)!.push(block);
+  });
+
+  const lanes = Array.from(byKey.entries()).map(([key, laneBlocks]) => {
+    const items = laneBlocks.flat();
+    const summaryIds = getSummaryIds(items);
+    return {
+      lane: {
+        key,
+        label: getSwimlaneLabel(key, grouping, pools),
+        startDate: items.reduce((min, p) => (p.startDate < min ? p.startDate : min), items[0].startDate),
+        targetDate: items.reduce((max, p) => (p.targetDate > max ? p.targetDate : max), items[0].targetDate),
+        estimatedHours: items
+          .filter(p => !summaryIds.has(p.id) && !isMilestone(p))
+          .reduce((sum, p) => sum + (p.estimatedHours || 0), 0),
+        itemCount: items.length,
+      },
+      blocks: laneBlocks,
+    };
+  });
+
+  return lanes.sort((a, b) => {
+    if (!a.lane.key !== !b.lane.key) return a.lane.key ? -1 : 1;
+    return a.lane.label.localeCompare(b.lane.label);
+  });
+}
@@ -0,0 +1,85 @@
+// Keeps tabs of the app in step. A tab announces each save; other tabs showing the same
+// workspace read the saved data back and merge it in. Messages only say what changed, not the
+// data itself, which is always read from storage. Saves merge with what's stored as well, so a
+// tab that saves before hearing about another tab's save doesn't drop that tab's changes.
+
+export type SyncMessage =
+  | { type: 'DATA_SAVED'; workspaceId: string }
+  | { type: 'WORKSPACES_CHANGED' }; // Created, renamed, duplicated or deleted
+
+export interface SyncChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'my-gantt-sync';
+// Browsers without BroadcastChannel: tabs hear each other through `storage` events on this key
+const STORAGE_KEY = 'gantt-sync';
+
+export function openSyncChannel(onMessage: (message: SyncMessage) => void): SyncChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<SyncMessage>) => onMessage(e.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch {
+      // Not one of ours
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        // The nonce makes repeated messages change the value, so each one fires an event
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` }));
+      } catch {
+        // Other tabs will pick the change up when they next load
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+}
+
+// Merge records saved by another tab (or already in storage) into this tab's. `syncedIds` are
+// the ids both sides last agreed on: those this tab read from or wrote to storage most recently.
+// A record on one side only was added there when it isn't among them, and deleted on the other
+// side when it is. A record on both sides comes from the side that changed it more recently.
+// `keptLocal` lists the ids where this tab's side won, including its deletions, which still
+// need saving for the other tab to see them.
+export function mergeRecords<T extends { id: string; lastModified?: string }>(
+  local: T[],
+  remote: T[],
+  syncedIds: ReadonlySet<string>
+): { merged: T[]; keptLocal: string[] } {
+  const localById = new Map(local.map(r => [r.id, r]));
+  const remoteIds = new Set(remote.map(r => r.id));
+  const keptLocal: string[] = [];
+  const merged: T[] = [];
+  remote.forEach(remoteRecord => {
+    const localRecord = localById.get(remoteRecord.id);
+    if (!localRecord) {
+      if (syncedIds.has(remoteRecord.id)) keptLocal.push(remoteRecord.id); // Deleted here
+      else merged.push(remoteRecord); // Added there
+    } else if ((localRecord.lastModified || '') > (remoteRecord.lastModified || '')) {
+      keptLocal.push(localRecord.id);
+      merged.push(localRecord);
+    } else {
+      merged.push(remoteRecord);
+    }
+  });
+  // Added here; the rest were deleted there
+  local.forEach(localRecord => {
+    if (remoteIds.has(localRecord.id) || syncedIds.has(localRecord.id)) return;
+    keptLocal.push(localRecord.id);
+    merged.push(localRecord);
+  });
+  return { merged, keptLocal };
+}
@@ -0,0 +1,93 @@
+// Timescales for the Gantt chart: what a column is, how it's labelled, and how wide a day is
+export type TimeScale = 'day' | 'week' | 'month' | 'quarter';
+
+// Finest to coarsest, so zooming in moves towards the start of the list
+export const timeScales: TimeScale[] = ['day', 'week', 'month', 'quarter'];
+
+export const timeScaleLabels: { [key in TimeScale]: string } = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+// Narrowest a day may be drawn at each scale; the chart stretches wider days to fill the
+// container when the timeline is short, and scrolls horizontally when it's long
+const minDayWidths: { [key in TimeScale]: number } = {
+  day: 28,
+  week: 60 / 7,
+  month: 100 / 30,
+  quarter: 180 / 91,
+};
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineColumn {
+  start: Date;
+  end: Date; // Exclusive: the start of the next column
+}
+
+export function getMinDayWidth(scale: TimeScale): number {
+  return minDayWidths[scale];
+}
+
+// Drags snap to days when days are visible, and to whole weeks on the coarser scales
+export function getSnapDays(scale: TimeScale): number {
+  return scale === 'day' || scale === 'week' ? 1 : 7;
+}
+
+// Start of the column containing `date` (weeks start on Sunday, like the rest of the app)
+export function getColumnStart(scale: TimeScale, date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  if (scale === 'week') {
+    d.setDate(d.getDate() - d.getDay());
+  } else if (scale === 'month') {
+    d.setDate(1);
+  } else if (scale === 'quarter') {
+    d.setDate(1);
+    d.setMonth(d.getMonth() - (d.getMonth() % 3));
+  }
+  return d;
+}
+
+function getNextColumnStart(scale: TimeScale, start: Date): Date {
+  const next = new Date(start);
+  if (scale === 'day') next.setDate(next.getDate() + 1);
+  else if (scale === 'week') next.setDate(next.getDate() + 7);
+  else if (scale === 'month') next.setMonth(next.getMonth() + 1);
+  else next.setMonth(next.getMonth() + 3);
+  return next;
+}
+
+// Columns covering min..max at the given scale
+export function getTimelineColumns(scale: TimeScale, min: Date, max: Date): TimelineColumn[] {
+  const columns: TimelineColumn[] = [];
+  let start = getColumnStart(scale, min);
+  do {
+    const end = getNextColumnStart(scale, start);
+    columns.push({ start, end });
+    start = end;
+  } while (start <= max);
+  return columns;
+}
+
+// Header label for a column; `narrow` asks for the compact form
+export function formatColumnLabel(scale: TimeScale, date: Date, narrow: boolean): string {
+  if (scale === 'day') {
+    return narrow
+      ? String(date.getDate())
+      : date.toLocaleDateString('en-US', { weekday: 'narrow', day: 'numeric' });
+  }
+  if (scale === 'week') {
+    return narrow
+      ? date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  }
+  if (scale === 'month') {
+    return narrow
+      ? date.toLocaleDateString('en-US', { month: 'short' })
+      : date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  }
+  return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+}
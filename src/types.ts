@@ -1,27 +1,113 @@
+// Days not worked: a company holiday, or time off for a whole pool or one person
+export interface TimeOff {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+// A person in a pool. When a pool has members, its weekly, support and meeting hours are
+// the totals of its members'.
+export interface PoolMember {
+  id: string;
+  name: string;
+  role?: string;
+  weeklyHours: number;
+  supportHours: number; // Reserved hours for support activities
+  meetingHours: number; // Reserved hours for weekly meetings
+  timeOff?: TimeOff[];
+  startDate?: string; // First day in the pool (YYYY-MM-DD), e.g. a new hire; no hours before it
+  endDate?: string; // Last day in the pool, e.g. a contractor leaving; no hours after it
+}
+
+// A pool's hours from a date on, e.g. after hiring or when a contractor leaves. Each period is
+// in effect until the next one starts; the pool's own hours apply before the first.
+export interface PoolCapacityPeriod {
+  id: string;
+  startDate: string; // YYYY-MM-DD
+  weeklyHours: number;
+  supportHours: number;
+  meetingHours: number;
+  note?: string;
+}
+
 export interface PoolData {
+  id: string; // Stable unique identifier (survives renames)
   name: string;
+  members?: PoolMember[];
   weeklyHours: number;
   standardWeekHours: number; // Standard work week hours (default: 40)
   supportHours: number; // Reserved hours for support activities
   meetingHours: number; // Reserved hours for weekly meetings
   description: string;
   color?: string;
+  timeOff?: TimeOff[]; // Days the whole pool is off
+  capacityPeriods?: PoolCapacityPeriod[]; // Dated changes to the hours above, by start date; pools without members only
   lastModified?: string; // ISO timestamp
 }
 
+// Finish-to-Start, Start-to-Start, Finish-to-Finish
+export type DependencyType = 'FS' | 'SS' | 'FF';
+
+// Milestones are zero-duration markers (go-live, steering committee) with a single date.
+// Phases are sub-tasks of a project; the parent's dates, hours and progress roll up from them.
+export type ItemType = 'project' | 'phase' | 'milestone';
+
+export interface ProjectDependency {
+  predecessorId: string; // References ProjectFormData.id
+  type: DependencyType;
+  lagDays: number; // Work days after the predecessor's date (negative for lead time)
+}
+
+// Hours actually worked on an item in one week, optionally by one person
+export interface ActualHoursEntry {
+  weekStart: string; // Sunday the week starts on (YYYY-MM-DD)
+  person?: string; // Left out for hours not booked to anyone in particular
+  hours: number;
+}
+
+// A pool member working on an item
+export interface MemberAssignment {
+  memberId: string; // References PoolMember.id in the item's pool
+  allocation: number; // Percent of the pool's standard week
+}
+
 export interface ProjectFormData {
+  id: string; // Stable unique identifier (survives renames)
+  itemType?: ItemType; // Defaults to 'project'
+  parentId?: string; // Phases: owning project. Milestones: project whose Gantt row the milestone is drawn on
   name: string;
   sponsor: string;
-  pool: string;
+  poolId: string; // References PoolData.id
   startDate: string;
   targetDate: string;
   estimatedHours: number;
-  progress: number;
+  progress: number; // Entered by hand; only used when there are no actuals or progressOverride is set
+  progressOverride?: boolean; // Keep the hand-entered progress even though actuals are logged
+  actuals?: ActualHoursEntry[]; // Timesheet: hours worked per week (and person)
   status?: string;
   weeklyAllocation?: number; // percent of 40-hour week (default allocation)
   weeklyAllocations?: { [weekStart: string]: number }; // Specific allocation per week
+  assignments?: MemberAssignment[]; // People in the pool doing the work
   notes?: string;
+  dependencies?: ProjectDependency[]; // Predecessors this project is constrained by
+  priority?: number; // 1 is the highest; resource leveling keeps higher priorities in place first
+  lockedDates?: boolean; // Resource leveling may not move the dates
   autoRecalculated?: boolean; // Flag to indicate if target date was auto-calculated
   lastModified?: string; // ISO timestamp
 }
- 
\ No newline at end of file
+ 
+// Gantt, export and filter panel criteria; empty values match everything
+export interface ProjectFilters {
+  status?: string[];
+  pool?: string[]; // Pool ids
+  dateRange?: {
+    start?: string;
+    end?: string;
+  };
+  progress?: {
+    min?: number;
+    max?: number;
+  };
+  search?: string;
+}
@@ -0,0 +1,342 @@
+import type { PoolData, PoolMember, ProjectFormData, MemberAssignment, TimeOff } from './types';
+import { isMilestone, getSummaryIds } from './items';
+import { getPoolWeekCapacity, getMemberWeekCapacity, type WeekCapacity } from './calendar';
+import { getProgress } from './actuals';
+
+// Pool utilization, shared by every screen and the utilization worker so they all report the
+// same numbers. A project's hours in a week are its allocation for that week (a per-week
+// override, or its default allocation) as a percent of the pool's standard week; the pool's
+// available hours are its weekly hours less the hours reserved for support and meetings.
+// Pool members are measured the same way against their own hours, from the items they're
+// assigned to. Holidays and time off (see calendar.ts) shrink the hours in the weeks they fall in.
+
+// Pre-processed project interface for better performance
+export interface ProcessedProject {
+  id: string;
+  poolId: string;
+  startDate: Date;
+  endDate: Date;
+  isActive: boolean;
+  isMilestone: boolean; // Milestones carry no allocation and are left out of utilization
+  isSummary: boolean; // Projects with phases: the phases carry the allocation
+  weeklyAllocation: number;
+  weeklyAllocations?: { [weekStart: string]: number };
+  assignments?: MemberAssignment[];
+  estimatedHours: number;
+  status?: string;
+  name: string;
+  sponsor: string;
+  progress: number;
+  notes?: string;
+  lastModified?: string;
+}
+
+export interface PoolUtilization {
+  totalAllocated: number; // Hours allocated to the pool's projects
+  poolHours: number;
+  availableHours: number; // Pool hours less reserved hours
+  reservedHours: number; // Support and meeting hours
+  utilization: number; // Percent of available hours
+  isOverAllocated: boolean;
+  members?: MemberUtilization[]; // One per pool member, when the pool has members
+}
+
+export interface MemberUtilization {
+  memberId: string;
+  name: string;
+  totalAllocated: number; // Hours assigned to the member
+  availableHours: number; // Member's hours less their reserved hours
+  utilization: number; // Percent of available hours
+  isOverAllocated: boolean;
+  projectIds: string[]; // Items the member is assigned to this week
+}
+
+export interface OverAllocationWarning {
+  poolId: string;
+  poolName: string;
+  weekStart: Date;
+  utilization: PoolUtilization;
+  overAllocatedMembers: MemberUtilization[]; // People over their hours, even when the pool as a whole isn't
+}
+
+// Utilization by week key (YYYY-MM-DD of the week start), then by pool id
+export type WeekUtilizations = Map<string, Map<string, PoolUtilization>>;
+
+// Messages to and from the utilization worker
+export type UtilizationWorkerRequest =
+  | { type: 'FUTURE_WARNINGS'; data: { projects: ProjectFormData[]; pools: PoolData[]; weekStarts: string[]; currentWeekIdx: number; holidays?: TimeOff[] }; requestId: number }
+  | { type: 'ALL_WEEK_UTILIZATIONS'; data: { projects: ProjectFormData[]; pools: PoolData[]; weekStarts: string[]; holidays?: TimeOff[] }; requestId: number };
+
+export type UtilizationWorkerResponse =
+  | { type: 'WORKER_READY' }
+  | { type: 'FUTURE_WARNINGS_RESULT'; data: OverAllocationWarning[]; requestId: number }
+  | { type: 'ALL_WEEK_UTILIZATIONS_RESULT'; data: WeekUtilizations; requestId: number }
+  | { type: 'ERROR'; error: string; requestId?: number };
+
+export function getWeekKey(weekStart: Date): string {
+  return weekStart.toISOString().split('T')[0];
+}
+
+// Allocation for a specific week: the per-week override if there is one, otherwise the default
+export function getWeeklyAllocation(
+  project: Pick<ProjectFormData, 'weeklyAllocation' | 'weeklyAllocations'>,
+  weekStart: Date
+): number {
+  const weekKey = getWeekKey(weekStart);
+  if (project.weeklyAllocations && project.weeklyAllocations[weekKey] !== undefined) {
+    return project.weeklyAllocations[weekKey];
+  }
+  return project.weeklyAllocation || 0;
+}
+
+// Hours an allocation percent stands for in a pool
+export function getAllocatedHours(allocationPercent: number, pool: PoolData): number {
+  return (allocationPercent / 100) * (pool.standardWeekHours || 40);
+}
+
+// Pre-process projects for better performance
+export function preprocessProjects(projects: ProjectFormData[]): ProcessedProject[] {
+  const summaryIds = getSummaryIds(projects);
+  return projects.map(p => ({
+    id: p.id,
+    poolId: p.poolId,
+    startDate: new Date(p.startDate),
+    endDate: new Date(p.targetDate),
+    isActive: !p.status?.toLowerCase().includes('complete'),
+    isMilestone: isMilestone(p),
+    isSummary: summaryIds.has(p.id),
+    weeklyAllocation: p.weeklyAllocation || 0,
+    weeklyAllocations: p.weeklyAllocations,
+    assignments: p.assignments,
+    estimatedHours: p.estimatedHours,
+    status: p.status,
+    name: p.name,
+    sponsor: p.sponsor,
+    progress: getProgress(p),
+    notes: p.notes,
+    lastModified: p.lastModified
+  }));
+}
+
+// Get active projects for a specific week (optimized)
+export function getActiveProjectsInWeek(processedProjects: ProcessedProject[], weekStart: Date, weekEnd: Date): ProcessedProject[] {
+  return processedProjects.filter(p =>
+    p.isActive &&
+    !p.isMilestone &&
+    !p.isSummary &&
+    p.startDate <= weekEnd &&
+    p.endDate >= weekStart
+  );
+}
+
+// Get projects by pool for a specific week
+export function getProjectsByPoolInWeek(processedProjects: ProcessedProject[], weekStart: Date, weekEnd: Date): Map<string, ProcessedProject[]> {
+  const activeProjects = getActiveProjectsInWeek(processedProjects, weekStart, weekEnd);
+  const poolProjects = new Map<string, ProcessedProject[]>();
+
+  activeProjects.forEach(project => {
+    if (!poolProjects.has(project.poolId)) {
+      poolProjects.set(project.poolId, []);
+    }
+    poolProjects.get(project.poolId)!.push(project);
+  });
+
+  return poolProjects;
+}
+
+// Percent of available hours; a week with no hours at all is infinitely over-allocated once
+// anything is allocated to it
+function getUtilizationPercent(totalAllocated: number, availableHours: number): number {
+  if (availableHours > 0) return (totalAllocated / availableHours) * 100;
+  return totalAllocated > 0 ? Infinity : 0;
+}
+
+// Utilization of a pool with the given hours allocated to it, against its full hours or a
+// week's capacity after holidays and time off
+export function summarizePoolUtilization(pool: PoolData, totalAllocated: number, capacity?: WeekCapacity): PoolUtilization {
+  // Account for reserved hours (support and meetings)
+  const poolHours = capacity ? capacity.weeklyHours : pool.weeklyHours;
+  const reservedHours = capacity ? capacity.reservedHours : (pool.supportHours || 0) + (pool.meetingHours || 0);
+  const availableHours = poolHours - reservedHours;
+
+  const utilization = getUtilizationPercent(totalAllocated, availableHours);
+  const isOverAllocated = totalAllocated > availableHours;
+
+  return {
+    totalAllocated: Math.round(totalAllocated * 10) / 10,
+    poolHours: Math.round(poolHours * 10) / 10,
+    availableHours: Math.round(availableHours * 10) / 10,
+    reservedHours: Math.round(reservedHours * 10) / 10,
+    utilization: Math.round(utilization * 10) / 10,
+    isOverAllocated
+  };
+}
+
+// Utilization of one pool member with the given hours assigned to them
+export function summarizeMemberUtilization(member: PoolMember, totalAllocated: number, projectIds: string[] = [], capacity?: WeekCapacity): MemberUtilization {
+  const availableHours = capacity
+    ? capacity.weeklyHours - capacity.reservedHours
+    : (Number(member.weeklyHours) || 0) - (Number(member.supportHours) || 0) - (Number(member.meetingHours) || 0);
+  const utilization = getUtilizationPercent(totalAllocated, availableHours);
+
+  return {
+    memberId: member.id,
+    name: member.name,
+    totalAllocated: Math.round(totalAllocated * 10) / 10,
+    availableHours: Math.round(availableHours * 10) / 10,
+    utilization: Math.round(utilization * 10) / 10,
+    isOverAllocated: totalAllocated > availableHours,
+    projectIds
+  };
+}
+
+// Utilization of each pool member in one week from the pool's projects active in it
+export function calculateMemberUtilizations(projects: ProcessedProject[], pool: PoolData, weekStart: Date, holidays: TimeOff[] = []): MemberUtilization[] {
+  return (pool.members || []).map(member => {
+    const assigned = projects
+      .filter(proj => proj.status?.toLowerCase() !== 'complete')
+      .flatMap(proj => (proj.assignments || [])
+        .filter(assignment => assignment.memberId === member.id)
+        .map(assignment => ({ projectId: proj.id, hours: getAllocatedHours(assignment.allocation || 0, pool) })))
+      .filter(a => a.hours > 0);
+    return summarizeMemberUtilization(
+      member,
+      assigned.reduce((sum, a) => sum + a.hours, 0),
+      [...new Set(assigned.map(a => a.projectId))],
+      getMemberWeekCapacity(member, pool, weekStart, holidays)
+    );
+  });
+}
+
+// Utilization of a pool in one week from the projects active in it
+export function calculatePoolUtilizationFromProjects(projects: ProcessedProject[], pool: PoolData, weekStart: Date, holidays: TimeOff[] = []): PoolUtilization {
+  const totalAllocated = projects.reduce((sum, proj) => {
+    const allocationPercent = proj.status?.toLowerCase() === 'complete' ? 0 : getWeeklyAllocation(proj, weekStart);
+    return sum + getAllocatedHours(allocationPercent, pool);
+  }, 0);
+
+  const utilization = summarizePoolUtilization(pool, totalAllocated, getPoolWeekCapacity(pool, weekStart, holidays));
+  return pool.members && pool.members.length > 0
+    ? { ...utilization, members: calculateMemberUtilizations(projects, pool, weekStart, holidays) }
+    : utilization;
+}
+
+// Members over their hours in a week's pool utilization
+export function getOverAllocatedMembers(utilization: PoolUtilization): MemberUtilization[] {
+  return (utilization.members || []).filter(member => member.isOverAllocated);
+}
+
+// "Alice 140%, Bob 110%": the people behind an over-allocation
+export function formatOverAllocatedMembers(members: MemberUtilization[]): string {
+  return members.map(member => `${member.name} ${Number.isFinite(member.utilization) ? `${Math.round(member.utilization)}%` : `${member.totalAllocated}h with no hours available`}`).join(', ');
+}
+
+export function calculatePoolUtilization(projects: ProjectFormData[], pools: PoolData[], poolId: string, weekStart: Date, weekEnd: Date, holidays: TimeOff[] = []): PoolUtilization {
+  const pool = pools.find(p => p.id === poolId);
+  if (!pool) return { totalAllocated: 0, poolHours: 0, availableHours: 0, reservedHours: 0, utilization: 0, isOverAllocated: false };
+
+  const poolProjects = getProjectsByPoolInWeek(preprocessProjects(projects), weekStart, weekEnd).get(poolId) || [];
+  return calculatePoolUtilizationFromProjects(poolProjects, pool, weekStart, holidays);
+}
+
+// Highest weekly utilization of a pool across the weeks overlapping a date range (weeks start on Sunday)
+export function getPeakPoolUtilization(projects: ProjectFormData[], pool: PoolData, startDate: string, targetDate: string, holidays: TimeOff[] = []): (PoolUtilization & { weekStart: Date }) | null {
+  const processedProjects = preprocessProjects(projects);
+  const end = new Date(targetDate);
+  const weekStart = new Date(startDate);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  let peak: (PoolUtilization & { weekStart: Date }) | null = null;
+
+  for (; weekStart <= end; weekStart.setDate(weekStart.getDate() + 7)) {
+    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const poolProjects = getProjectsByPoolInWeek(processedProjects, weekStart, weekEnd).get(pool.id) || [];
+    const utilization = calculatePoolUtilizationFromProjects(poolProjects, pool, weekStart, holidays);
+    if (!peak || utilization.utilization > peak.utilization) peak = { ...utilization, weekStart: new Date(weekStart) };
+  }
+
+  return peak;
+}
+
+// Each pool member's busiest week across the weeks overlapping a date range
+export function getPeakMemberUtilizations(projects: ProjectFormData[], pool: PoolData, startDate: string, targetDate: string, holidays: TimeOff[] = []): (MemberUtilization & { weekStart: Date })[] {
+  if (!pool.members || pool.members.length === 0) return [];
+  const processedProjects = preprocessProjects(projects);
+  const end = new Date(targetDate);
+  const weekStart = new Date(startDate);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  const peaks = new Map<string, MemberUtilization & { weekStart: Date }>();
+
+  for (; weekStart <= end; weekStart.setDate(weekStart.getDate() + 7)) {
+    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+    const poolProjects = getProjectsByPoolInWeek(processedProjects, weekStart, weekEnd).get(pool.id) || [];
+    calculateMemberUtilizations(poolProjects, pool, weekStart, holidays).forEach(member => {
+      const peak = peaks.get(member.memberId);
+      if (!peak || member.utilization > peak.utilization) peaks.set(member.memberId, { ...member, weekStart: new Date(weekStart) });
+    });
+  }
+
+  return [...peaks.values()];
+}
+
+// Over-allocated pools and pool members in the 4 weeks after the current week
+export function getFutureOverAllocationWarnings(projects: ProjectFormData[], pools: PoolData[], weekStarts: Date[], currentWeekIdx: number, holidays: TimeOff[] = []): OverAllocationWarning[] {
+  const warnings: OverAllocationWarning[] = [];
+
+  // Pre-process all projects once
+  const processedProjects = preprocessProjects(projects);
+
+  for (let i = currentWeekIdx + 1; i < Math.min(currentWeekIdx + 5, weekStarts.length); i++) {
+    const weekStart = weekStarts[i];
+    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+
+    // Get all active projects for this week once
+    const weekProjects = getProjectsByPoolInWeek(processedProjects, weekStart, weekEnd);
+
+    // Calculate utilization for all pools in this week
+    pools.forEach(pool => {
+      const poolProjects = weekProjects.get(pool.id) || [];
+      const utilization = calculatePoolUtilizationFromProjects(poolProjects, pool, weekStart, holidays);
+      const overAllocatedMembers = getOverAllocatedMembers(utilization);
+
+      if (utilization.isOverAllocated || overAllocatedMembers.length > 0) {
+        warnings.push({
+          poolId: pool.id,
+          poolName: pool.name,
+          weekStart,
+          utilization,
+          overAllocatedMembers
+        });
+      }
+    });
+  }
+
+  return warnings;
+}
+
+// Calculate all week utilizations in batch
+export function calculateAllWeekUtilizations(projects: ProjectFormData[], pools: PoolData[], weekStarts: Date[], holidays: TimeOff[] = []): WeekUtilizations {
+  const results: WeekUtilizations = new Map();
+
+  // Pre-process all projects
+  const processedProjects = preprocessProjects(projects);
+
+  weekStarts.forEach(weekStart => {
+    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000);
+
+    // Get active projects for this week once
+    const weekProjects = getProjectsByPoolInWeek(processedProjects, weekStart, weekEnd);
+
+    // Calculate for all pools in this week
+    const weekResults = new Map<string, PoolUtilization>();
+    pools.forEach(pool => {
+      const poolProjects = weekProjects.get(pool.id) || [];
+      weekResults.set(pool.id, calculatePoolUtilizationFromProjects(poolProjects, pool, weekStart, holidays));
+    });
+
+    results.set(getWeekKey(weekStart), weekResults);
+  });
+
+  return results;
+}
@@ -0,0 +1,61 @@
+// Web Worker for heavy utilization calculations
+// This runs in a separate thread to avoid blocking the main UI
+import {
+  getFutureOverAllocationWarnings,
+  calculateAllWeekUtilizations,
+  type UtilizationWorkerRequest,
+  type UtilizationWorkerResponse
+} from './utilization';
+
+function respond(message: UtilizationWorkerResponse) {
+  self.postMessage(message);
+}
+
+// Handle messages from main thread
+self.onmessage = (e: MessageEvent<UtilizationWorkerRequest>) => {
+  const request = e.data;
+
+  try {
+    switch (request.type) {
+      case 'FUTURE_WARNINGS':
+        respond({
+          type: 'FUTURE_WARNINGS_RESULT',
+          data: getFutureOverAllocationWarnings(
+            request.data.projects,
+            request.data.pools,
+            request.data.weekStarts.map(d => new Date(d)),
+            request.data.currentWeekIdx,
+            request.data.holidays
+          ),
+          requestId: request.requestId
+        });
+        break;
+
+      case 'ALL_WEEK_UTILIZATIONS':
+        respond({
+          type: 'ALL_WEEK_UTILIZATIONS_RESULT',
+          data: calculateAllWeekUtilizations(
+            request.data.projects,
+            request.data.pools,
+            request.data.weekStarts.map(d => new Date(d)),
+            request.data.holidays
+          ),
+          requestId: request.requestId
+        });
+        break;
+
+      default:
+        throw new Error(`Unknown message type: ${(request as { type: string }).type}`);
+    }
+  } catch (error) {
+    // Send error back to main thread
+    respond({
+      type: 'ERROR',
+      error: error instanceof Error ? error.message : String(error),
+      requestId: request.requestId
+    });
+  }
+};
+
+// Notify main thread that worker is ready
+respond({ type: 'WORKER_READY' });
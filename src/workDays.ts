@@ -0,0 +1,108 @@
+import type { TimeOff } from './types';
+
+// Work-day date math shared by the project form, dependency checks and scheduling.
+// Weekends (Saturday and Sunday) are not work days, and neither are the days in `daysOff`
+// (holidays and time off) when it's given.
+//
+// Dates are calendar days at local midnight, the way the Gantt chart builds its week starts:
+// read YYYY-MM-DD strings with parseDateKey and write them back with toDateKey. new Date() on a
+// YYYY-MM-DD string gives UTC midnight instead, which falls on the previous local day west of UTC.
+
+export function parseDateKey(key: string): Date {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return new Date(key);
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// The date a number of calendar days later (earlier when negative), across DST changes
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Whether a date falls in one of the time off ranges
+export function isDayOff(date: Date, daysOff: TimeOff[]): boolean {
+  if (daysOff.length === 0) return false;
+  const key = toDateKey(date);
+  return daysOff.some(range => key >= range.startDate && key <= range.endDate);
+}
+
+export function isWorkDay(date: Date, daysOff: TimeOff[] = []): boolean {
+  // Skip weekends (Saturday = 6, Sunday = 0)
+  return date.getDay() !== 0 && date.getDay() !== 6 && !isDayOff(date, daysOff);
+}
+
+// Add work days to a date (excluding weekends and days off)
+export function addWorkDays(startDate: Date, workDays: number, daysOff: TimeOff[] = []): Date {
+  if (workDays <= 0) return new Date(startDate);
+
+  const result = new Date(startDate);
+  let addedDays = 0;
+  const currentDate = new Date(startDate);
+
+  while (addedDays < workDays) {
+    currentDate.setDate(currentDate.getDate() + 1);
+    if (isWorkDay(currentDate, daysOff)) {
+      addedDays++;
+    }
+  }
+
+  // Set the result to the final calculated date
+  result.setTime(currentDate.getTime());
+  return result;
+}
+
+// Subtract work days from a date (excluding weekends and days off)
+export function subtractWorkDays(endDate: Date, workDays: number, daysOff: TimeOff[] = []): Date {
+  if (workDays <= 0) return new Date(endDate);
+
+  const result = new Date(endDate);
+  let subtractedDays = 0;
+  const currentDate = new Date(endDate);
+
+  while (subtractedDays < workDays) {
+    currentDate.setDate(currentDate.getDate() - 1);
+    if (isWorkDay(currentDate, daysOff)) {
+      subtractedDays++;
+    }
+  }
+
+  // Set the result to the final calculated date
+  result.setTime(currentDate.getTime());
+  return result;
+}
+
+// Move a date forward (positive) or backward (negative) by a number of work days
+export function shiftWorkDays(date: Date, workDays: number, daysOff: TimeOff[] = []): Date {
+  return workDays >= 0 ? addWorkDays(date, workDays, daysOff) : subtractWorkDays(date, -workDays, daysOff);
+}
+
+// Count work days between two dates (inclusive)
+export function countWorkDays(startDate: Date, endDate: Date, daysOff: TimeOff[] = []): number {
+  if (startDate > endDate) return 0; // Invalid date range
+
+  let workDays = 0;
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    if (isWorkDay(currentDate, daysOff)) {
+      workDays++;
+    }
+    currentDate.setDate(currentDate.getDate() + 1);
+  }
+
+  return workDays;
+}
+
+// Signed number of work days to move `from` by to reach `to` (the inverse of shiftWorkDays)
+export function workDaysBetween(from: Date, to: Date, daysOff: TimeOff[] = []): number {
+  if (to >= from) return countWorkDays(addDays(from, 1), to, daysOff);
+  return -countWorkDays(to, addDays(from, -1), daysOff);
+}
@@ -0,0 +1,89 @@
+import type { PoolData, ProjectFilters, ProjectFormData, TimeOff } from './types';
+import type { TimeScale } from './timescale';
+import type { SwimlaneGrouping } from './swimlanes';
+import type { Baseline } from './baselines';
+import { generateId } from './ids';
+
+// Workspaces are separate plans (e.g. one per portfolio) kept side by side in the same browser.
+// Each has its own projects and pools plus the filters and view settings it was last left with.
+// A scenario is a workspace forked from another's live plan to try out changes without touching
+// it; it can be compared with that plan and promoted to replace it.
+
+export interface WorkspaceSettings {
+  showGantt: boolean;
+  hiddenProjectIds: string[]; // Projects switched off in the sidebar; new projects start visible
+  ganttScale: TimeScale;
+  ganttGrouping: SwimlaneGrouping;
+  baselineId: string | null; // Baseline the Gantt chart compares against
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  scenarioOf?: string; // Scenarios: id of the workspace whose live plan this was forked from
+  filters: ProjectFilters;
+  settings: WorkspaceSettings;
+  baselines: Baseline[]; // Oldest first
+  holidays: TimeOff[]; // Company holidays, which no pool works
+}
+
+// Data saved before workspaces existed belongs to this one
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export const emptyFilters: ProjectFilters = {
+  status: [],
+  pool: [],
+  dateRange: { start: '', end: '' },
+  progress: { min: undefined, max: undefined },
+  search: ''
+};
+
+export const defaultWorkspaceSettings: WorkspaceSettings = {
+  showGantt: true,
+  hiddenProjectIds: [],
+  ganttScale: 'week',
+  ganttGrouping: 'none',
+  baselineId: null
+};
+
+export function createWorkspace(name: string, id: string = generateId()): Workspace {
+  return {
+    id,
+    name,
+    createdAt: new Date().toISOString(),
+    filters: emptyFilters,
+    settings: defaultWorkspaceSettings,
+    baselines: [],
+    holidays: []
+  };
+}
+
+// `name`, or `name (2)`, `name (3)`… when another workspace already has it
+export function getUniqueWorkspaceName(name: string, workspaces: Workspace[], ignoreId?: string): string {
+  const base = name.trim() || 'Untitled Workspace';
+  const taken = new Set(workspaces.filter(w => w.id !== ignoreId).map(w => w.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${base} (${n})`.toLowerCase())) n++;
+  return `${base} (${n})`;
+}
+
+// The workspace a scenario belongs to, or undefined for live workspaces (and scenarios whose
+// workspace has been deleted, which are treated as live)
+export function getScenarioParent(workspace: Workspace, workspaces: Workspace[]): Workspace | undefined {
+  return workspace.scenarioOf ? workspaces.find(w => w.id === workspace.scenarioOf) : undefined;
+}
+
+// One workspace in an all-workspaces backup file
+export interface WorkspaceBackup {
+  id?: string; // Ids in the file only link scenarios to their workspace; restoring assigns new ones
+  scenarioOf?: string;
+  name: string;
+  filters?: ProjectFilters;
+  settings?: Partial<WorkspaceSettings>;
+  baselines?: Baseline[];
+  holidays?: TimeOff[];
+  projects: ProjectFormData[];
+  pools: PoolData[];
+}
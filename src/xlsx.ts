@@ -0,0 +1,245 @@
+// Excel workbooks (.xlsx) written in the browser: a zip of SpreadsheetML parts, stored without
+// compression, which every spreadsheet app reads. Just enough of the format for exports: text,
+// number and date cells, a bold frozen header row, column widths and conditional fills.
+
+export interface XlsxColumn {
+  header: string;
+  width?: number; // In characters
+  format?: 'date' | 'datetime'; // Values are YYYY-MM-DD dates or ISO timestamps, stored as Excel dates
+}
+
+// Fill cells in `range` (e.g. "B2:B40") red where `formula` (written for the range's first cell) is true
+export interface XlsxConditionalFill {
+  range: string;
+  formula: string;
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: (string | number | undefined)[][];
+  frozenColumns?: number; // Columns kept in view when scrolling sideways, besides the header row
+  conditionalFills?: XlsxConditionalFill[];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Cell styles, by their index in styles.xml
+const styles = { header: 1, date: 2, datetime: 3 };
+
+// Control characters other than tab and line breaks aren't allowed in XML at all
+function isXmlChar(char: string) {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string) {
+  return Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// Column letters: 0 → A, 25 → Z, 26 → AA
+export function getColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Days since Excel's day zero (Dec 30, 1899), with the time of day as the fraction
+function toExcelDate(value: string, withTime: boolean): number | null {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  const days = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86400000 + 25569;
+  if (!withTime) return days;
+  return days + (date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds()) / 86400;
+}
+
+function toCell(value: string | number | undefined, column: XlsxColumn | undefined, ref: string) {
+  if (value === undefined || value === '') return '';
+  if (column?.format && typeof value === 'string') {
+    const serial = toExcelDate(value, column.format === 'datetime');
+    if (serial !== null) return `<c r="${ref}" s="${styles[column.format]}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"><v>${value}</v></c>` : '';
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function toSheetXml(sheet: XlsxSheet) {
+  const frozenColumns = sheet.frozenColumns || 0;
+  const topLeftCell = `${getColumnName(frozenColumns)}2`;
+  const pane = frozenColumns > 0
+    ? `<pane xSplit="${frozenColumns}" ySplit="1" topLeftCell="${topLeftCell}" activePane="bottomRight" state="frozen"/>`
+    : `<pane ySplit="1" topLeftCell="${topLeftCell}" activePane="bottomLeft" state="frozen"/>`;
+  const cols = sheet.columns
+    .map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.width || Math.max(10, column.header.length + 2)}" customWidth="1"/>`)
+    .join('');
+  const header = `<row r="1">${sheet.columns
+    .map((column, i) => `<c r="${getColumnName(i)}1" s="${styles.header}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join('')}</row>`;
+  const rows = sheet.rows.map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, c) => toCell(value, sheet.columns[c], `${getColumnName(c)}${r + 2}`)).join('')}</row>`
+  );
+  const fills = (sheet.conditionalFills || []).map((fill, i) =>
+    `<conditionalFormatting sqref="${fill.range}"><cfRule type="expression" dxfId="0" priority="${i + 1}"><formula>${escapeXml(fill.formula)}</formula></cfRule></conditionalFormatting>`
+  );
+  return XML_HEADER + [
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">`,
+    `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`,
+    `<cols>${cols}</cols>`,
+    `<sheetData>${header}${rows.join('')}</sheetData>`,
+    ...fills,
+    '</worksheet>'
+  ].join('');
+}
+
+// Regular, bold header, date and date-time cells; the conditional fill is the one differential style
+const stylesXml = XML_HEADER + [
+  `<styleSheet xmlns="${MAIN_NS}">`,
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>',
+  '<fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/><bgColor indexed="64"/></patternFill></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="4">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>',
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  '</cellXfs>',
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  '<dxfs count="1"><dxf><font><color rgb="FF991B1B"/></font><fill><patternFill><bgColor rgb="FFFECACA"/></patternFill></fill></dxf></dxfs>',
+  '</styleSheet>'
+].join('');
+
+// Excel rejects sheet names over 31 characters or with any of []:*?/\
+function toSheetName(name: string, taken: Set<string>) {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let n = 2; taken.has(sheetName.toLowerCase()); n++) sheetName = `${base.slice(0, 31 - `${n}`.length - 1)} ${n}`;
+  taken.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+export function toXlsx(sheets: XlsxSheet[]): Uint8Array {
+  const taken = new Set<string>();
+  const sheetNames = sheets.map(sheet => toSheetName(sheet.name, taken));
+  const files: [string, string][] = [
+    ['[Content_Types].xml', XML_HEADER + [
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+      '<Default Extension="xml" ContentType="application/xml"/>',
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+      ...sheets.map((_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ),
+      '</Types>'
+    ].join('')],
+    ['_rels/.rels', XML_HEADER + [
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>`,
+      '</Relationships>'
+    ].join('')],
+    ['xl/workbook.xml', XML_HEADER + [
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>`,
+      ...sheetNames.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`),
+      '</sheets></workbook>'
+    ].join('')],
+    ['xl/_rels/workbook.xml.rels', XML_HEADER + [
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+      ...sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`),
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>`,
+      '</Relationships>'
+    ].join('')],
+    ['xl/styles.xml', stylesXml],
+    ...sheets.map((sheet, i): [string, string] => [`xl/worksheets/sheet${i + 1}.xml`, toSheetXml(sheet)])
+  ];
+  const encoder = new TextEncoder();
+  return zip(files.map(([name, text]) => ({ name, data: encoder.encode(text) })));
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// A zip archive with the files stored as they are (no compression)
+function zip(files: { name: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, file.data.length, true);
+    central.setUint32(24, file.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // Where the local header starts
+
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+}